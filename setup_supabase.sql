@@ -18,11 +18,40 @@ CREATE TABLE IF NOT EXISTS public.books (
 
 CREATE INDEX IF NOT EXISTS idx_books_isbn ON public.books(isbn);
 
+-- Books are never deleted once they have circulated; withdrawn titles are
+-- hidden from search and borrowing but keep their copies and loan history
+ALTER TABLE public.books
+  ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'withdrawn')),
+  ADD COLUMN IF NOT EXISTS withdrawn_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS withdrawn_by TEXT,
+  ADD COLUMN IF NOT EXISTS withdrawal_reason TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_books_status ON public.books(status);
+
+-- Bibliographic details. Several authors are entered in the author column
+-- separated by semicolons ("Cormen, Thomas H.; Leiserson, Charles E."), so
+-- screens that only show author keep working; authors is the parsed list.
+ALTER TABLE public.books
+  ADD COLUMN IF NOT EXISTS authors TEXT[] GENERATED ALWAYS AS (
+    array_remove(regexp_split_to_array(trim(author), '\s*;\s*'), '')
+  ) STORED,
+  ADD COLUMN IF NOT EXISTS publisher TEXT,
+  ADD COLUMN IF NOT EXISTS edition TEXT,
+  ADD COLUMN IF NOT EXISTS publication_year INTEGER CHECK (publication_year BETWEEN 1 AND 9999),
+  ADD COLUMN IF NOT EXISTS language TEXT,
+  ADD COLUMN IF NOT EXISTS page_count INTEGER CHECK (page_count > 0),
+  ADD COLUMN IF NOT EXISTS subjects TEXT[] NOT NULL DEFAULT '{}',
+  ADD COLUMN IF NOT EXISTS description TEXT,
+  ADD COLUMN IF NOT EXISTS cover_url TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_books_authors ON public.books USING GIN (authors);
+CREATE INDEX IF NOT EXISTS idx_books_subjects ON public.books USING GIN (subjects);
+
 -- 2. Borrowed Books Table
 CREATE TABLE IF NOT EXISTS public.borrowed_books (
   id SERIAL PRIMARY KEY,
   user_email TEXT NOT NULL,
-  book_isbn TEXT NOT NULL REFERENCES public.books(isbn) ON DELETE CASCADE,
+  book_isbn TEXT NOT NULL REFERENCES public.books(isbn) ON DELETE RESTRICT,
   borrow_date TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
   due_date TIMESTAMP WITH TIME ZONE NOT NULL,
   return_date TIMESTAMP WITH TIME ZONE,
@@ -30,7 +59,6 @@ CREATE TABLE IF NOT EXISTS public.borrowed_books (
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
-CREATE INDEX IF NOT EXISTS idx_borrowed_books_user_email ON public.borrowed_books(user_email);
 CREATE INDEX IF NOT EXISTS idx_borrowed_books_book_isbn ON public.borrowed_books(book_isbn);
 CREATE INDEX IF NOT EXISTS idx_borrowed_books_returned ON public.borrowed_books(returned);
 CREATE INDEX IF NOT EXISTS idx_borrowed_books_due_date ON public.borrowed_books(due_date);
@@ -48,7 +76,2318 @@ CREATE TABLE IF NOT EXISTS public.users (
 CREATE INDEX IF NOT EXISTS idx_users_role ON public.users(role);
 CREATE INDEX IF NOT EXISTS idx_users_email ON public.users(email);
 
--- 4. Sample Books (Optional - you can remove this if you want to add books manually)
+-- Emails the patron has chosen to receive (set on the account settings page).
+-- Receipts asked for at the desk are always sent.
+ALTER TABLE public.users
+  ADD COLUMN IF NOT EXISTS email_due_reminders BOOLEAN NOT NULL DEFAULT TRUE,
+  ADD COLUMN IF NOT EXISTS email_hold_notices BOOLEAN NOT NULL DEFAULT TRUE;
+
+-- Loans belong to a user account. They used to be linked only by the email
+-- typed into the browser, so changing an email cut a patron off from their
+-- history; user_email is now a copy of the borrower's email for display.
+ALTER TABLE public.borrowed_books
+  ADD COLUMN IF NOT EXISTS user_id UUID;
+
+UPDATE public.borrowed_books bb
+SET user_id = u.id
+FROM public.users u
+WHERE bb.user_id IS NULL AND lower(u.email) = lower(bb.user_email);
+
+ALTER TABLE public.borrowed_books DROP CONSTRAINT IF EXISTS borrowed_books_user_id_fkey;
+ALTER TABLE public.borrowed_books
+  ADD CONSTRAINT borrowed_books_user_id_fkey
+  FOREIGN KEY (user_id) REFERENCES public.users(id) ON DELETE RESTRICT;
+
+DROP INDEX IF EXISTS public.idx_borrowed_books_user_email;
+CREATE INDEX IF NOT EXISTS idx_borrowed_books_user_id ON public.borrowed_books(user_id);
+
+-- Loans under an email with no account cannot be linked. They are reported
+-- and the column stays nullable until the account exists and this script
+-- is run again.
+DO $$
+DECLARE
+  v_unlinked INTEGER;
+BEGIN
+  SELECT COUNT(*) INTO v_unlinked FROM public.borrowed_books WHERE user_id IS NULL;
+
+  IF v_unlinked > 0 THEN
+    RAISE WARNING '% loan(s) have an email with no matching user and were not linked to an account', v_unlinked;
+  ELSE
+    ALTER TABLE public.borrowed_books ALTER COLUMN user_id SET NOT NULL;
+  END IF;
+END $$;
+
+-- Keep the display email on loans, holds, fines and blocks in step with the
+-- account (the holds, fine ledger and blocks tables come in sections 8-10)
+DROP TRIGGER IF EXISTS trg_users_sync_loan_email ON public.users;
+DROP FUNCTION IF EXISTS public.sync_loan_user_email();
+
+CREATE OR REPLACE FUNCTION public.sync_patron_email()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.borrowed_books SET user_email = NEW.email WHERE user_id = NEW.id;
+  UPDATE public.holds SET user_email = NEW.email WHERE user_id = NEW.id;
+  UPDATE public.fine_ledger SET user_email = NEW.email WHERE user_id = NEW.id;
+  UPDATE public.patron_blocks SET user_email = NEW.email WHERE user_id = NEW.id;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_users_sync_patron_email ON public.users;
+CREATE TRIGGER trg_users_sync_patron_email
+  AFTER UPDATE OF email ON public.users
+  FOR EACH ROW
+  WHEN (OLD.email IS DISTINCT FROM NEW.email)
+  EXECUTE FUNCTION public.sync_patron_email();
+
+-- 4. Access Control
+-- Who is calling, for the row level security policies (section 17) and for
+-- the functions that change loans, holds, fines and the catalog. Those
+-- functions run as SECURITY DEFINER because students cannot write to the
+-- tables directly, so each one checks the caller before doing anything.
+-- Requests with the service key and direct database sessions (SQL editor,
+-- scheduled jobs) carry no signed-in user and are trusted like a librarian.
+CREATE OR REPLACE FUNCTION public.current_app_role()
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN COALESCE(auth.jwt() ->> 'role', 'service_role') = 'service_role' THEN 'service'
+    ELSE (SELECT role FROM public.users WHERE id = auth.uid())
+  END
+$$;
+
+CREATE OR REPLACE FUNCTION public.is_librarian()
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT COALESCE(public.current_app_role() IN ('librarian', 'service'), FALSE)
+$$;
+
+-- The name written to the audit columns (changed_by, recorded_by, ...),
+-- which callers cannot supply themselves
+CREATE OR REPLACE FUNCTION public.current_user_email()
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT lower(email) FROM public.users WHERE id = auth.uid()
+$$;
+
+-- Librarians act for any patron; students only for themselves
+CREATE OR REPLACE FUNCTION public.can_access_user(p_user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT public.is_librarian() OR COALESCE(p_user_id = auth.uid(), FALSE)
+$$;
+
+-- 5. ISBN Canonicalization
+-- Books are stored under their canonical ISBN: 13 digits with no hyphens.
+-- ISBN-10s are converted to ISBN-13; invalid values return NULL.
+-- Mirrors canonicalizeISBN() in src/lib/isbn.ts
+CREATE OR REPLACE FUNCTION public.canonical_isbn(p_isbn TEXT)
+RETURNS TEXT
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  v_input TEXT := upper(regexp_replace(COALESCE(p_isbn, ''), '[^0-9Xx]', '', 'g'));
+  v_clean TEXT := v_input;
+  v_sum INTEGER := 0;
+  i INTEGER;
+BEGIN
+  IF v_clean ~ '^[0-9]{9}[0-9X]$' THEN
+    FOR i IN 1..10 LOOP
+      v_sum := v_sum + (11 - i) * (CASE WHEN substr(v_clean, i, 1) = 'X' THEN 10 ELSE substr(v_clean, i, 1)::INTEGER END);
+    END LOOP;
+    IF v_sum % 11 <> 0 THEN
+      RETURN NULL;
+    END IF;
+    v_clean := '978' || substr(v_clean, 1, 9);
+  ELSIF v_clean ~ '^97[89][0-9]{10}$' THEN
+    v_clean := substr(v_clean, 1, 12);
+  ELSE
+    RETURN NULL;
+  END IF;
+
+  v_sum := 0;
+  FOR i IN 1..12 LOOP
+    v_sum := v_sum + substr(v_clean, i, 1)::INTEGER * (CASE WHEN i % 2 = 1 THEN 1 ELSE 3 END);
+  END LOOP;
+  v_clean := v_clean || ((10 - v_sum % 10) % 10)::TEXT;
+
+  -- A 13-digit input must match the check digit we just computed
+  IF length(v_input) = 13 AND v_clean <> v_input THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN v_clean;
+END;
+$$;
+
+-- Let ISBN changes flow through to loan history instead of failing on the foreign key.
+-- Deleting a title with loan history is refused; withdraw it instead (section 14).
+ALTER TABLE public.borrowed_books DROP CONSTRAINT IF EXISTS borrowed_books_book_isbn_fkey;
+ALTER TABLE public.borrowed_books
+  ADD CONSTRAINT borrowed_books_book_isbn_fkey
+  FOREIGN KEY (book_isbn) REFERENCES public.books(isbn)
+  ON UPDATE CASCADE ON DELETE RESTRICT;
+
+-- Canonicalize ISBNs on every insert/update; values that are not valid ISBNs are kept as entered
+CREATE OR REPLACE FUNCTION public.books_canonicalize_isbn()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.isbn := COALESCE(public.canonical_isbn(NEW.isbn), NEW.isbn);
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS books_canonicalize_isbn ON public.books;
+CREATE TRIGGER books_canonicalize_isbn
+  BEFORE INSERT OR UPDATE OF isbn ON public.books
+  FOR EACH ROW EXECUTE FUNCTION public.books_canonicalize_isbn();
+
+-- Migrate existing rows. Titles whose canonical ISBN collides with another row
+-- are left untouched and listed below so they can be merged by hand.
+UPDATE public.books b
+SET isbn = public.canonical_isbn(b.isbn)
+WHERE public.canonical_isbn(b.isbn) IS NOT NULL
+  AND b.isbn <> public.canonical_isbn(b.isbn)
+  AND NOT EXISTS (
+    SELECT 1 FROM public.books other
+    WHERE other.id <> b.id
+      AND public.canonical_isbn(other.isbn) = public.canonical_isbn(b.isbn)
+  );
+
+SELECT id, isbn, name, public.canonical_isbn(isbn) AS canonical_isbn
+FROM public.books
+WHERE public.canonical_isbn(isbn) IS NULL
+   OR isbn <> public.canonical_isbn(isbn);
+
+-- 6. Book Copies (Item-Level Tracking)
+-- Every physical copy has its own accession barcode, condition, shelf location and status.
+-- books.total_copies / available_copies are kept in sync from this table by trigger.
+CREATE SEQUENCE IF NOT EXISTS public.book_copy_accession_seq;
+
+CREATE TABLE IF NOT EXISTS public.book_copies (
+  id SERIAL PRIMARY KEY,
+  book_isbn TEXT NOT NULL REFERENCES public.books(isbn) ON UPDATE CASCADE ON DELETE RESTRICT,
+  barcode TEXT UNIQUE NOT NULL DEFAULT ('CR' || lpad(nextval('public.book_copy_accession_seq')::TEXT, 6, '0')),
+  condition TEXT NOT NULL DEFAULT 'good' CHECK (condition IN ('new', 'good', 'fair', 'poor', 'damaged')),
+  location TEXT,
+  status TEXT NOT NULL DEFAULT 'available' CHECK (status IN ('available', 'on_loan', 'on_hold', 'damaged', 'lost', 'withdrawn')),
+  notes TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_book_copies_book_isbn ON public.book_copies(book_isbn);
+
+-- Databases created before withdrawal existed deleted copies along with their title
+ALTER TABLE public.book_copies DROP CONSTRAINT IF EXISTS book_copies_book_isbn_fkey;
+ALTER TABLE public.book_copies
+  ADD CONSTRAINT book_copies_book_isbn_fkey
+  FOREIGN KEY (book_isbn) REFERENCES public.books(isbn)
+  ON UPDATE CASCADE ON DELETE RESTRICT;
+CREATE INDEX IF NOT EXISTS idx_book_copies_status ON public.book_copies(status);
+
+ALTER TABLE public.borrowed_books
+  ADD COLUMN IF NOT EXISTS copy_id INTEGER REFERENCES public.book_copies(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_borrowed_books_copy_id ON public.borrowed_books(copy_id);
+
+-- Lost and withdrawn copies are no longer part of the collection;
+-- damaged copies are still owned but cannot be lent
+CREATE OR REPLACE FUNCTION public.refresh_book_copy_counts(p_isbn TEXT)
+RETURNS VOID
+LANGUAGE sql
+AS $$
+  UPDATE public.books
+  SET total_copies = (
+        SELECT COUNT(*) FROM public.book_copies
+        WHERE book_isbn = p_isbn AND status NOT IN ('lost', 'withdrawn')
+      ),
+      available_copies = (
+        SELECT COUNT(*) FROM public.book_copies
+        WHERE book_isbn = p_isbn AND status = 'available'
+      ),
+      updated_at = NOW()
+  WHERE isbn = p_isbn;
+$$;
+
+CREATE OR REPLACE FUNCTION public.book_copies_sync_counts()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    PERFORM public.refresh_book_copy_counts(OLD.book_isbn);
+  END IF;
+  IF TG_OP IN ('INSERT', 'UPDATE') THEN
+    PERFORM public.refresh_book_copy_counts(NEW.book_isbn);
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS book_copies_sync_counts ON public.book_copies;
+CREATE TRIGGER book_copies_sync_counts
+  AFTER INSERT OR UPDATE OR DELETE ON public.book_copies
+  FOR EACH ROW EXECUTE FUNCTION public.book_copies_sync_counts();
+
+-- New titles get one copy row per total_copies
+CREATE OR REPLACE FUNCTION public.books_create_copies()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  INSERT INTO public.book_copies (book_isbn)
+  SELECT NEW.isbn FROM generate_series(1, NEW.total_copies);
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS books_create_copies ON public.books;
+CREATE TRIGGER books_create_copies
+  AFTER INSERT ON public.books
+  FOR EACH ROW EXECUTE FUNCTION public.books_create_copies();
+
+-- Migrate existing titles: create their copies and attach active loans to them
+INSERT INTO public.book_copies (book_isbn)
+SELECT b.isbn
+FROM public.books b
+CROSS JOIN LATERAL generate_series(1, b.total_copies)
+WHERE NOT EXISTS (SELECT 1 FROM public.book_copies c WHERE c.book_isbn = b.isbn);
+
+DO $$
+DECLARE
+  v_loan RECORD;
+  v_copy_id INTEGER;
+BEGIN
+  FOR v_loan IN
+    SELECT id, book_isbn FROM public.borrowed_books
+    WHERE returned = FALSE AND copy_id IS NULL
+    ORDER BY id
+  LOOP
+    SELECT id INTO v_copy_id
+    FROM public.book_copies
+    WHERE book_isbn = v_loan.book_isbn AND status = 'available'
+    ORDER BY id
+    LIMIT 1;
+
+    IF v_copy_id IS NOT NULL THEN
+      UPDATE public.book_copies SET status = 'on_loan', updated_at = NOW() WHERE id = v_copy_id;
+      UPDATE public.borrowed_books SET copy_id = v_copy_id WHERE id = v_loan.id;
+    END IF;
+  END LOOP;
+END;
+$$;
+
+-- 7. Loan Policies
+-- Circulation rules keyed by book category and patron role. NULL in either
+-- column means "any"; the most specific matching row wins, and the row with
+-- both NULL is the library-wide default (it cannot be deleted).
+CREATE TABLE IF NOT EXISTS public.loan_policies (
+  id SERIAL PRIMARY KEY,
+  category TEXT,
+  role TEXT CHECK (role IN ('student', 'librarian')),
+  loan_days INTEGER NOT NULL DEFAULT 14 CHECK (loan_days > 0),
+  max_loans INTEGER CHECK (max_loans >= 0),
+  renewal_days INTEGER NOT NULL DEFAULT 14 CHECK (renewal_days > 0),
+  max_renewals INTEGER NOT NULL DEFAULT 2 CHECK (max_renewals >= 0),
+  block_renewal_when_holds BOOLEAN NOT NULL DEFAULT TRUE,
+  block_renewal_when_overdue BOOLEAN NOT NULL DEFAULT TRUE,
+  fine_per_day NUMERIC(8, 2) NOT NULL DEFAULT 0.25 CHECK (fine_per_day >= 0),
+  max_fine NUMERIC(8, 2) NOT NULL DEFAULT 10.00 CHECK (max_fine >= 0),
+  due_soon_days INTEGER NOT NULL DEFAULT 5 CHECK (due_soon_days >= 0),
+  hold_pickup_days INTEGER NOT NULL DEFAULT 3 CHECK (hold_pickup_days > 0),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Borrowing is refused while a patron owes more than this (NULL = never block)
+ALTER TABLE public.loan_policies
+  ADD COLUMN IF NOT EXISTS fine_block_threshold NUMERIC(8, 2) DEFAULT 5.00 CHECK (fine_block_threshold >= 0);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_loan_policies_scope
+  ON public.loan_policies ((COALESCE(lower(category), '')), (COALESCE(role, '')));
+
+INSERT INTO public.loan_policies (category, role, max_loans)
+VALUES (NULL, NULL, 5)
+ON CONFLICT ((COALESCE(lower(category), '')), (COALESCE(role, ''))) DO NOTHING;
+
+CREATE OR REPLACE FUNCTION public.loan_policies_protect_default()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF OLD.category IS NULL AND OLD.role IS NULL THEN
+    RAISE EXCEPTION 'The default loan policy cannot be deleted';
+  END IF;
+  RETURN OLD;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS loan_policies_protect_default ON public.loan_policies;
+CREATE TRIGGER loan_policies_protect_default
+  BEFORE DELETE ON public.loan_policies
+  FOR EACH ROW EXECUTE FUNCTION public.loan_policies_protect_default();
+
+-- Most specific policy for a category/role pair (mirrors resolveLoanPolicy() in src/lib/loanPolicy.ts)
+CREATE OR REPLACE FUNCTION public.resolve_loan_policy(p_category TEXT, p_role TEXT)
+RETURNS public.loan_policies
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT *
+  FROM public.loan_policies
+  WHERE (category IS NULL OR lower(category) = lower(p_category))
+    AND (role IS NULL OR role = p_role)
+  ORDER BY (category IS NOT NULL) DESC, (role IS NOT NULL) DESC
+  LIMIT 1;
+$$;
+
+-- Loans, holds, fines and blocks are keyed by account
+DROP FUNCTION IF EXISTS public.user_role_for_email(TEXT);
+
+CREATE OR REPLACE FUNCTION public.user_role_for_id(p_user_id UUID)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT COALESCE((SELECT role FROM public.users WHERE id = p_user_id), 'student');
+$$;
+
+-- 8. Holds / Reservation Queue
+-- Patrons queue for titles with no copies on the shelf. When a copy comes back
+-- it is set aside (status on_hold) for the first patron in line until the
+-- pickup window expires, then passed to the next patron.
+
+-- Databases created before holds existed need the on_hold copy status
+ALTER TABLE public.book_copies DROP CONSTRAINT IF EXISTS book_copies_status_check;
+ALTER TABLE public.book_copies
+  ADD CONSTRAINT book_copies_status_check
+  CHECK (status IN ('available', 'on_loan', 'on_hold', 'damaged', 'lost', 'withdrawn'));
+
+CREATE TABLE IF NOT EXISTS public.holds (
+  id SERIAL PRIMARY KEY,
+  user_id UUID REFERENCES public.users(id) ON DELETE RESTRICT,
+  user_email TEXT NOT NULL,
+  book_isbn TEXT NOT NULL REFERENCES public.books(isbn) ON UPDATE CASCADE ON DELETE CASCADE,
+  status TEXT NOT NULL DEFAULT 'waiting' CHECK (status IN ('waiting', 'ready', 'fulfilled', 'cancelled', 'expired')),
+  copy_id INTEGER REFERENCES public.book_copies(id) ON DELETE SET NULL,
+  requested_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  ready_at TIMESTAMP WITH TIME ZONE,
+  pickup_expires_at TIMESTAMP WITH TIME ZONE,
+  closed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Holds belong to a user account like loans do (section 3); user_email is a
+-- copy for display. Holds placed when they were kept by email are linked here.
+ALTER TABLE public.holds
+  ADD COLUMN IF NOT EXISTS user_id UUID REFERENCES public.users(id) ON DELETE RESTRICT;
+
+DROP INDEX IF EXISTS public.idx_holds_user_email;
+DROP INDEX IF EXISTS public.idx_holds_one_open_per_patron;
+
+UPDATE public.holds h
+SET user_id = u.id, user_email = u.email
+FROM public.users u
+WHERE h.user_id IS NULL AND lower(u.email) = lower(h.user_email);
+
+-- The same email typed in different case could queue twice for a title;
+-- only the earliest of those holds is kept
+UPDATE public.holds h
+SET status = 'cancelled', closed_at = NOW()
+WHERE h.status IN ('waiting', 'ready')
+  AND EXISTS (
+    SELECT 1 FROM public.holds e
+    WHERE e.user_id = h.user_id AND e.book_isbn = h.book_isbn
+      AND e.status IN ('waiting', 'ready') AND e.id < h.id
+  );
+
+CREATE INDEX IF NOT EXISTS idx_holds_book_isbn ON public.holds(book_isbn);
+CREATE INDEX IF NOT EXISTS idx_holds_user_id ON public.holds(user_id);
+CREATE INDEX IF NOT EXISTS idx_holds_status ON public.holds(status);
+-- One open hold per patron per title
+CREATE UNIQUE INDEX IF NOT EXISTS idx_holds_one_open_per_user
+  ON public.holds(user_id, book_isbn)
+  WHERE status IN ('waiting', 'ready');
+
+-- Open holds with each patron's place in the queue for that title. Places
+-- are counted over every hold, then students only get their own rows.
+DROP VIEW IF EXISTS public.hold_queue;
+
+CREATE VIEW public.hold_queue AS
+SELECT *
+FROM (
+  SELECT
+    h.*,
+    CASE WHEN h.status = 'waiting'
+      THEN ROW_NUMBER() OVER (PARTITION BY h.book_isbn, h.status ORDER BY h.requested_at, h.id)
+    END AS queue_position
+  FROM public.holds h
+  WHERE h.status IN ('waiting', 'ready')
+) q
+WHERE public.can_access_user(q.user_id);
+
+-- Give a copy to the next waiting patron, or put it back on the shelf.
+-- Returns the hold that became ready (for the pickup email), or NULL.
+DROP FUNCTION IF EXISTS public.assign_copy_to_next_hold(INTEGER, INTEGER);
+
+CREATE OR REPLACE FUNCTION public.assign_copy_to_next_hold(p_copy_id INTEGER)
+RETURNS JSONB
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_copy public.book_copies%ROWTYPE;
+  v_hold public.holds%ROWTYPE;
+  v_policy public.loan_policies%ROWTYPE;
+  v_patron public.users%ROWTYPE;
+BEGIN
+  SELECT * INTO v_copy FROM public.book_copies WHERE id = p_copy_id FOR UPDATE;
+
+  SELECT * INTO v_hold
+  FROM public.holds
+  WHERE book_isbn = v_copy.book_isbn AND status = 'waiting'
+  ORDER BY requested_at, id
+  LIMIT 1
+  FOR UPDATE SKIP LOCKED;
+
+  IF NOT FOUND THEN
+    UPDATE public.book_copies SET status = 'available', updated_at = NOW() WHERE id = p_copy_id;
+    RETURN NULL;
+  END IF;
+
+  UPDATE public.book_copies SET status = 'on_hold', updated_at = NOW() WHERE id = p_copy_id;
+
+  v_policy := public.resolve_loan_policy(
+    (SELECT category FROM public.books WHERE isbn = v_hold.book_isbn),
+    public.user_role_for_id(v_hold.user_id)
+  );
+
+  UPDATE public.holds
+  SET status = 'ready',
+      copy_id = p_copy_id,
+      ready_at = NOW(),
+      pickup_expires_at = NOW() + make_interval(days => v_policy.hold_pickup_days)
+  WHERE id = v_hold.id
+  RETURNING * INTO v_hold;
+
+  -- Who to greet in the pickup email, and whether they want it
+  SELECT * INTO v_patron FROM public.users WHERE id = v_hold.user_id;
+
+  RETURN jsonb_build_object(
+    'hold_id', v_hold.id,
+    'user_email', v_hold.user_email,
+    'user_name', v_patron.name,
+    'email_notice', COALESCE(v_patron.email_hold_notices, TRUE),
+    'isbn', v_hold.book_isbn,
+    'book_name', (SELECT name FROM public.books WHERE isbn = v_hold.book_isbn),
+    'copy_barcode', v_copy.barcode,
+    'pickup_expires_at', v_hold.pickup_expires_at
+  );
+END;
+$$;
+
+DROP FUNCTION IF EXISTS public.place_hold(TEXT, TEXT);
+
+CREATE OR REPLACE FUNCTION public.place_hold(p_user_id UUID, p_isbn TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_book public.books%ROWTYPE;
+  v_hold public.holds%ROWTYPE;
+  v_patron public.users%ROWTYPE;
+  v_position INTEGER;
+BEGIN
+  IF NOT public.can_access_user(p_user_id) THEN
+    RETURN jsonb_build_object('success', FALSE, 'error', 'not_allowed');
+  END IF;
+
+  SELECT * INTO v_patron FROM public.users WHERE id = p_user_id;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', FALSE, 'error', 'patron_not_found');
+  END IF;
+
+  SELECT * INTO v_book
+  FROM public.books
+  WHERE isbn = COALESCE(public.canonical_isbn(p_isbn), p_isbn);
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', FALSE, 'error', 'not_found');
+  END IF;
+
+  IF v_book.status = 'withdrawn' THEN
+    RETURN jsonb_build_object('success', FALSE, 'error', 'withdrawn', 'book_name', v_book.name);
+  END IF;
+
+  IF v_book.available_copies > 0 THEN
+    RETURN jsonb_build_object('success', FALSE, 'error', 'available', 'book_name', v_book.name);
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.borrowed_books
+    WHERE user_id = p_user_id AND book_isbn = v_book.isbn AND returned = FALSE
+  ) THEN
+    RETURN jsonb_build_object('success', FALSE, 'error', 'already_borrowed', 'book_name', v_book.name);
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.holds
+    WHERE user_id = p_user_id AND book_isbn = v_book.isbn AND status IN ('waiting', 'ready')
+  ) THEN
+    RETURN jsonb_build_object('success', FALSE, 'error', 'already_on_hold', 'book_name', v_book.name);
+  END IF;
+
+  INSERT INTO public.holds (user_id, user_email, book_isbn)
+  VALUES (p_user_id, v_patron.email, v_book.isbn)
+  RETURNING * INTO v_hold;
+
+  SELECT queue_position INTO v_position FROM public.hold_queue WHERE id = v_hold.id;
+
+  RETURN jsonb_build_object(
+    'success', TRUE,
+    'hold_id', v_hold.id,
+    'isbn', v_book.isbn,
+    'book_name', v_book.name,
+    'queue_position', v_position
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.cancel_hold(p_hold_id INTEGER)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_hold public.holds%ROWTYPE;
+  v_next_hold JSONB;
+BEGIN
+  SELECT * INTO v_hold FROM public.holds WHERE id = p_hold_id FOR UPDATE;
+
+  IF NOT FOUND OR v_hold.status NOT IN ('waiting', 'ready') OR NOT public.can_access_user(v_hold.user_id) THEN
+    RETURN jsonb_build_object('success', FALSE, 'error', 'hold_not_found');
+  END IF;
+
+  UPDATE public.holds SET status = 'cancelled', closed_at = NOW() WHERE id = v_hold.id;
+
+  -- A copy already set aside goes to the next patron in line
+  IF v_hold.status = 'ready' AND v_hold.copy_id IS NOT NULL THEN
+    v_next_hold := public.assign_copy_to_next_hold(v_hold.copy_id);
+  END IF;
+
+  RETURN jsonb_build_object('success', TRUE, 'hold_id', v_hold.id, 'next_hold', v_next_hold);
+END;
+$$;
+
+-- Housekeeping: expire holds not picked up in time and hand any copies on the
+-- shelf to waiting patrons. Returns the holds that became ready so the caller
+-- can email those patrons.
+CREATE OR REPLACE FUNCTION public.process_holds()
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_hold public.holds%ROWTYPE;
+  v_copy_id INTEGER;
+  v_ready JSONB := '[]'::JSONB;
+  v_next_hold JSONB;
+BEGIN
+  IF NOT public.is_librarian() THEN
+    RAISE EXCEPTION 'Only librarians can process holds' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  FOR v_hold IN
+    SELECT * FROM public.holds
+    WHERE status = 'ready' AND pickup_expires_at < NOW()
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    UPDATE public.holds SET status = 'expired', closed_at = NOW() WHERE id = v_hold.id;
+    IF v_hold.copy_id IS NOT NULL THEN
+      v_next_hold := public.assign_copy_to_next_hold(v_hold.copy_id);
+      IF v_next_hold IS NOT NULL THEN
+        v_ready := v_ready || jsonb_build_array(v_next_hold);
+      END IF;
+    END IF;
+  END LOOP;
+
+  -- Copies that reached the shelf while patrons were waiting (e.g. newly added copies)
+  FOR v_copy_id IN
+    SELECT c.id
+    FROM public.book_copies c
+    WHERE c.status = 'available'
+      AND EXISTS (SELECT 1 FROM public.holds h WHERE h.book_isbn = c.book_isbn AND h.status = 'waiting')
+    ORDER BY c.id
+  LOOP
+    v_next_hold := public.assign_copy_to_next_hold(v_copy_id);
+    IF v_next_hold IS NOT NULL THEN
+      v_ready := v_ready || jsonb_build_array(v_next_hold);
+    END IF;
+  END LOOP;
+
+  RETURN v_ready;
+END;
+$$;
+
+-- 9. Fines Ledger
+-- Overdue fines are charged when a late book comes back: the loan policy's
+-- fine_per_day for each day past the due date, capped at max_fine. Charges,
+-- payments and waivers are kept as ledger rows and never edited, so a
+-- patron's balance is always charges minus payments and waivers.
+CREATE TABLE IF NOT EXISTS public.fine_ledger (
+  id SERIAL PRIMARY KEY,
+  user_id UUID REFERENCES public.users(id) ON DELETE RESTRICT,
+  user_email TEXT NOT NULL,
+  loan_id INTEGER REFERENCES public.borrowed_books(id) ON DELETE SET NULL,
+  entry_type TEXT NOT NULL CHECK (entry_type IN ('charge', 'payment', 'waiver')),
+  amount NUMERIC(10, 2) NOT NULL CHECK (amount > 0),
+  note TEXT,
+  recorded_by TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+-- Kept by account like loans and holds; older entries are linked by email
+ALTER TABLE public.fine_ledger
+  ADD COLUMN IF NOT EXISTS user_id UUID REFERENCES public.users(id) ON DELETE RESTRICT;
+
+UPDATE public.fine_ledger fl
+SET user_id = u.id, user_email = u.email
+FROM public.users u
+WHERE fl.user_id IS NULL AND lower(u.email) = lower(fl.user_email);
+
+DROP INDEX IF EXISTS public.idx_fine_ledger_user_email;
+CREATE INDEX IF NOT EXISTS idx_fine_ledger_user_id ON public.fine_ledger(user_id);
+
+-- A loan is charged at most once
+CREATE UNIQUE INDEX IF NOT EXISTS idx_fine_ledger_loan_charge
+  ON public.fine_ledger(loan_id)
+  WHERE entry_type = 'charge';
+
+DROP VIEW IF EXISTS public.fine_balances;
+
+CREATE VIEW public.fine_balances AS
+SELECT
+  user_id,
+  user_email,
+  SUM(CASE WHEN entry_type = 'charge' THEN amount ELSE -amount END) AS balance,
+  SUM(amount) FILTER (WHERE entry_type = 'charge') AS total_charged,
+  MAX(created_at) AS last_activity
+FROM public.fine_ledger
+GROUP BY user_id, user_email;
+
+DROP FUNCTION IF EXISTS public.fine_balance(TEXT);
+
+CREATE OR REPLACE FUNCTION public.fine_balance(p_user_id UUID)
+RETURNS NUMERIC
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT COALESCE(SUM(CASE WHEN entry_type = 'charge' THEN amount ELSE -amount END), 0)
+  FROM public.fine_ledger
+  WHERE user_id = p_user_id;
+$$;
+
+-- Fine for a loan returned (or still out) on p_as_of, in whole days late
+-- (mirrors estimateOverdueFine() in src/lib/fines.ts)
+CREATE OR REPLACE FUNCTION public.overdue_fine(
+  p_due_date TIMESTAMP WITH TIME ZONE,
+  p_as_of TIMESTAMP WITH TIME ZONE,
+  p_policy public.loan_policies
+)
+RETURNS NUMERIC
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT LEAST(
+    GREATEST(p_as_of::date - p_due_date::date, 0) * p_policy.fine_per_day,
+    p_policy.max_fine
+  );
+$$;
+
+-- Librarians record payments and waivers; charges only come from returns
+DROP FUNCTION IF EXISTS public.record_fine_transaction(TEXT, TEXT, NUMERIC, TEXT, TEXT);
+DROP FUNCTION IF EXISTS public.record_fine_transaction(TEXT, TEXT, NUMERIC, TEXT);
+
+CREATE OR REPLACE FUNCTION public.record_fine_transaction(
+  p_user_id UUID,
+  p_entry_type TEXT,
+  p_amount NUMERIC,
+  p_note TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_patron public.users%ROWTYPE;
+  v_balance NUMERIC;
+  v_entry_id INTEGER;
+BEGIN
+  IF NOT public.is_librarian() THEN
+    RETURN jsonb_build_object('success', FALSE, 'error', 'not_allowed');
+  END IF;
+
+  IF p_entry_type NOT IN ('payment', 'waiver') THEN
+    RETURN jsonb_build_object('success', FALSE, 'error', 'invalid_type');
+  END IF;
+
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RETURN jsonb_build_object('success', FALSE, 'error', 'invalid_amount');
+  END IF;
+
+  SELECT * INTO v_patron FROM public.users WHERE id = p_user_id;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', FALSE, 'error', 'patron_not_found');
+  END IF;
+
+  -- Serialise concurrent payments for the same patron
+  PERFORM pg_advisory_xact_lock(hashtext('fine_ledger:' || p_user_id::text));
+
+  v_balance := public.fine_balance(p_user_id);
+
+  IF round(p_amount, 2) > v_balance THEN
+    RETURN jsonb_build_object('success', FALSE, 'error', 'exceeds_balance', 'balance', v_balance);
+  END IF;
+
+  INSERT INTO public.fine_ledger (user_id, user_email, entry_type, amount, note, recorded_by)
+  VALUES (p_user_id, v_patron.email, p_entry_type, round(p_amount, 2), NULLIF(trim(p_note), ''), public.current_user_email())
+  RETURNING id INTO v_entry_id;
+
+  RETURN jsonb_build_object(
+    'success', TRUE,
+    'entry_id', v_entry_id,
+    'balance', v_balance - round(p_amount, 2)
+  );
+END;
+$$;
+
+-- 10. Borrowing Eligibility
+-- Patron-level checks run before every checkout: a manual block set by a
+-- librarian, overdue loans, fines above the policy threshold, and the overall
+-- loan limit. borrowing_blocks() returns every reason that applies so the UI
+-- can list them all; borrow_book() refuses the loan if any are present.
+CREATE TABLE IF NOT EXISTS public.patron_blocks (
+  id SERIAL PRIMARY KEY,
+  user_id UUID REFERENCES public.users(id) ON DELETE RESTRICT,
+  user_email TEXT NOT NULL,
+  reason TEXT NOT NULL,
+  blocked_by TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  lifted_at TIMESTAMP WITH TIME ZONE,
+  lifted_by TEXT
+);
+
+-- Kept by account like loans and holds; older blocks are linked by email
+ALTER TABLE public.patron_blocks
+  ADD COLUMN IF NOT EXISTS user_id UUID REFERENCES public.users(id) ON DELETE RESTRICT;
+
+DROP INDEX IF EXISTS public.idx_patron_blocks_active;
+
+UPDATE public.patron_blocks pb
+SET user_id = u.id, user_email = u.email
+FROM public.users u
+WHERE pb.user_id IS NULL AND lower(u.email) = lower(pb.user_email);
+
+-- Likewise a patron could be blocked once per spelling; the first block stays
+UPDATE public.patron_blocks pb
+SET lifted_at = NOW()
+WHERE pb.lifted_at IS NULL
+  AND EXISTS (
+    SELECT 1 FROM public.patron_blocks e
+    WHERE e.user_id = pb.user_id AND e.lifted_at IS NULL AND e.id < pb.id
+  );
+
+-- At most one active block per patron; lifted blocks are kept as history
+CREATE UNIQUE INDEX IF NOT EXISTS idx_patron_blocks_active_user
+  ON public.patron_blocks(user_id)
+  WHERE lifted_at IS NULL;
+
+-- Holds, fines and blocks under an email with no account are reported like
+-- unlinked loans (section 3), and their user_id stays nullable until the
+-- account exists and this script is run again
+DO $$
+DECLARE
+  v_table TEXT;
+  v_unlinked INTEGER;
+BEGIN
+  FOREACH v_table IN ARRAY ARRAY['holds', 'fine_ledger', 'patron_blocks'] LOOP
+    EXECUTE format('SELECT COUNT(*) FROM public.%I WHERE user_id IS NULL', v_table) INTO v_unlinked;
+
+    IF v_unlinked > 0 THEN
+      RAISE WARNING '% % row(s) have an email with no matching user and were not linked to an account', v_unlinked, v_table;
+    ELSE
+      EXECUTE format('ALTER TABLE public.%I ALTER COLUMN user_id SET NOT NULL', v_table);
+    END IF;
+  END LOOP;
+END $$;
+
+DROP FUNCTION IF EXISTS public.borrowing_blocks(TEXT);
+
+CREATE OR REPLACE FUNCTION public.borrowing_blocks(p_user_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+AS $$
+DECLARE
+  v_policy public.loan_policies%ROWTYPE;
+  v_blocks JSONB := '[]'::jsonb;
+  v_block public.patron_blocks%ROWTYPE;
+  v_overdue INTEGER;
+  v_balance NUMERIC;
+  v_active INTEGER;
+BEGIN
+  v_policy := public.resolve_loan_policy(NULL, public.user_role_for_id(p_user_id));
+
+  SELECT * INTO v_block
+  FROM public.patron_blocks
+  WHERE user_id = p_user_id AND lifted_at IS NULL;
+
+  IF FOUND THEN
+    v_blocks := v_blocks || jsonb_build_object(
+      'code', 'patron_blocked', 'reason', v_block.reason, 'blocked_at', v_block.created_at
+    );
+  END IF;
+
+  SELECT COUNT(*) INTO v_overdue
+  FROM public.borrowed_books
+  WHERE user_id = p_user_id AND returned = FALSE AND due_date < NOW();
+
+  IF v_overdue > 0 THEN
+    v_blocks := v_blocks || jsonb_build_object('code', 'overdue_loans', 'overdue_count', v_overdue);
+  END IF;
+
+  v_balance := public.fine_balance(p_user_id);
+  IF v_policy.fine_block_threshold IS NOT NULL AND v_balance > v_policy.fine_block_threshold THEN
+    v_blocks := v_blocks || jsonb_build_object(
+      'code', 'fines_owed', 'balance', v_balance, 'threshold', v_policy.fine_block_threshold
+    );
+  END IF;
+
+  SELECT COUNT(*) INTO v_active
+  FROM public.borrowed_books
+  WHERE user_id = p_user_id AND returned = FALSE;
+
+  IF v_policy.max_loans IS NOT NULL AND v_active >= v_policy.max_loans THEN
+    v_blocks := v_blocks || jsonb_build_object(
+      'code', 'loan_limit', 'active_loans', v_active, 'max_loans', v_policy.max_loans
+    );
+  END IF;
+
+  RETURN v_blocks;
+END;
+$$;
+
+DROP FUNCTION IF EXISTS public.block_patron(TEXT, TEXT, TEXT);
+DROP FUNCTION IF EXISTS public.block_patron(TEXT, TEXT);
+
+CREATE OR REPLACE FUNCTION public.block_patron(p_user_id UUID, p_reason TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_patron public.users%ROWTYPE;
+  v_block_id INTEGER;
+BEGIN
+  IF NOT public.is_librarian() THEN
+    RETURN jsonb_build_object('success', FALSE, 'error', 'not_allowed');
+  END IF;
+
+  IF NULLIF(trim(p_reason), '') IS NULL THEN
+    RETURN jsonb_build_object('success', FALSE, 'error', 'reason_required');
+  END IF;
+
+  SELECT * INTO v_patron FROM public.users WHERE id = p_user_id;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', FALSE, 'error', 'patron_not_found');
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.patron_blocks
+    WHERE user_id = p_user_id AND lifted_at IS NULL
+  ) THEN
+    RETURN jsonb_build_object('success', FALSE, 'error', 'already_blocked');
+  END IF;
+
+  INSERT INTO public.patron_blocks (user_id, user_email, reason, blocked_by)
+  VALUES (p_user_id, v_patron.email, trim(p_reason), public.current_user_email())
+  RETURNING id INTO v_block_id;
+
+  RETURN jsonb_build_object('success', TRUE, 'block_id', v_block_id);
+END;
+$$;
+
+DROP FUNCTION IF EXISTS public.unblock_patron(TEXT, TEXT);
+DROP FUNCTION IF EXISTS public.unblock_patron(TEXT);
+
+CREATE OR REPLACE FUNCTION public.unblock_patron(p_user_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_block_id INTEGER;
+BEGIN
+  IF NOT public.is_librarian() THEN
+    RETURN jsonb_build_object('success', FALSE, 'error', 'not_allowed');
+  END IF;
+
+  UPDATE public.patron_blocks
+  SET lifted_at = NOW(),
+      lifted_by = public.current_user_email()
+  WHERE user_id = p_user_id AND lifted_at IS NULL
+  RETURNING id INTO v_block_id;
+
+  IF v_block_id IS NULL THEN
+    RETURN jsonb_build_object('success', FALSE, 'error', 'not_blocked');
+  END IF;
+
+  RETURN jsonb_build_object('success', TRUE, 'block_id', v_block_id);
+END;
+$$;
+
+-- 11. Circulation Functions
+-- Borrow and return run as single transactions so the loan row, the copy's
+-- status and the book's available_copies can never drift apart under
+-- concurrent requests.
+-- Renewal history: every due date extension is kept alongside the loan
+ALTER TABLE public.borrowed_books
+  ADD COLUMN IF NOT EXISTS renewal_count INTEGER NOT NULL DEFAULT 0;
+
+CREATE TABLE IF NOT EXISTS public.loan_renewals (
+  id SERIAL PRIMARY KEY,
+  loan_id INTEGER NOT NULL REFERENCES public.borrowed_books(id) ON DELETE CASCADE,
+  previous_due_date TIMESTAMP WITH TIME ZONE NOT NULL,
+  new_due_date TIMESTAMP WITH TIME ZONE NOT NULL,
+  renewed_by TEXT,
+  renewed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_loan_renewals_loan_id ON public.loan_renewals(loan_id);
+
+-- Loan length and limits come from the loan policy for the book's category
+-- and the borrower's role. Patron-level blocks are checked first; the first
+-- one is reported as the error and the full list is returned as 'reasons'.
+DROP FUNCTION IF EXISTS public.borrow_book(TEXT, TEXT, INTEGER);
+DROP FUNCTION IF EXISTS public.borrow_book(TEXT, TEXT, INTEGER, TEXT);
+DROP FUNCTION IF EXISTS public.borrow_book(TEXT, TEXT, TEXT);
+
+CREATE OR REPLACE FUNCTION public.borrow_book(
+  p_user_id UUID,
+  p_isbn TEXT,
+  p_copy_barcode TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_book public.books%ROWTYPE;
+  v_copy public.book_copies%ROWTYPE;
+  v_loan public.borrowed_books%ROWTYPE;
+  v_hold public.holds%ROWTYPE;
+  v_patron public.users%ROWTYPE;
+  v_policy public.loan_policies%ROWTYPE;
+  v_blocks JSONB;
+BEGIN
+  IF NOT public.can_access_user(p_user_id) THEN
+    RETURN jsonb_build_object('success', FALSE, 'error', 'not_allowed');
+  END IF;
+
+  SELECT * INTO v_patron FROM public.users WHERE id = p_user_id;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', FALSE, 'error', 'patron_not_found');
+  END IF;
+
+  -- Lock the book row so concurrent borrowers queue up behind each other
+  SELECT * INTO v_book
+  FROM public.books
+  WHERE isbn = COALESCE(public.canonical_isbn(p_isbn), p_isbn)
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', FALSE, 'error', 'not_found');
+  END IF;
+
+  IF v_book.status = 'withdrawn' THEN
+    RETURN jsonb_build_object('success', FALSE, 'error', 'withdrawn', 'book_name', v_book.name);
+  END IF;
+
+  v_blocks := public.borrowing_blocks(p_user_id);
+  IF jsonb_array_length(v_blocks) > 0 THEN
+    RETURN jsonb_build_object(
+      'success', FALSE, 'error', v_blocks->0->>'code',
+      'book_name', v_book.name, 'reasons', v_blocks
+    );
+  END IF;
+
+  v_policy := public.resolve_loan_policy(v_book.category, v_patron.role);
+
+  -- A category-specific policy limits loans within that category
+  -- (the overall limit is part of borrowing_blocks)
+  IF v_policy.category IS NOT NULL AND v_policy.max_loans IS NOT NULL AND (
+    SELECT COUNT(*)
+    FROM public.borrowed_books bb
+    JOIN public.books b ON b.isbn = bb.book_isbn
+    WHERE bb.user_id = p_user_id
+      AND bb.returned = FALSE
+      AND lower(b.category) = lower(v_policy.category)
+  ) >= v_policy.max_loans THEN
+    RETURN jsonb_build_object(
+      'success', FALSE, 'error', 'category_loan_limit',
+      'book_name', v_book.name, 'max_loans', v_policy.max_loans
+    );
+  END IF;
+
+  -- A copy set aside for this patron's hold can only be borrowed by them
+  SELECT * INTO v_hold
+  FROM public.holds
+  WHERE user_id = p_user_id AND book_isbn = v_book.isbn AND status = 'ready'
+  FOR UPDATE;
+
+  IF p_copy_barcode IS NOT NULL THEN
+    SELECT * INTO v_copy
+    FROM public.book_copies
+    WHERE barcode = upper(trim(p_copy_barcode)) AND book_isbn = v_book.isbn
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RETURN jsonb_build_object('success', FALSE, 'error', 'copy_not_found', 'book_name', v_book.name);
+    END IF;
+
+    IF v_copy.status <> 'available' AND v_copy.id IS DISTINCT FROM v_hold.copy_id THEN
+      RETURN jsonb_build_object('success', FALSE, 'error', 'copy_unavailable', 'book_name', v_book.name);
+    END IF;
+  ELSIF v_hold.id IS NOT NULL THEN
+    SELECT * INTO v_copy FROM public.book_copies WHERE id = v_hold.copy_id FOR UPDATE;
+  ELSE
+    SELECT * INTO v_copy
+    FROM public.book_copies
+    WHERE book_isbn = v_book.isbn AND status = 'available'
+    ORDER BY id
+    LIMIT 1
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RETURN jsonb_build_object('success', FALSE, 'error', 'unavailable', 'book_name', v_book.name);
+    END IF;
+  END IF;
+
+  -- The copies trigger recalculates books.available_copies
+  UPDATE public.book_copies
+  SET status = 'on_loan',
+      updated_at = NOW()
+  WHERE id = v_copy.id;
+
+  INSERT INTO public.borrowed_books (user_id, user_email, book_isbn, copy_id, borrow_date, due_date, returned)
+  VALUES (p_user_id, v_patron.email, v_book.isbn, v_copy.id, NOW(), NOW() + make_interval(days => v_policy.loan_days), FALSE)
+  RETURNING * INTO v_loan;
+
+  -- Close out this patron's hold on the title; if they took a different copy
+  -- than the one set aside, pass the reserved copy to the next in line
+  UPDATE public.holds
+  SET status = 'fulfilled',
+      closed_at = NOW()
+  WHERE user_id = p_user_id AND book_isbn = v_book.isbn AND status IN ('waiting', 'ready');
+
+  IF v_hold.copy_id IS NOT NULL AND v_hold.copy_id <> v_copy.id THEN
+    PERFORM public.assign_copy_to_next_hold(v_hold.copy_id);
+  END IF;
+
+  RETURN jsonb_build_object(
+    'success', TRUE,
+    'loan_id', v_loan.id,
+    'isbn', v_book.isbn,
+    'book_name', v_book.name,
+    'copy_barcode', v_copy.barcode,
+    'due_date', v_loan.due_date
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.return_book(p_loan_id INTEGER)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_loan public.borrowed_books%ROWTYPE;
+  v_book_name TEXT;
+  v_copy_barcode TEXT;
+  v_copy_status TEXT;
+  v_ready_hold JSONB;
+  v_policy public.loan_policies%ROWTYPE;
+  v_fine NUMERIC := 0;
+BEGIN
+  SELECT * INTO v_loan
+  FROM public.borrowed_books
+  WHERE id = p_loan_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR NOT public.can_access_user(v_loan.user_id) THEN
+    RETURN jsonb_build_object('success', FALSE, 'error', 'loan_not_found');
+  END IF;
+
+  IF v_loan.returned THEN
+    RETURN jsonb_build_object('success', FALSE, 'error', 'already_returned');
+  END IF;
+
+  UPDATE public.borrowed_books
+  SET returned = TRUE,
+      return_date = NOW()
+  WHERE id = v_loan.id;
+
+  IF v_loan.due_date < NOW() THEN
+    v_policy := public.resolve_loan_policy(
+      (SELECT category FROM public.books WHERE isbn = v_loan.book_isbn),
+      public.user_role_for_id(v_loan.user_id)
+    );
+    v_fine := public.overdue_fine(v_loan.due_date, NOW(), v_policy);
+
+    IF v_fine > 0 THEN
+      INSERT INTO public.fine_ledger (user_id, user_email, loan_id, entry_type, amount, note)
+      VALUES (
+        v_loan.user_id, v_loan.user_email, v_loan.id, 'charge', v_fine,
+        format('%s day(s) overdue', NOW()::date - v_loan.due_date::date)
+      )
+      ON CONFLICT DO NOTHING;
+    END IF;
+  END IF;
+
+  IF v_loan.copy_id IS NOT NULL THEN
+    SELECT barcode, status INTO v_copy_barcode, v_copy_status
+    FROM public.book_copies
+    WHERE id = v_loan.copy_id
+    FOR UPDATE;
+
+    -- A copy marked damaged or lost while on loan keeps that status;
+    -- otherwise it goes to the first patron waiting for the title
+    IF v_copy_status = 'on_loan' THEN
+      v_ready_hold := public.assign_copy_to_next_hold(v_loan.copy_id);
+    END IF;
+  ELSE
+    -- Loans created before copy tracking: never count more copies than the library owns
+    UPDATE public.books
+    SET available_copies = LEAST(available_copies + 1, total_copies),
+        updated_at = NOW()
+    WHERE isbn = v_loan.book_isbn;
+  END IF;
+
+  SELECT name INTO v_book_name FROM public.books WHERE isbn = v_loan.book_isbn;
+
+  RETURN jsonb_build_object(
+    'success', TRUE,
+    'loan_id', v_loan.id,
+    'isbn', v_loan.book_isbn,
+    'book_name', v_book_name,
+    'copy_barcode', v_copy_barcode,
+    'ready_hold', v_ready_hold,
+    'fine_charged', v_fine
+  );
+END;
+$$;
+
+-- Extend a loan's due date, within the renewal rules of its loan policy
+DROP FUNCTION IF EXISTS public.renew_loan(INTEGER, INTEGER, INTEGER, BOOLEAN, BOOLEAN, TEXT);
+DROP FUNCTION IF EXISTS public.renew_loan(INTEGER, TEXT);
+
+CREATE OR REPLACE FUNCTION public.renew_loan(p_loan_id INTEGER)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_loan public.borrowed_books%ROWTYPE;
+  v_policy public.loan_policies%ROWTYPE;
+  v_new_due_date TIMESTAMP WITH TIME ZONE;
+BEGIN
+  SELECT * INTO v_loan
+  FROM public.borrowed_books
+  WHERE id = p_loan_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR NOT public.can_access_user(v_loan.user_id) THEN
+    RETURN jsonb_build_object('success', FALSE, 'error', 'loan_not_found');
+  END IF;
+
+  IF v_loan.returned THEN
+    RETURN jsonb_build_object('success', FALSE, 'error', 'already_returned');
+  END IF;
+
+  v_policy := public.resolve_loan_policy(
+    (SELECT category FROM public.books WHERE isbn = v_loan.book_isbn),
+    public.user_role_for_id(v_loan.user_id)
+  );
+
+  IF v_policy.block_renewal_when_overdue AND v_loan.due_date < NOW() THEN
+    RETURN jsonb_build_object('success', FALSE, 'error', 'overdue');
+  END IF;
+
+  IF v_loan.renewal_count >= v_policy.max_renewals THEN
+    RETURN jsonb_build_object('success', FALSE, 'error', 'renewal_limit', 'renewal_count', v_loan.renewal_count);
+  END IF;
+
+  IF v_policy.block_renewal_when_holds AND EXISTS (
+    SELECT 1 FROM public.holds
+    WHERE book_isbn = v_loan.book_isbn AND status = 'waiting'
+  ) THEN
+    RETURN jsonb_build_object('success', FALSE, 'error', 'holds_waiting');
+  END IF;
+
+  -- Renewing an overdue loan (when allowed) counts from today, not the old due date
+  v_new_due_date := GREATEST(v_loan.due_date, NOW()) + make_interval(days => v_policy.renewal_days);
+
+  UPDATE public.borrowed_books
+  SET due_date = v_new_due_date,
+      renewal_count = renewal_count + 1
+  WHERE id = v_loan.id;
+
+  INSERT INTO public.loan_renewals (loan_id, previous_due_date, new_due_date, renewed_by)
+  VALUES (v_loan.id, v_loan.due_date, v_new_due_date, public.current_user_email());
+
+  RETURN jsonb_build_object(
+    'success', TRUE,
+    'loan_id', v_loan.id,
+    'due_date', v_new_due_date,
+    'renewal_count', v_loan.renewal_count + 1,
+    'renewals_left', v_policy.max_renewals - v_loan.renewal_count - 1
+  );
+END;
+$$;
+
+-- 12. Catalog Import
+-- Batch import behind the inventory CSV importer. The client validates rows
+-- and shows a preview first; the rows are checked again here and each call
+-- runs as one transaction. New titles get their copies from the
+-- books_create_copies trigger. Existing titles are skipped, or with
+-- p_update_existing their details are replaced and extra copies are added
+-- when the file lists more than the library owns (copies are never removed).
+-- Updates go through update_book (section 13), so they are recorded in the
+-- title's change history like edits made in the inventory. Rows may also
+-- carry subjects (a JSON array), publisher, publication_year, edition and
+-- language; blank details leave an existing title's values alone.
+CREATE OR REPLACE FUNCTION public.import_books(p_books JSONB, p_update_existing BOOLEAN DEFAULT FALSE)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_row JSONB;
+  v_isbn TEXT;
+  v_name TEXT;
+  v_author TEXT;
+  v_category TEXT;
+  v_copies INTEGER;
+  v_subjects TEXT[];
+  v_publisher TEXT;
+  v_year INTEGER;
+  v_edition TEXT;
+  v_language TEXT;
+  v_owned INTEGER;
+  v_result JSONB;
+  v_inserted INTEGER := 0;
+  v_updated INTEGER := 0;
+  v_skipped INTEGER := 0;
+  v_errors JSONB := '[]'::jsonb;
+BEGIN
+  IF NOT public.is_librarian() THEN
+    RAISE EXCEPTION 'Only librarians can import books' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  FOR v_row IN SELECT value FROM jsonb_array_elements(p_books) LOOP
+    v_isbn := public.canonical_isbn(v_row->>'isbn');
+    v_name := NULLIF(trim(v_row->>'name'), '');
+    v_author := NULLIF(trim(v_row->>'author'), '');
+    v_category := NULLIF(trim(v_row->>'category'), '');
+    v_copies := CASE WHEN trim(v_row->>'total_copies') ~ '^\d{1,6}$' THEN trim(v_row->>'total_copies')::INTEGER END;
+    v_subjects := CASE WHEN jsonb_typeof(v_row->'subjects') = 'array' THEN public.jsonb_text_list(v_row->'subjects') ELSE '{}' END;
+    v_publisher := NULLIF(trim(v_row->>'publisher'), '');
+    v_year := CASE WHEN trim(v_row->>'publication_year') ~ '^\d{1,4}$' THEN trim(v_row->>'publication_year')::INTEGER END;
+    v_edition := NULLIF(trim(v_row->>'edition'), '');
+    v_language := NULLIF(trim(v_row->>'language'), '');
+
+    IF v_isbn IS NULL OR v_name IS NULL OR v_author IS NULL OR v_copies IS NULL OR v_copies < 1
+       OR (NULLIF(trim(v_row->>'publication_year'), '') IS NOT NULL AND COALESCE(v_year, 0) = 0) THEN
+      v_errors := v_errors || jsonb_build_object('isbn', v_row->>'isbn', 'error', 'invalid_row');
+      CONTINUE;
+    END IF;
+
+    PERFORM 1 FROM public.books WHERE isbn = v_isbn FOR UPDATE;
+
+    IF NOT FOUND THEN
+      INSERT INTO public.books (
+        isbn, name, author, category, total_copies, available_copies,
+        subjects, publisher, publication_year, edition, language
+      )
+      VALUES (
+        v_isbn, v_name, v_author, COALESCE(v_category, v_subjects[1], 'General'), v_copies, v_copies,
+        v_subjects, v_publisher, v_year, v_edition, v_language
+      );
+      v_inserted := v_inserted + 1;
+    ELSIF p_update_existing THEN
+      SELECT COUNT(*) INTO v_owned
+      FROM public.book_copies
+      WHERE book_isbn = v_isbn AND status NOT IN ('lost', 'withdrawn');
+
+      -- Fields left out (NULL) keep their current value
+      v_result := public.update_book(v_isbn, jsonb_strip_nulls(jsonb_build_object(
+        'name', v_name,
+        'author', v_author,
+        'category', v_category,
+        'subjects', CASE WHEN cardinality(v_subjects) > 0 THEN to_jsonb(v_subjects) END,
+        'publisher', v_publisher,
+        'publication_year', v_year,
+        'edition', v_edition,
+        'language', v_language,
+        'total_copies', CASE WHEN v_copies > v_owned THEN v_copies END
+      )));
+
+      IF (v_result->>'success')::BOOLEAN THEN
+        v_updated := v_updated + 1;
+      ELSE
+        v_errors := v_errors || jsonb_build_object('isbn', v_row->>'isbn', 'error', v_result->>'error');
+      END IF;
+    ELSE
+      v_skipped := v_skipped + 1;
+    END IF;
+  END LOOP;
+
+  RETURN jsonb_build_object(
+    'success', TRUE,
+    'inserted', v_inserted,
+    'updated', v_updated,
+    'skipped', v_skipped,
+    'errors', v_errors
+  );
+END;
+$$;
+
+-- 13. Book Records & Change History
+-- update_book edits a title in place and records every changed field in
+-- book_changes (lists such as subjects are recorded joined with "; ").
+-- Changing total_copies adds new copies, or withdraws copies that are on
+-- the shelf (damaged and poor-condition copies first); copies on loan or on
+-- the hold shelf are never withdrawn, so available_copies stays consistent
+-- through the book_copies trigger.
+CREATE TABLE IF NOT EXISTS public.book_changes (
+  id SERIAL PRIMARY KEY,
+  book_id INTEGER NOT NULL REFERENCES public.books(id) ON DELETE CASCADE,
+  field TEXT NOT NULL,
+  old_value TEXT,
+  new_value TEXT,
+  changed_by TEXT,
+  changed_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_book_changes_book_id ON public.book_changes(book_id, changed_at DESC);
+
+-- Trimmed, de-duplicated text list from a JSON array, keeping the entered order
+CREATE OR REPLACE FUNCTION public.jsonb_text_list(p_list JSONB)
+RETURNS TEXT[]
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT COALESCE(array_agg(item ORDER BY position), '{}')
+  FROM (
+    SELECT trim(value) AS item, min(ordinality) AS position
+    FROM jsonb_array_elements_text(p_list) WITH ORDINALITY
+    WHERE trim(value) <> ''
+    GROUP BY trim(value)
+  ) items;
+$$;
+
+DROP FUNCTION IF EXISTS public.update_book(TEXT, JSONB, TEXT);
+
+CREATE OR REPLACE FUNCTION public.update_book(p_isbn TEXT, p_changes JSONB)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_book public.books%ROWTYPE;
+  v_isbn TEXT;
+  v_name TEXT;
+  v_author TEXT;
+  v_category TEXT;
+  v_details public.books%ROWTYPE;
+  v_copies INTEGER;
+  v_owned INTEGER;
+  v_removable INTEGER;
+  v_changes INTEGER := 0;
+BEGIN
+  IF NOT public.is_librarian() THEN
+    RETURN jsonb_build_object('success', FALSE, 'error', 'not_allowed');
+  END IF;
+
+  SELECT * INTO v_book
+  FROM public.books
+  WHERE isbn = COALESCE(public.canonical_isbn(p_isbn), p_isbn)
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', FALSE, 'error', 'not_found');
+  END IF;
+
+  v_isbn := CASE WHEN p_changes ? 'isbn' THEN public.canonical_isbn(p_changes->>'isbn') ELSE v_book.isbn END;
+  v_name := CASE WHEN p_changes ? 'name' THEN NULLIF(trim(p_changes->>'name'), '') ELSE v_book.name END;
+  v_author := CASE WHEN p_changes ? 'author' THEN NULLIF(trim(p_changes->>'author'), '') ELSE v_book.author END;
+  v_category := CASE WHEN p_changes ? 'category' THEN COALESCE(NULLIF(trim(p_changes->>'category'), ''), 'General') ELSE v_book.category END;
+
+  IF v_isbn IS NULL THEN
+    RETURN jsonb_build_object('success', FALSE, 'error', 'invalid_isbn');
+  END IF;
+
+  IF v_name IS NULL OR v_author IS NULL THEN
+    RETURN jsonb_build_object('success', FALSE, 'error', 'missing_field');
+  END IF;
+
+  IF v_isbn <> v_book.isbn AND EXISTS (SELECT 1 FROM public.books WHERE isbn = v_isbn) THEN
+    RETURN jsonb_build_object('success', FALSE, 'error', 'isbn_taken');
+  END IF;
+
+  -- Optional bibliographic details; blank text clears a field
+  v_details := v_book;
+  IF p_changes ? 'publisher' THEN v_details.publisher := NULLIF(trim(p_changes->>'publisher'), ''); END IF;
+  IF p_changes ? 'edition' THEN v_details.edition := NULLIF(trim(p_changes->>'edition'), ''); END IF;
+  IF p_changes ? 'language' THEN v_details.language := NULLIF(trim(p_changes->>'language'), ''); END IF;
+  IF p_changes ? 'description' THEN v_details.description := NULLIF(trim(p_changes->>'description'), ''); END IF;
+
+  IF p_changes ? 'cover_url' THEN
+    v_details.cover_url := NULLIF(trim(p_changes->>'cover_url'), '');
+    IF v_details.cover_url !~ '^(https?://|/)' THEN
+      RETURN jsonb_build_object('success', FALSE, 'error', 'invalid_field', 'field', 'cover_url');
+    END IF;
+  END IF;
+
+  IF p_changes ? 'publication_year' THEN
+    v_details.publication_year := CASE WHEN p_changes->>'publication_year' ~ '^\d{1,4}$' THEN (p_changes->>'publication_year')::INTEGER END;
+    IF (v_details.publication_year IS NULL AND NULLIF(p_changes->>'publication_year', '') IS NOT NULL) OR v_details.publication_year = 0 THEN
+      RETURN jsonb_build_object('success', FALSE, 'error', 'invalid_field', 'field', 'publication_year');
+    END IF;
+  END IF;
+
+  IF p_changes ? 'page_count' THEN
+    v_details.page_count := CASE WHEN p_changes->>'page_count' ~ '^\d{1,6}$' THEN (p_changes->>'page_count')::INTEGER END;
+    IF (v_details.page_count IS NULL AND NULLIF(p_changes->>'page_count', '') IS NOT NULL) OR v_details.page_count = 0 THEN
+      RETURN jsonb_build_object('success', FALSE, 'error', 'invalid_field', 'field', 'page_count');
+    END IF;
+  END IF;
+
+  IF p_changes ? 'subjects' THEN
+    IF jsonb_typeof(p_changes->'subjects') <> 'array' THEN
+      RETURN jsonb_build_object('success', FALSE, 'error', 'invalid_field', 'field', 'subjects');
+    END IF;
+    v_details.subjects := public.jsonb_text_list(p_changes->'subjects');
+  END IF;
+
+  SELECT COUNT(*) INTO v_owned
+  FROM public.book_copies
+  WHERE book_isbn = v_book.isbn AND status NOT IN ('lost', 'withdrawn');
+
+  IF p_changes ? 'total_copies' THEN
+    v_copies := CASE WHEN trim(p_changes->>'total_copies') ~ '^\d{1,6}$' THEN trim(p_changes->>'total_copies')::INTEGER END;
+    IF v_copies IS NULL OR v_copies < 1 THEN
+      RETURN jsonb_build_object('success', FALSE, 'error', 'invalid_copies');
+    END IF;
+  ELSE
+    v_copies := v_owned;
+  END IF;
+
+  IF v_copies < v_owned THEN
+    SELECT COUNT(*) INTO v_removable
+    FROM public.book_copies
+    WHERE book_isbn = v_book.isbn AND status IN ('available', 'damaged');
+
+    IF v_removable < v_owned - v_copies THEN
+      RETURN jsonb_build_object(
+        'success', FALSE,
+        'error', 'copies_in_use',
+        'min_copies', v_owned - v_removable
+      );
+    END IF;
+  END IF;
+
+  -- Copies and loans follow an ISBN change through ON UPDATE CASCADE
+  UPDATE public.books
+  SET isbn = v_isbn,
+      name = v_name,
+      author = v_author,
+      category = v_category,
+      publisher = v_details.publisher,
+      edition = v_details.edition,
+      publication_year = v_details.publication_year,
+      language = v_details.language,
+      page_count = v_details.page_count,
+      subjects = v_details.subjects,
+      description = v_details.description,
+      cover_url = v_details.cover_url,
+      updated_at = NOW()
+  WHERE id = v_book.id;
+
+  IF v_copies > v_owned THEN
+    INSERT INTO public.book_copies (book_isbn)
+    SELECT v_isbn FROM generate_series(1, v_copies - v_owned);
+  ELSIF v_copies < v_owned THEN
+    UPDATE public.book_copies
+    SET status = 'withdrawn',
+        notes = concat_ws(E'\n', NULLIF(notes, ''), 'Withdrawn when the title was reduced to ' || v_copies || ' copies'),
+        updated_at = NOW()
+    WHERE id IN (
+      SELECT id FROM public.book_copies
+      WHERE book_isbn = v_isbn AND status IN ('available', 'damaged')
+      ORDER BY status = 'damaged' DESC,
+               array_position(ARRAY['damaged', 'poor', 'fair', 'good', 'new'], condition),
+               id DESC
+      LIMIT v_owned - v_copies
+    );
+  END IF;
+
+  INSERT INTO public.book_changes (book_id, field, old_value, new_value, changed_by)
+  SELECT v_book.id, change.field, change.old_value, change.new_value, public.current_user_email()
+  FROM (VALUES
+    ('isbn', v_book.isbn, v_isbn),
+    ('name', v_book.name, v_name),
+    ('author', v_book.author, v_author),
+    ('category', v_book.category, v_category),
+    ('publisher', v_book.publisher, v_details.publisher),
+    ('edition', v_book.edition, v_details.edition),
+    ('publication_year', v_book.publication_year::TEXT, v_details.publication_year::TEXT),
+    ('language', v_book.language, v_details.language),
+    ('page_count', v_book.page_count::TEXT, v_details.page_count::TEXT),
+    ('subjects', NULLIF(array_to_string(v_book.subjects, '; '), ''), NULLIF(array_to_string(v_details.subjects, '; '), '')),
+    ('description', v_book.description, v_details.description),
+    ('cover_url', v_book.cover_url, v_details.cover_url),
+    ('total_copies', v_owned::TEXT, v_copies::TEXT)
+  ) AS change(field, old_value, new_value)
+  WHERE change.old_value IS DISTINCT FROM change.new_value;
+
+  GET DIAGNOSTICS v_changes = ROW_COUNT;
+
+  RETURN jsonb_build_object('success', TRUE, 'isbn', v_isbn, 'changes', v_changes);
+END;
+$$;
+
+-- 14. Withdrawing and Restoring Books
+-- Withdrawal replaces deleting a title: it is refused while any copy is on
+-- loan, cancels open holds (copies set aside for them go back on the shelf)
+-- and hides the title from search and borrowing. Copies and loan history are
+-- kept, so restore_book puts the title back exactly as it was.
+DROP FUNCTION IF EXISTS public.withdraw_book(TEXT, TEXT, TEXT);
+
+CREATE OR REPLACE FUNCTION public.withdraw_book(p_isbn TEXT, p_reason TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_book public.books%ROWTYPE;
+  v_on_loan INTEGER;
+  v_cancelled INTEGER;
+BEGIN
+  IF NOT public.is_librarian() THEN
+    RETURN jsonb_build_object('success', FALSE, 'error', 'not_allowed');
+  END IF;
+
+  SELECT * INTO v_book
+  FROM public.books
+  WHERE isbn = COALESCE(public.canonical_isbn(p_isbn), p_isbn)
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', FALSE, 'error', 'not_found');
+  END IF;
+
+  IF v_book.status = 'withdrawn' THEN
+    RETURN jsonb_build_object('success', FALSE, 'error', 'already_withdrawn');
+  END IF;
+
+  SELECT COUNT(*) INTO v_on_loan
+  FROM public.borrowed_books
+  WHERE book_isbn = v_book.isbn AND returned = FALSE;
+
+  IF v_on_loan > 0 THEN
+    RETURN jsonb_build_object('success', FALSE, 'error', 'copies_on_loan', 'on_loan', v_on_loan);
+  END IF;
+
+  UPDATE public.holds
+  SET status = 'cancelled', closed_at = NOW()
+  WHERE book_isbn = v_book.isbn AND status IN ('waiting', 'ready');
+
+  GET DIAGNOSTICS v_cancelled = ROW_COUNT;
+
+  UPDATE public.book_copies
+  SET status = 'available', updated_at = NOW()
+  WHERE book_isbn = v_book.isbn AND status = 'on_hold';
+
+  UPDATE public.books
+  SET status = 'withdrawn',
+      withdrawn_at = NOW(),
+      withdrawn_by = public.current_user_email(),
+      withdrawal_reason = NULLIF(trim(p_reason), ''),
+      updated_at = NOW()
+  WHERE id = v_book.id;
+
+  INSERT INTO public.book_changes (book_id, field, old_value, new_value, changed_by)
+  VALUES (v_book.id, 'status', 'active', 'withdrawn', public.current_user_email());
+
+  RETURN jsonb_build_object('success', TRUE, 'book_name', v_book.name, 'cancelled_holds', v_cancelled);
+END;
+$$;
+
+DROP FUNCTION IF EXISTS public.restore_book(TEXT, TEXT);
+
+CREATE OR REPLACE FUNCTION public.restore_book(p_isbn TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_book public.books%ROWTYPE;
+BEGIN
+  IF NOT public.is_librarian() THEN
+    RETURN jsonb_build_object('success', FALSE, 'error', 'not_allowed');
+  END IF;
+
+  SELECT * INTO v_book
+  FROM public.books
+  WHERE isbn = COALESCE(public.canonical_isbn(p_isbn), p_isbn)
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', FALSE, 'error', 'not_found');
+  END IF;
+
+  IF v_book.status <> 'withdrawn' THEN
+    RETURN jsonb_build_object('success', FALSE, 'error', 'not_withdrawn');
+  END IF;
+
+  UPDATE public.books
+  SET status = 'active',
+      withdrawn_at = NULL,
+      withdrawn_by = NULL,
+      withdrawal_reason = NULL,
+      updated_at = NOW()
+  WHERE id = v_book.id;
+
+  INSERT INTO public.book_changes (book_id, field, old_value, new_value, changed_by)
+  VALUES (v_book.id, 'status', 'withdrawn', 'active', public.current_user_email());
+
+  RETURN jsonb_build_object('success', TRUE, 'book_name', v_book.name);
+END;
+$$;
+
+-- 15. Catalog Search
+-- Search runs in the database instead of filtering the whole catalog in the
+-- browser. Whole words and word prefixes are matched against a weighted
+-- full-text vector (title, then authors, then category and subjects, then
+-- publisher) and ranked by it; trigram indexes serve substring matches on
+-- title and author. When nothing matches as typed, trigram similarity finds
+-- misspelled titles and authors instead ("Cormin" finds Cormen). The
+-- 'simple' configuration is used because the catalog is not all English and
+-- stemming would mangle titles in other languages.
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+CREATE OR REPLACE FUNCTION public.book_search_vector(
+  p_name TEXT,
+  p_author TEXT,
+  p_category TEXT,
+  p_subjects TEXT[],
+  p_publisher TEXT
+)
+RETURNS tsvector
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT setweight(to_tsvector('simple', COALESCE(p_name, '')), 'A')
+      || setweight(to_tsvector('simple', COALESCE(p_author, '')), 'B')
+      || setweight(to_tsvector('simple', COALESCE(p_category, '') || ' ' || COALESCE(array_to_string(p_subjects, ' '), '')), 'C')
+      || setweight(to_tsvector('simple', COALESCE(p_publisher, '')), 'D')
+$$;
+
+CREATE INDEX IF NOT EXISTS idx_books_search ON public.books
+  USING GIN (public.book_search_vector(name, author, category, subjects, publisher));
+CREATE INDEX IF NOT EXISTS idx_books_name_trgm ON public.books USING GIN (name gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_books_author_trgm ON public.books USING GIN (author gin_trgm_ops);
+
+-- Every word of the query must match, each as a prefix so results appear
+-- while the user is still typing. p_weights limits the match to parts of
+-- book_search_vector: 'AB' is title and authors only. NULL when the query
+-- has no words.
+CREATE OR REPLACE FUNCTION public.search_prefix_query(p_query TEXT, p_weights TEXT DEFAULT '')
+RETURNS tsquery
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT to_tsquery('simple', string_agg(quote_literal(word) || ':*' || p_weights, ' & '))
+  FROM regexp_split_to_table(lower(COALESCE(p_query, '')), '[^[:alnum:]]+') AS word
+  WHERE word <> ''
+$$;
+
+-- Escapes LIKE wildcards so typed text is matched literally
+CREATE OR REPLACE FUNCTION public.like_escape(p_text TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT replace(replace(replace(p_text, '\', '\\'), '%', '\%'), '_', '\_')
+$$;
+
+-- Returns one page of active books with the total number of matches and
+-- facet counts. An ISBN (with or without hyphens, ISBN-10 or -13) is looked
+-- up in canonical form; a partial ISBN matches by digits. An empty query
+-- lists the whole catalog. When no title matches the words as typed, the
+-- results are the closest spellings instead: fuzzy is TRUE and did_you_mean
+-- lists up to three titles or authors the user may have meant.
+--
+-- p_filters narrows the results: category, author, language (exact values
+-- as listed in the facets), available (TRUE for titles on the shelf now),
+-- year_from and year_to. Each facet is counted with every other filter
+-- applied but not its own, so the counts show what choosing another value
+-- would return. p_sort is relevance (title when there is no query), title,
+-- newest (publication year) or popularity (times borrowed).
+DROP FUNCTION IF EXISTS public.search_books(TEXT, INTEGER, INTEGER);
+
+CREATE OR REPLACE FUNCTION public.search_books(
+  p_query TEXT,
+  p_filters JSONB DEFAULT '{}'::jsonb,
+  p_sort TEXT DEFAULT 'relevance',
+  p_limit INTEGER DEFAULT 20,
+  p_offset INTEGER DEFAULT 0
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_query TEXT := trim(COALESCE(p_query, ''));
+  v_filters JSONB := COALESCE(p_filters, '{}'::jsonb);
+  v_category TEXT := NULLIF(trim(v_filters->>'category'), '');
+  v_author TEXT := NULLIF(trim(v_filters->>'author'), '');
+  v_language TEXT := NULLIF(trim(v_filters->>'language'), '');
+  v_available BOOLEAN;
+  v_year_from INTEGER;
+  v_year_to INTEGER;
+  v_sort TEXT := COALESCE(p_sort, 'relevance');
+  v_limit INTEGER := LEAST(GREATEST(COALESCE(p_limit, 20), 1), 100);
+  v_offset INTEGER := GREATEST(COALESCE(p_offset, 0), 0);
+  v_isbn_search BOOLEAN := FALSE;
+  v_isbn TEXT;
+  v_digits TEXT;
+  v_pattern TEXT;
+  v_tsquery tsquery;
+  v_total INTEGER;
+  v_books JSONB;
+  v_facets JSONB;
+  v_fuzzy BOOLEAN;
+  v_did_you_mean JSONB;
+  -- Minimum pg_trgm word_similarity for a misspelled match
+  v_fuzzy_threshold REAL := 0.5;
+BEGIN
+  IF v_sort NOT IN ('relevance', 'title', 'newest', 'popularity') THEN
+    RETURN jsonb_build_object('success', FALSE, 'error', 'invalid_sort');
+  END IF;
+
+  BEGIN
+    v_available := (v_filters->>'available')::BOOLEAN;
+    v_year_from := (v_filters->>'year_from')::INTEGER;
+    v_year_to := (v_filters->>'year_to')::INTEGER;
+  EXCEPTION WHEN invalid_text_representation THEN
+    RETURN jsonb_build_object('success', FALSE, 'error', 'invalid_filter');
+  END;
+
+  -- Same test as looksLikeISBN() in src/lib/isbn.ts
+  IF v_query ~ '^[0-9\s-]{9,}[0-9Xx]?$' THEN
+    v_isbn_search := TRUE;
+    v_isbn := public.canonical_isbn(v_query);
+    v_digits := upper(regexp_replace(v_query, '[^0-9Xx]', '', 'g'));
+  ELSIF v_query <> '' THEN
+    v_pattern := '%' || public.like_escape(v_query) || '%';
+    v_tsquery := public.search_prefix_query(v_query);
+  END IF;
+
+  -- Without a query there is nothing to rank by
+  IF v_sort = 'relevance' AND (v_query = '' OR v_isbn_search) THEN
+    v_sort := 'title';
+  END IF;
+
+  WITH exact_matches AS (
+    SELECT
+      b.*,
+      CASE
+        WHEN v_isbn_search OR v_query = '' THEN 0
+        ELSE COALESCE(ts_rank(public.book_search_vector(b.name, b.author, b.category, b.subjects, b.publisher), v_tsquery), 0)
+          + similarity(b.name, v_query)
+      END AS rank
+    FROM public.books b
+    WHERE b.status = 'active'
+      AND (
+        v_query = ''
+        OR (v_isbn_search AND v_isbn IS NOT NULL AND b.isbn = v_isbn)
+        OR (v_isbn_search AND v_isbn IS NULL AND b.isbn LIKE '%' || v_digits || '%')
+        OR (
+          NOT v_isbn_search
+          AND (
+            public.book_search_vector(b.name, b.author, b.category, b.subjects, b.publisher) @@ v_tsquery
+            OR b.name ILIKE v_pattern
+            OR b.author ILIKE v_pattern
+            OR b.isbn LIKE v_pattern
+          )
+        )
+      )
+  ),
+  fuzzy_matches AS (
+    SELECT
+      b.*,
+      GREATEST(word_similarity(v_query, b.name), word_similarity(v_query, b.author)) AS rank
+    FROM public.books b
+    WHERE b.status = 'active'
+      AND NOT v_isbn_search
+      AND v_query <> ''
+      AND NOT EXISTS (SELECT 1 FROM exact_matches)
+      AND GREATEST(word_similarity(v_query, b.name), word_similarity(v_query, b.author)) >= v_fuzzy_threshold
+  ),
+  matches AS (
+    SELECT
+      m.*,
+      COALESCE(m.category, 'General') AS facet_category,
+      (SELECT COUNT(*) FROM public.borrowed_books bb WHERE bb.book_isbn = m.isbn) AS loan_count
+    FROM (SELECT * FROM exact_matches UNION ALL SELECT * FROM fuzzy_matches) m
+  ),
+  -- Which filters each match passes, so facets can leave their own out
+  checked AS (
+    SELECT
+      m.*,
+      v_category IS NULL OR m.facet_category = v_category AS in_category,
+      v_author IS NULL OR v_author = ANY(m.authors) AS by_author,
+      v_language IS NULL OR m.language = v_language AS in_language,
+      v_available IS NOT TRUE OR m.available_copies > 0 AS is_available,
+      (v_year_from IS NULL OR m.publication_year >= v_year_from)
+        AND (v_year_to IS NULL OR m.publication_year <= v_year_to) AS in_years
+    FROM matches m
+  ),
+  results AS (
+    SELECT
+      c.*,
+      ROW_NUMBER() OVER (
+        ORDER BY
+          CASE WHEN v_sort = 'relevance' THEN c.rank END DESC,
+          CASE WHEN v_sort = 'newest' THEN c.publication_year END DESC NULLS LAST,
+          CASE WHEN v_sort = 'newest' THEN c.created_at END DESC,
+          CASE WHEN v_sort = 'popularity' THEN c.loan_count END DESC,
+          c.name,
+          c.id
+      ) AS position
+    FROM checked c
+    WHERE in_category AND by_author AND in_language AND is_available AND in_years
+  )
+  SELECT
+    (SELECT COUNT(*) FROM results),
+    COALESCE((
+      SELECT jsonb_agg(
+        to_jsonb(r) - ARRAY['facet_category', 'in_category', 'by_author', 'in_language', 'is_available', 'in_years', 'position']
+        ORDER BY r.position
+      )
+      FROM results r
+      WHERE r.position > v_offset AND r.position <= v_offset + v_limit
+    ), '[]'::jsonb),
+    jsonb_build_object(
+      'category', COALESCE((
+        SELECT jsonb_agg(jsonb_build_object('value', value, 'count', n) ORDER BY n DESC, value)
+        FROM (
+          SELECT facet_category AS value, COUNT(*) AS n FROM checked
+          WHERE by_author AND in_language AND is_available AND in_years
+          GROUP BY 1
+        ) f
+      ), '[]'::jsonb),
+      'author', COALESCE((
+        SELECT jsonb_agg(jsonb_build_object('value', value, 'count', n) ORDER BY n DESC, value)
+        FROM (
+          SELECT listed.author AS value, COUNT(*) AS n FROM checked, unnest(checked.authors) AS listed(author)
+          WHERE in_category AND in_language AND is_available AND in_years
+          GROUP BY 1
+          ORDER BY n DESC, value
+          LIMIT 20
+        ) f
+      ), '[]'::jsonb),
+      'language', COALESCE((
+        SELECT jsonb_agg(jsonb_build_object('value', value, 'count', n) ORDER BY n DESC, value)
+        FROM (
+          SELECT language AS value, COUNT(*) AS n FROM checked
+          WHERE in_category AND by_author AND is_available AND in_years AND language IS NOT NULL
+          GROUP BY 1
+        ) f
+      ), '[]'::jsonb),
+      -- Publication years are counted by decade; value is the decade's first year
+      'year', COALESCE((
+        SELECT jsonb_agg(jsonb_build_object('value', value, 'count', n) ORDER BY value DESC)
+        FROM (
+          SELECT publication_year / 10 * 10 AS value, COUNT(*) AS n FROM checked
+          WHERE in_category AND by_author AND in_language AND is_available AND publication_year IS NOT NULL
+          GROUP BY 1
+        ) f
+      ), '[]'::jsonb),
+      'availability', (
+        SELECT jsonb_build_object('all', COUNT(*), 'available', COUNT(*) FILTER (WHERE available_copies > 0))
+        FROM checked
+        WHERE in_category AND by_author AND in_language AND in_years
+      )
+    ),
+    EXISTS (SELECT 1 FROM fuzzy_matches),
+    COALESCE((
+      SELECT jsonb_agg(term ORDER BY score DESC, term)
+      FROM (
+        SELECT DISTINCT term, word_similarity(v_query, term) AS score
+        FROM fuzzy_matches f, unnest(array_prepend(f.name, f.authors)) AS term
+        WHERE word_similarity(v_query, term) >= v_fuzzy_threshold
+        ORDER BY score DESC, term
+        LIMIT 3
+      ) s
+    ), '[]'::jsonb)
+  INTO v_total, v_books, v_facets, v_fuzzy, v_did_you_mean;
+
+  RETURN jsonb_build_object(
+    'success', TRUE,
+    'total', v_total,
+    'books', v_books,
+    'facets', v_facets,
+    'fuzzy', v_fuzzy,
+    'did_you_mean', v_did_you_mean
+  );
+END;
+$$;
+
+-- Type-ahead suggestions while a title or author is being typed: titles
+-- starting with the text first, then titles and authors with words starting
+-- with it, then close misspellings. Active titles only; each suggestion
+-- carries the ISBN so it can be borrowed straight away.
+CREATE OR REPLACE FUNCTION public.suggest_books(p_query TEXT, p_limit INTEGER DEFAULT 8)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+AS $$
+DECLARE
+  v_query TEXT := trim(COALESCE(p_query, ''));
+  v_tsquery tsquery := public.search_prefix_query(v_query, 'AB');
+  v_limit INTEGER := LEAST(GREATEST(COALESCE(p_limit, 8), 1), 20);
+  v_fuzzy_threshold REAL := 0.5;
+BEGIN
+  IF length(v_query) < 2 OR v_tsquery IS NULL THEN
+    RETURN '[]'::jsonb;
+  END IF;
+
+  RETURN COALESCE((
+    SELECT jsonb_agg(jsonb_build_object(
+      'isbn', s.isbn,
+      'name', s.name,
+      'author', s.author,
+      'available_copies', s.available_copies
+    ) ORDER BY s.tier, s.score DESC, s.name)
+    FROM (
+      SELECT
+        b.isbn,
+        b.name,
+        b.author,
+        b.available_copies,
+        CASE
+          WHEN b.name ILIKE public.like_escape(v_query) || '%' THEN 1
+          WHEN public.book_search_vector(b.name, b.author, b.category, b.subjects, b.publisher) @@ v_tsquery THEN 2
+          ELSE 3
+        END AS tier,
+        GREATEST(word_similarity(v_query, b.name), word_similarity(v_query, b.author)) AS score
+      FROM public.books b
+      WHERE b.status = 'active'
+        AND (
+          public.book_search_vector(b.name, b.author, b.category, b.subjects, b.publisher) @@ v_tsquery
+          OR GREATEST(word_similarity(v_query, b.name), word_similarity(v_query, b.author)) >= v_fuzzy_threshold
+        )
+      ORDER BY tier, score DESC, b.name
+      LIMIT v_limit
+    ) s
+  ), '[]'::jsonb);
+END;
+$$;
+
+-- 16. Student Registration & Account Settings
+-- Students create their own accounts with a campus email address. Supabase
+-- Auth sends the confirmation email (turn on "Confirm email" in the project's
+-- Auth settings) and this trigger adds the matching profile, always as a
+-- student: librarians are promoted by changing users.role.
+-- Domains are configured here; a domain also admits its subdomains
+-- (campus.edu allows cs.campus.edu).
+CREATE TABLE IF NOT EXISTS public.registration_domains (
+  domain TEXT PRIMARY KEY CHECK (domain = lower(domain) AND domain ~ '^[a-z0-9.-]+\.[a-z]{2,}$'),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- The demo accounts' domain; replace with your campus domains
+INSERT INTO public.registration_domains (domain) VALUES ('test.edu')
+ON CONFLICT (domain) DO NOTHING;
+
+CREATE OR REPLACE FUNCTION public.email_domain_allowed(p_email TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.registration_domains d
+    WHERE lower(split_part(p_email, '@', 2)) = d.domain
+       OR lower(split_part(p_email, '@', 2)) LIKE '%.' || d.domain
+  )
+$$;
+
+-- Runs for every new auth user. Accounts outside the campus domains are
+-- refused, which makes the sign-up request fail before any email is sent;
+-- to add someone from another domain, add the domain first.
+CREATE OR REPLACE FUNCTION public.handle_new_auth_user()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.email_domain_allowed(NEW.email) THEN
+    RAISE EXCEPTION 'Registration is limited to campus email addresses'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  INSERT INTO public.users (id, email, role, name)
+  VALUES (NEW.id, NEW.email, 'student', NULLIF(trim(NEW.raw_user_meta_data ->> 'name'), ''))
+  ON CONFLICT (id) DO NOTHING;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_auth_users_create_profile ON auth.users;
+CREATE TRIGGER trg_auth_users_create_profile
+  AFTER INSERT ON auth.users
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_new_auth_user();
+
+-- Auth users added before this trigger existed get a student profile too
+INSERT INTO public.users (id, email, role, name)
+SELECT au.id, au.email, 'student', NULLIF(trim(au.raw_user_meta_data ->> 'name'), '')
+FROM auth.users au
+WHERE au.email IS NOT NULL
+  AND public.email_domain_allowed(au.email)
+  AND NOT EXISTS (SELECT 1 FROM public.users u WHERE u.id = au.id)
+ON CONFLICT (id) DO NOTHING;
+
+-- Signed-in users edit their own display name and email preferences here;
+-- the users table has no write policy, so the role cannot be changed this way
+CREATE OR REPLACE FUNCTION public.update_profile(
+  p_name TEXT,
+  p_email_due_reminders BOOLEAN,
+  p_email_hold_notices BOOLEAN
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user public.users%ROWTYPE;
+BEGIN
+  IF length(trim(COALESCE(p_name, ''))) > 100 THEN
+    RETURN jsonb_build_object('success', FALSE, 'error', 'name_too_long');
+  END IF;
+
+  UPDATE public.users
+  SET name = NULLIF(trim(p_name), ''),
+      email_due_reminders = COALESCE(p_email_due_reminders, email_due_reminders),
+      email_hold_notices = COALESCE(p_email_hold_notices, email_hold_notices),
+      updated_at = NOW()
+  WHERE id = auth.uid()
+  RETURNING * INTO v_user;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', FALSE, 'error', 'profile_not_found');
+  END IF;
+
+  RETURN jsonb_build_object(
+    'success', TRUE,
+    'name', v_user.name,
+    'email_due_reminders', v_user.email_due_reminders,
+    'email_hold_notices', v_user.email_hold_notices
+  );
+END;
+$$;
+
+-- 17. Row Level Security
+-- With RLS on, a table is closed until a policy opens it. Signed-in users
+-- read the catalog, copies and loan policies; students see only their own
+-- account, loans, holds, fines and blocks, while librarians see everyone's.
+-- Only librarians change the catalog, copies and loan policies directly.
+-- Loans, holds, fines, blocks and the change history have no write policies
+-- at all: they change only through the checked functions above.
+ALTER TABLE public.books ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.book_copies ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.loan_policies ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.users ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.borrowed_books ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.loan_renewals ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.holds ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.fine_ledger ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.patron_blocks ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.book_changes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.registration_domains ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS books_read ON public.books;
+CREATE POLICY books_read ON public.books
+  FOR SELECT TO authenticated USING (TRUE);
+DROP POLICY IF EXISTS books_librarian_write ON public.books;
+CREATE POLICY books_librarian_write ON public.books
+  FOR ALL TO authenticated USING (public.is_librarian()) WITH CHECK (public.is_librarian());
+
+DROP POLICY IF EXISTS book_copies_read ON public.book_copies;
+CREATE POLICY book_copies_read ON public.book_copies
+  FOR SELECT TO authenticated USING (TRUE);
+DROP POLICY IF EXISTS book_copies_librarian_write ON public.book_copies;
+CREATE POLICY book_copies_librarian_write ON public.book_copies
+  FOR ALL TO authenticated USING (public.is_librarian()) WITH CHECK (public.is_librarian());
+
+DROP POLICY IF EXISTS loan_policies_read ON public.loan_policies;
+CREATE POLICY loan_policies_read ON public.loan_policies
+  FOR SELECT TO authenticated USING (TRUE);
+DROP POLICY IF EXISTS loan_policies_librarian_write ON public.loan_policies;
+CREATE POLICY loan_policies_librarian_write ON public.loan_policies
+  FOR ALL TO authenticated USING (public.is_librarian()) WITH CHECK (public.is_librarian());
+
+-- The sign-up form lists the campus domains before anyone is signed in
+DROP POLICY IF EXISTS registration_domains_read ON public.registration_domains;
+CREATE POLICY registration_domains_read ON public.registration_domains
+  FOR SELECT TO anon, authenticated USING (TRUE);
+DROP POLICY IF EXISTS registration_domains_librarian_write ON public.registration_domains;
+CREATE POLICY registration_domains_librarian_write ON public.registration_domains
+  FOR ALL TO authenticated USING (public.is_librarian()) WITH CHECK (public.is_librarian());
+
+DROP POLICY IF EXISTS users_read ON public.users;
+CREATE POLICY users_read ON public.users
+  FOR SELECT TO authenticated USING (id = auth.uid() OR public.is_librarian());
+
+DROP POLICY IF EXISTS borrowed_books_read ON public.borrowed_books;
+CREATE POLICY borrowed_books_read ON public.borrowed_books
+  FOR SELECT TO authenticated USING (public.can_access_user(user_id));
+
+-- Follows the loan: visible when the loan is
+DROP POLICY IF EXISTS loan_renewals_read ON public.loan_renewals;
+CREATE POLICY loan_renewals_read ON public.loan_renewals
+  FOR SELECT TO authenticated
+  USING (EXISTS (SELECT 1 FROM public.borrowed_books b WHERE b.id = loan_id));
+
+DROP POLICY IF EXISTS holds_read ON public.holds;
+CREATE POLICY holds_read ON public.holds
+  FOR SELECT TO authenticated USING (public.can_access_user(user_id));
+
+DROP POLICY IF EXISTS fine_ledger_read ON public.fine_ledger;
+CREATE POLICY fine_ledger_read ON public.fine_ledger
+  FOR SELECT TO authenticated USING (public.can_access_user(user_id));
+
+DROP POLICY IF EXISTS patron_blocks_read ON public.patron_blocks;
+CREATE POLICY patron_blocks_read ON public.patron_blocks
+  FOR SELECT TO authenticated USING (public.can_access_user(user_id));
+
+-- Holds, fines and blocks were matched by email before they were linked to accounts
+DROP FUNCTION IF EXISTS public.can_access_patron(TEXT);
+
+DROP POLICY IF EXISTS book_changes_read ON public.book_changes;
+CREATE POLICY book_changes_read ON public.book_changes
+  FOR SELECT TO authenticated USING (public.is_librarian());
+
+-- Balances are summed over the ledger rows the caller can see
+ALTER VIEW public.fine_balances SET (security_invoker = true);
+
+-- Recommendations need to know what other students are reading without
+-- seeing who they are: titles currently out to patrons who also have one of
+-- the caller's current titles, with the number of such loans
+CREATE OR REPLACE FUNCTION public.co_borrowed_books()
+RETURNS TABLE (book_isbn TEXT, loan_count BIGINT)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH mine AS (
+    SELECT bb.book_isbn
+    FROM public.borrowed_books bb
+    WHERE bb.user_id = auth.uid() AND bb.returned = FALSE
+  ),
+  readers AS (
+    SELECT DISTINCT bb.user_id
+    FROM public.borrowed_books bb
+    WHERE bb.book_isbn IN (SELECT m.book_isbn FROM mine m)
+      AND bb.user_id <> auth.uid()
+      AND bb.returned = FALSE
+  )
+  SELECT bb.book_isbn, COUNT(*) AS loan_count
+  FROM public.borrowed_books bb
+  WHERE bb.user_id IN (SELECT r.user_id FROM readers r)
+    AND bb.returned = FALSE
+    AND bb.book_isbn NOT IN (SELECT m.book_isbn FROM mine m)
+  GROUP BY bb.book_isbn
+  ORDER BY loan_count DESC, bb.book_isbn
+$$;
+
+-- Signed-out visitors cannot call the checked functions at all
+DO $$
+DECLARE
+  v_function REGPROCEDURE;
+BEGIN
+  FOR v_function IN
+    SELECT p.oid FROM pg_proc p
+    WHERE p.pronamespace = 'public'::regnamespace AND p.prosecdef
+  LOOP
+    EXECUTE format('REVOKE EXECUTE ON FUNCTION %s FROM PUBLIC, anon', v_function);
+    EXECUTE format('GRANT EXECUTE ON FUNCTION %s TO authenticated, service_role', v_function);
+  END LOOP;
+END;
+$$;
+
+-- Handing copies to the hold queue is only done from inside those functions
+REVOKE EXECUTE ON FUNCTION public.assign_copy_to_next_hold(INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- 18. Sample Books (Optional - you can remove this if you want to add books manually)
 INSERT INTO public.books (isbn, name, author, category, total_copies, available_copies) VALUES
   ('978-0262033848', 'Introduction to Algorithms', 'Thomas H. Cormen', 'Computer Science', 5, 5),
   ('978-0136042594', 'Artificial Intelligence: A Modern Approach', 'Stuart Russell', 'Computer Science', 3, 3),
@@ -58,7 +2397,7 @@ INSERT INTO public.books (isbn, name, author, category, total_copies, available_
   ('978-1118230725', 'Fundamentals of Physics', 'David Halliday', 'Physics', 4, 4)
 ON CONFLICT (isbn) DO NOTHING;
 
--- 5. Verify Setup
+-- 19. Verify Setup
 SELECT 'Setup Complete! Tables created successfully.' as status;
 SELECT COUNT(*) as total_books FROM public.books;
 
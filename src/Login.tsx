@@ -2,6 +2,10 @@ import { useState, useEffect } from 'react'
 import { supabase } from './supabaseClient'
 import StudentDashboard from './studentDashboard'
 import LibrarianDashboard from './librarianDashboard'
+import { SignUpForm } from './components/SignUpForm'
+import { ResetPasswordForm } from './components/ResetPasswordForm'
+import { resendConfirmation } from './lib/registration'
+import { isPasswordRecoveryLink, requestPasswordReset } from './lib/account'
 
 export function Login() {
   const [email, setEmail] = useState('')
@@ -9,6 +13,11 @@ export function Login() {
   const [selectedRole, setSelectedRole] = useState<'student' | 'librarian' | null>(null)
   const [role, setRole] = useState<string|null>(null)
   const [loading, setLoading] = useState(true)
+  // Students can switch the form to self-registration
+  const [signingUp, setSigningUp] = useState(false)
+  const [notice, setNotice] = useState<string | null>(null)
+  // Opened from a password reset link: ask for the new password first
+  const [recovering, setRecovering] = useState(isPasswordRecoveryLink)
 
   // Check if user is already logged in on component mount
   useEffect(() => {
@@ -21,13 +30,14 @@ export function Login() {
           // Get user role from database
           const { data: userData } = await supabase
             .from('users')
-            .select('role, email')
+            .select('role, email, name')
             .eq('id', session.user.id)
             .single()
 
           if (userData) {
             setRole(userData.role)
             localStorage.setItem('userEmail', userData.email || session.user.email || '')
+            localStorage.setItem('userName', userData.name || '')
             localStorage.setItem('userRole', userData.role)
             localStorage.setItem('userId', session.user.id)
           }
@@ -60,6 +70,9 @@ export function Login() {
 
     // Listen for auth state changes
     const { data: { subscription } } = supabase.auth.onAuthStateChange((event, session) => {
+      if (event === 'PASSWORD_RECOVERY') {
+        setRecovering(true)
+      }
       if (event === 'SIGNED_OUT' || !session) {
         setRole(null)
         localStorage.clear()
@@ -83,6 +96,13 @@ export function Login() {
 
       if (authError) {
         console.error('Auth error:', authError);
+        if (authError.code === 'email_not_confirmed') {
+          if (confirm('Please confirm your email address first, using the link we sent you.\n\nSend the confirmation email again?')) {
+            const sent = await resendConfirmation(email)
+            alert(sent ? `Confirmation email sent to ${email}.` : 'Could not send the confirmation email. Please try again later.')
+          }
+          return;
+        }
         alert('Login error: ' + authError.message);
         return;
       }
@@ -98,9 +118,9 @@ export function Login() {
       // Then get the user's role from the users table using the auth user's ID
       const { data: userData, error: userError } = await supabase
         .from('users')
-        .select('role, email')
+        .select('role, email, name')
         .eq('id', authData.user.id)
-        .single();
+        .maybeSingle();
 
       console.log('User query result:', { userData, userError });
 
@@ -126,6 +146,7 @@ export function Login() {
         // Use the database role (case sensitive)
         setRole(userData.role);
         localStorage.setItem('userEmail', userData.email || email);
+        localStorage.setItem('userName', userData.name || '');
         localStorage.setItem('userRole', userData.role);
         localStorage.setItem('userId', authData.user.id);
       } else {
@@ -150,6 +171,18 @@ export function Login() {
     )
   }
 
+  if (recovering) {
+    return (
+      <ResetPasswordForm
+        onDone={() => {
+          // Drop the recovery token from the URL and open the dashboard
+          window.history.replaceState(null, '', window.location.pathname + window.location.search)
+          window.location.reload()
+        }}
+      />
+    )
+  }
+
   if (role === 'student') {
     return <StudentDashboard />
   }
@@ -158,6 +191,30 @@ export function Login() {
     return <LibrarianDashboard />
   }
 
+  const handleForgotPassword = async () => {
+    if (!email.trim()) {
+      alert('Enter your email address above, then choose "Forgot password?" again.')
+      return
+    }
+    if (!(await requestPasswordReset(email))) {
+      alert('Could not send the reset email. Please try again later.')
+      return
+    }
+    setNotice(`If an account exists for ${email.trim()}, we sent it a link to reset the password.`)
+  }
+
+  const handleRegistered = (registeredEmail: string, needsConfirmation: boolean) => {
+    if (!needsConfirmation) {
+      // Already signed in; load the profile the same way as a returning visit
+      window.location.reload()
+      return
+    }
+    setSigningUp(false)
+    setEmail(registeredEmail)
+    setPassword('')
+    setNotice(`We sent a confirmation link to ${registeredEmail}. Follow it to activate your account, then log in.`)
+  }
+
   return (
     <div className="login-container">
       <h2 className="login-title">CampusReads Library</h2>
@@ -181,11 +238,14 @@ export function Login() {
               </button>
             </div>
           </div>
+        ) : selectedRole === 'student' && signingUp ? (
+          <SignUpForm onRegistered={handleRegistered} onCancel={() => setSigningUp(false)} />
         ) : (
           <>
+            {notice && <p className="auth-notice">{notice}</p>}
             <div className="role-indicator">
               <span>Login as: <strong>{selectedRole === 'student' ? '👤 Student' : '👨‍💼 Librarian'}</strong></span>
-              <button className="change-role-button" onClick={() => setSelectedRole(null)}>
+              <button className="change-role-button" onClick={() => { setSelectedRole(null); setNotice(null) }}>
                 Change
               </button>
             </div>
@@ -209,6 +269,19 @@ export function Login() {
                 Login
               </button>
             </div>
+            <p className="auth-hint">
+              <button className="link-button" onClick={handleForgotPassword}>
+                Forgot password?
+              </button>
+            </p>
+            {selectedRole === 'student' && (
+              <p className="auth-hint">
+                New student?{' '}
+                <button className="link-button" onClick={() => { setSigningUp(true); setNotice(null) }}>
+                  Create an account
+                </button>
+              </p>
+            )}
           </>
         )}
       </div>
@@ -0,0 +1,136 @@
+import { useState, useEffect } from 'react'
+import { loadProfile, updateProfile, changePassword, type AccountProfile } from '../lib/account'
+import { minPasswordLength } from '../lib/registration'
+
+interface AccountSettingsProps {
+  // Lets the dashboard header greet the user by their new name
+  onNameChange?: (name: string | null) => void
+}
+
+// Display name, email preferences and password for the signed-in user (both roles)
+export function AccountSettings({ onNameChange }: AccountSettingsProps) {
+  const [profile, setProfile] = useState<AccountProfile | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [name, setName] = useState('')
+  const [dueReminders, setDueReminders] = useState(true)
+  const [holdNotices, setHoldNotices] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [password, setPassword] = useState('')
+  const [confirmPassword, setConfirmPassword] = useState('')
+  const [changingPassword, setChangingPassword] = useState(false)
+
+  useEffect(() => {
+    loadProfile().then(loaded => {
+      setProfile(loaded)
+      if (loaded) {
+        setName(loaded.name || '')
+        setDueReminders(loaded.email_due_reminders)
+        setHoldNotices(loaded.email_hold_notices)
+      }
+      setLoading(false)
+    })
+  }, [])
+
+  const handleSaveProfile = async () => {
+    setSaving(true)
+    try {
+      const result = await updateProfile({
+        name: name.trim() || null,
+        email_due_reminders: dueReminders,
+        email_hold_notices: holdNotices
+      })
+      if (!result.success) {
+        alert(result.message)
+        return
+      }
+      onNameChange?.(name.trim() || null)
+      alert('Settings saved.')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleChangePassword = async () => {
+    setChangingPassword(true)
+    try {
+      const result = await changePassword(password, confirmPassword)
+      if (!result.success) {
+        alert(result.message)
+        return
+      }
+      setPassword('')
+      setConfirmPassword('')
+      alert('Your password has been changed.')
+    } finally {
+      setChangingPassword(false)
+    }
+  }
+
+  if (loading) {
+    return <p className="empty-message">Loading your settings...</p>
+  }
+
+  if (!profile) {
+    return <p className="empty-message">Your profile could not be loaded. Please log in again.</p>
+  }
+
+  return (
+    <div className="account-settings">
+      <div className="dashboard-section">
+        <h3 className="section-title">Profile</h3>
+        <p className="search-hint">
+          Signed in as <strong>{profile.email}</strong> ({profile.role})
+        </p>
+        <label className="settings-label" htmlFor="settings-name">Display name</label>
+        <input
+          id="settings-name"
+          className="input-field"
+          type="text"
+          placeholder={profile.email.split('@')[0]}
+          maxLength={100}
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+        />
+        <p className="search-hint">Used to greet you in library emails and on your dashboard.</p>
+
+        <h4 className="subsection-title">Email Notifications</h4>
+        <label className="settings-option">
+          <input type="checkbox" checked={dueReminders} onChange={(e) => setDueReminders(e.target.checked)} />
+          {' '}Reminders when a book is due soon or overdue
+        </label>
+        <label className="settings-option">
+          <input type="checkbox" checked={holdNotices} onChange={(e) => setHoldNotices(e.target.checked)} />
+          {' '}Tell me when a book I placed on hold is ready for pickup
+        </label>
+
+        <button className="action-button" onClick={handleSaveProfile} disabled={saving}>
+          {saving ? 'Saving...' : 'Save Settings'}
+        </button>
+      </div>
+
+      <div className="dashboard-section">
+        <h3 className="section-title">Change Password</h3>
+        <div className="input-group">
+          <input
+            className="input-field"
+            type="password"
+            placeholder={`New password (at least ${minPasswordLength} characters)`}
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+          />
+          <input
+            className="input-field"
+            type="password"
+            placeholder="Confirm new password"
+            value={confirmPassword}
+            onChange={(e) => setConfirmPassword(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleChangePassword()}
+          />
+        </div>
+        <button className="action-button" onClick={handleChangePassword} disabled={changingPassword || !password}>
+          {changingPassword ? 'Changing...' : 'Change Password'}
+        </button>
+      </div>
+    </div>
+  )
+}
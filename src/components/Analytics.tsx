@@ -16,21 +16,21 @@ export function Analytics() {
     averageReadingDays: 0
   })
   const [loading, setLoading] = useState(true)
-  const userEmail = localStorage.getItem('userEmail')
+  const userId = localStorage.getItem('userId')
 
   useEffect(() => {
     loadAnalytics()
   }, [])
 
   const loadAnalytics = async () => {
-    if (!userEmail) return
+    if (!userId) return
 
     try {
       // Get all borrow records for this user
       const { data: borrows, error } = await supabase
         .from('borrowed_books')
         .select('*')
-        .eq('user_email', userEmail)
+        .eq('user_id', userId)
 
       if (error || !borrows) {
         setLoading(false)
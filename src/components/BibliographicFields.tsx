@@ -0,0 +1,43 @@
+import type { BibliographicForm } from '../lib/bibliography'
+
+interface BibliographicFieldsProps {
+  value: BibliographicForm
+  onChange: (value: BibliographicForm) => void
+}
+
+// Optional details shared by the add and edit book forms
+export function BibliographicFields({ value, onChange }: BibliographicFieldsProps) {
+  const field = (key: keyof BibliographicForm, label: string, placeholder = '', type = 'text') => (
+    <label className="policy-field">
+      {label}
+      <input
+        className="input-field"
+        type={type}
+        placeholder={placeholder}
+        value={value[key]}
+        onChange={(e) => onChange({ ...value, [key]: e.target.value })}
+      />
+    </label>
+  )
+
+  return (
+    <>
+      {field('publisher', 'Publisher')}
+      {field('edition', 'Edition', '3rd')}
+      {field('publication_year', 'Year', '2009', 'number')}
+      {field('language', 'Language', 'English')}
+      {field('page_count', 'Pages', '', 'number')}
+      {field('subjects', 'Subjects', 'Algorithms; Data structures')}
+      {field('cover_url', 'Cover image URL', 'https://...')}
+      <label className="policy-field book-description-field">
+        Description
+        <textarea
+          className="input-field"
+          rows={3}
+          value={value.description}
+          onChange={(e) => onChange({ ...value, description: e.target.value })}
+        />
+      </label>
+    </>
+  )
+}
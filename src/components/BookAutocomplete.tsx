@@ -0,0 +1,123 @@
+import { useState, useEffect, type KeyboardEvent } from 'react'
+import { formatISBN, looksLikeISBN } from '../lib/isbn'
+import { suggestBooks, type BookSuggestion } from '../lib/bookSearch'
+
+interface BookAutocompleteProps {
+  value: string
+  onChange: (value: string) => void
+  // A suggestion was picked; the input now holds its ISBN
+  onSelect?: (book: BookSuggestion) => void
+  // Enter pressed without a suggestion highlighted
+  onSubmit?: () => void
+  placeholder?: string
+}
+
+// Wait for a pause in typing before asking for suggestions
+const suggestDelayMs = 200
+
+// Text input that accepts an ISBN or suggests titles while a title or
+// author is typed; picking one puts its ISBN in the input
+export function BookAutocomplete({ value, onChange, onSelect, onSubmit, placeholder }: BookAutocompleteProps) {
+  const [suggestions, setSuggestions] = useState<BookSuggestion[]>([])
+  const [highlighted, setHighlighted] = useState(-1)
+  const [open, setOpen] = useState(false)
+  const [selected, setSelected] = useState<BookSuggestion | null>(null)
+
+  useEffect(() => {
+    const query = value.trim()
+    if (query.length < 2 || looksLikeISBN(query)) {
+      setSuggestions([])
+      return
+    }
+
+    // Ignore suggestions for text the user has already changed
+    let stale = false
+    const timer = setTimeout(async () => {
+      const results = await suggestBooks(query)
+      if (stale) return
+      setSuggestions(results)
+      setHighlighted(-1)
+    }, suggestDelayMs)
+
+    return () => {
+      stale = true
+      clearTimeout(timer)
+    }
+  }, [value])
+
+  const choose = (book: BookSuggestion) => {
+    setSelected(book)
+    setOpen(false)
+    setSuggestions([])
+    onChange(formatISBN(book.isbn))
+    onSelect?.(book)
+  }
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    const showing = open && suggestions.length > 0
+
+    if (e.key === 'ArrowDown' && showing) {
+      e.preventDefault()
+      setHighlighted((highlighted + 1) % suggestions.length)
+    } else if (e.key === 'ArrowUp' && showing) {
+      e.preventDefault()
+      setHighlighted(highlighted <= 0 ? suggestions.length - 1 : highlighted - 1)
+    } else if (e.key === 'Escape') {
+      setOpen(false)
+    } else if (e.key === 'Enter') {
+      if (showing && highlighted >= 0) {
+        e.preventDefault()
+        choose(suggestions[highlighted])
+      } else {
+        onSubmit?.()
+      }
+    }
+  }
+
+  return (
+    <div className="autocomplete">
+      <input
+        className="input-field"
+        type="text"
+        placeholder={placeholder}
+        value={value}
+        onChange={(e) => {
+          setOpen(true)
+          onChange(e.target.value)
+        }}
+        onFocus={() => setOpen(true)}
+        onBlur={() => setOpen(false)}
+        onKeyDown={handleKeyDown}
+        role="combobox"
+        aria-expanded={open && suggestions.length > 0}
+        aria-autocomplete="list"
+      />
+      {open && suggestions.length > 0 && (
+        <ul className="autocomplete-list" role="listbox">
+          {suggestions.map((book, index) => (
+            <li
+              key={book.isbn}
+              className={`autocomplete-option ${index === highlighted ? 'active' : ''}`}
+              role="option"
+              aria-selected={index === highlighted}
+              // mousedown fires before the input's blur closes the list
+              onMouseDown={(e) => {
+                e.preventDefault()
+                choose(book)
+              }}
+              onMouseEnter={() => setHighlighted(index)}
+            >
+              <strong>{book.name}</strong>
+              <span className="autocomplete-meta">
+                {book.author} · {book.available_copies > 0 ? `${book.available_copies} available` : 'Not available'}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+      {selected && formatISBN(selected.isbn) === value && (
+        <p className="search-hint">📖 {selected.name} — {selected.author}</p>
+      )}
+    </div>
+  )
+}
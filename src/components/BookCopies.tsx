@@ -0,0 +1,177 @@
+import { useState, useEffect } from 'react'
+import { supabase } from '../supabaseClient'
+
+export interface BookCopy {
+  id: number
+  book_isbn: string
+  barcode: string
+  condition: 'new' | 'good' | 'fair' | 'poor' | 'damaged'
+  location: string | null
+  status: 'available' | 'on_loan' | 'on_hold' | 'damaged' | 'lost' | 'withdrawn'
+  notes: string | null
+}
+
+interface BookCopiesProps {
+  isbn: string
+  // Called after any change so the parent can refresh its copy counts
+  onChange?: () => void
+}
+
+const conditions: BookCopy['condition'][] = ['new', 'good', 'fair', 'poor', 'damaged']
+// on_loan and on_hold are only set by the circulation and holds functions,
+// never by hand
+const editableStatuses: BookCopy['status'][] = ['available', 'damaged', 'lost', 'withdrawn']
+
+const statusLabels: Record<BookCopy['status'], string> = {
+  available: '✅ Available',
+  on_loan: '⏳ On loan',
+  on_hold: '📌 On hold shelf',
+  damaged: '⚠️ Damaged',
+  lost: '❌ Lost',
+  withdrawn: '🗄️ Withdrawn'
+}
+
+export function BookCopies({ isbn, onChange }: BookCopiesProps) {
+  const [copies, setCopies] = useState<BookCopy[]>([])
+  const [loading, setLoading] = useState(true)
+  const [newLocation, setNewLocation] = useState('')
+
+  useEffect(() => {
+    loadCopies()
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isbn])
+
+  const loadCopies = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('book_copies')
+        .select('*')
+        .eq('book_isbn', isbn)
+        .order('barcode')
+
+      if (!error && data) {
+        setCopies(data as BookCopy[])
+      }
+    } catch (error) {
+      console.error('Error loading copies:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const updateCopy = async (copyId: number, changes: Partial<Pick<BookCopy, 'condition' | 'location' | 'status'>>) => {
+    try {
+      const { error } = await supabase
+        .from('book_copies')
+        .update({ ...changes, updated_at: new Date().toISOString() })
+        .eq('id', copyId)
+
+      if (error) {
+        alert('Error updating copy: ' + error.message)
+        return
+      }
+
+      loadCopies()
+      onChange?.()
+    } catch (error) {
+      console.error('Error updating copy:', error)
+    }
+  }
+
+  const handleAddCopy = async () => {
+    try {
+      // The barcode is assigned by the database from the accession sequence
+      const { error } = await supabase
+        .from('book_copies')
+        .insert({ book_isbn: isbn, location: newLocation.trim() || null })
+
+      if (error) {
+        alert('Error adding copy: ' + error.message)
+        return
+      }
+
+      setNewLocation('')
+      loadCopies()
+      onChange?.()
+    } catch (error) {
+      console.error('Error adding copy:', error)
+    }
+  }
+
+  if (loading) {
+    return <p className="empty-message">Loading copies...</p>
+  }
+
+  return (
+    <div className="copies-panel">
+      {copies.length === 0 ? (
+        <p className="empty-message">No copies recorded for this title</p>
+      ) : (
+        <table className="copies-table">
+          <thead>
+            <tr>
+              <th>Barcode</th>
+              <th>Status</th>
+              <th>Condition</th>
+              <th>Location</th>
+            </tr>
+          </thead>
+          <tbody>
+            {copies.map((copy) => (
+              <tr key={copy.id}>
+                <td><code>{copy.barcode}</code></td>
+                <td>
+                  {!editableStatuses.includes(copy.status) ? (
+                    statusLabels[copy.status]
+                  ) : (
+                    <select
+                      value={copy.status}
+                      onChange={(e) => updateCopy(copy.id, { status: e.target.value as BookCopy['status'] })}
+                    >
+                      {editableStatuses.map(status => (
+                        <option key={status} value={status}>{statusLabels[status]}</option>
+                      ))}
+                    </select>
+                  )}
+                </td>
+                <td>
+                  <select
+                    value={copy.condition}
+                    onChange={(e) => updateCopy(copy.id, { condition: e.target.value as BookCopy['condition'] })}
+                  >
+                    {conditions.map(condition => (
+                      <option key={condition} value={condition}>{condition}</option>
+                    ))}
+                  </select>
+                </td>
+                <td>
+                  <input
+                    className="input-field"
+                    defaultValue={copy.location || ''}
+                    placeholder="Shelf location"
+                    onBlur={(e) => {
+                      if (e.target.value !== (copy.location || '')) {
+                        updateCopy(copy.id, { location: e.target.value.trim() || null })
+                      }
+                    }}
+                  />
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+      <div className="borrow-form" style={{ marginTop: '1rem' }}>
+        <input
+          className="input-field"
+          placeholder="Location for new copy (optional)"
+          value={newLocation}
+          onChange={(e) => setNewLocation(e.target.value)}
+        />
+        <button className="action-button" onClick={handleAddCopy}>
+          + Add Copy
+        </button>
+      </div>
+    </div>
+  )
+}
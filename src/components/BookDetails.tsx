@@ -0,0 +1,37 @@
+import { useState } from 'react'
+import { formatPublication, type BibliographicDetails } from '../lib/bibliography'
+
+interface BookDetailsProps {
+  book: Partial<BibliographicDetails>
+}
+
+// Cover, imprint line, subjects and description for a book card
+export function BookDetails({ book }: BookDetailsProps) {
+  const [coverFailed, setCoverFailed] = useState(false)
+  const publication = formatPublication(book)
+
+  return (
+    <div className="book-details">
+      {book.cover_url && !coverFailed && (
+        <img
+          className="book-cover"
+          src={book.cover_url}
+          alt=""
+          loading="lazy"
+          onError={() => setCoverFailed(true)}
+        />
+      )}
+      <div>
+        {publication && <p className="book-publication">{publication}</p>}
+        {book.subjects && book.subjects.length > 0 && (
+          <div className="book-subjects">
+            {book.subjects.map(subject => (
+              <span key={subject} className="subject-tag">{subject}</span>
+            ))}
+          </div>
+        )}
+        {book.description && <p className="book-description">{book.description}</p>}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,142 @@
+import { useState } from 'react'
+import { updateBook, type BookUpdate } from '../lib/bookRecords'
+import { formatISBN } from '../lib/isbn'
+import {
+  fromBibliographicForm,
+  joinList,
+  splitList,
+  toBibliographicForm,
+  validateBibliographicForm,
+  type BibliographicDetails,
+  type BibliographicForm
+} from '../lib/bibliography'
+import { BibliographicFields } from './BibliographicFields'
+
+export interface EditableBook extends BibliographicDetails {
+  isbn: string
+  name: string
+  author: string
+  category: string | null
+  total_copies: number
+  available_copies: number
+}
+
+interface BookEditorProps {
+  book: EditableBook
+  onSaved: () => void
+  onCancel: () => void
+}
+
+export function BookEditor({ book, onSaved, onCancel }: BookEditorProps) {
+  const [form, setForm] = useState({
+    isbn: formatISBN(book.isbn),
+    name: book.name,
+    author: book.author,
+    category: book.category || '',
+    total_copies: String(book.total_copies)
+  })
+  const [details, setDetails] = useState(toBibliographicForm(book))
+  const [saving, setSaving] = useState(false)
+
+  const handleSave = async () => {
+    // Only send what was actually edited so the history lists real changes
+    const changes: BookUpdate = {}
+    if (form.isbn !== formatISBN(book.isbn)) changes.isbn = form.isbn
+    if (form.name !== book.name) changes.name = form.name
+    if (form.author !== book.author) changes.author = joinList(splitList(form.author))
+    if (form.category !== (book.category || '')) changes.category = form.category
+    if (form.total_copies !== String(book.total_copies)) changes.total_copies = Number(form.total_copies)
+
+    const detailsError = validateBibliographicForm(details)
+    if (detailsError) {
+      alert(detailsError)
+      return
+    }
+    const original = toBibliographicForm(book)
+    const parsed = fromBibliographicForm(details)
+    for (const key of Object.keys(details) as (keyof BibliographicForm)[]) {
+      if (details[key] !== original[key]) {
+        Object.assign(changes, { [key]: parsed[key] })
+      }
+    }
+
+    if (Object.keys(changes).length === 0) {
+      onCancel()
+      return
+    }
+
+    if (changes.total_copies !== undefined && changes.total_copies < book.total_copies) {
+      const removed = book.total_copies - changes.total_copies
+      if (!confirm(`Withdraw ${removed} copy(ies) from the shelf? Damaged and worn copies are withdrawn first.`)) {
+        return
+      }
+    }
+
+    setSaving(true)
+    try {
+      const result = await updateBook(book.isbn, changes)
+      if (!result.success) {
+        alert('Error saving book: ' + result.message)
+        return
+      }
+      onSaved()
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="add-book-form">
+      <label className="policy-field">
+        ISBN
+        <input
+          className="input-field"
+          value={form.isbn}
+          onChange={(e) => setForm({ ...form, isbn: e.target.value })}
+        />
+      </label>
+      <label className="policy-field">
+        Title
+        <input
+          className="input-field"
+          value={form.name}
+          onChange={(e) => setForm({ ...form, name: e.target.value })}
+        />
+      </label>
+      <label className="policy-field">
+        Author(s) — separate with ;
+        <input
+          className="input-field"
+          value={form.author}
+          onChange={(e) => setForm({ ...form, author: e.target.value })}
+        />
+      </label>
+      <label className="policy-field">
+        Category
+        <input
+          className="input-field"
+          placeholder="General"
+          value={form.category}
+          onChange={(e) => setForm({ ...form, category: e.target.value })}
+        />
+      </label>
+      <label className="policy-field">
+        Total copies ({book.total_copies - book.available_copies} not on the shelf)
+        <input
+          className="input-field"
+          type="number"
+          min="1"
+          value={form.total_copies}
+          onChange={(e) => setForm({ ...form, total_copies: e.target.value })}
+        />
+      </label>
+      <BibliographicFields value={details} onChange={setDetails} />
+      <button className="action-button" onClick={handleSave} disabled={saving}>
+        {saving ? 'Saving...' : 'Save Changes'}
+      </button>
+      <button className="action-button return-button" onClick={onCancel} disabled={saving}>
+        Cancel
+      </button>
+    </div>
+  )
+}
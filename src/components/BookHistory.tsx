@@ -0,0 +1,53 @@
+import { useState, useEffect } from 'react'
+import { loadBookHistory, bookFieldLabels, type BookChange } from '../lib/bookRecords'
+
+interface BookHistoryProps {
+  bookId: number
+}
+
+export function BookHistory({ bookId }: BookHistoryProps) {
+  const [changes, setChanges] = useState<BookChange[]>([])
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    loadBookHistory(bookId).then(history => {
+      setChanges(history)
+      setLoading(false)
+    })
+  }, [bookId])
+
+  if (loading) {
+    return <p className="search-hint">Loading history...</p>
+  }
+
+  if (changes.length === 0) {
+    return <p className="search-hint">No edits recorded for this book.</p>
+  }
+
+  return (
+    <div className="copies-panel">
+      <table className="copies-table">
+        <thead>
+          <tr>
+            <th>Date</th>
+            <th>Field</th>
+            <th>From</th>
+            <th>To</th>
+            <th>Changed By</th>
+          </tr>
+        </thead>
+        <tbody>
+          {changes.map((change) => (
+            <tr key={change.id}>
+              <td>{new Date(change.changed_at).toLocaleString()}</td>
+              <td>{bookFieldLabels[change.field] || change.field}</td>
+              <td>{change.old_value}</td>
+              <td>{change.new_value}</td>
+              <td>{change.changed_by}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  )
+}
@@ -1,50 +1,158 @@
 import { useState, useRef, useEffect } from 'react'
+import { createBarcodeDecoder, type BarcodeDecoder } from '../lib/barcodeDecoder'
+import { canonicalizeISBN, isValidISBN13 } from '../lib/isbn'
 
 interface CameraScannerProps {
   onClose: () => void
   onScan?: (isbn: string) => void
 }
 
+// How often a video frame is captured and handed to the decoder
+const SCAN_INTERVAL_MS = 250
+
 export function CameraScanner({ onClose, onScan }: CameraScannerProps) {
   const videoRef = useRef<HTMLVideoElement>(null)
-  const [stream, setStream] = useState<MediaStream | null>(null)
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+  const streamRef = useRef<MediaStream | null>(null)
+  const decoderRef = useRef<BarcodeDecoder | null>(null)
+  const scannedRef = useRef(false)
   const [error, setError] = useState<string | null>(null)
+  const [status, setStatus] = useState('Starting camera...')
+  const [cameras, setCameras] = useState<MediaDeviceInfo[]>([])
+  const [cameraIndex, setCameraIndex] = useState(0)
+  const [torchSupported, setTorchSupported] = useState(false)
+  const [torchOn, setTorchOn] = useState(false)
+  const [manualIsbn, setManualIsbn] = useState('')
 
-  useEffect(() => {
-    startCamera()
-
-    return () => {
-      stopCamera()
+  const stopCamera = () => {
+    streamRef.current?.getTracks().forEach(track => track.stop())
+    streamRef.current = null
+    if (videoRef.current) {
+      videoRef.current.srcObject = null
     }
-  }, [])
+  }
+
+  const startCamera = async (deviceId?: string) => {
+    stopCamera()
+    setTorchOn(false)
 
-  const startCamera = async () => {
     try {
       const mediaStream = await navigator.mediaDevices.getUserMedia({
-        video: { facingMode: 'environment' } // Use back camera on mobile
+        video: deviceId
+          ? { deviceId: { exact: deviceId } }
+          : { facingMode: 'environment' } // Use back camera on mobile
       })
-      
+
+      streamRef.current = mediaStream
       if (videoRef.current) {
         videoRef.current.srcObject = mediaStream
-        setStream(mediaStream)
-        setError(null)
       }
+      setError(null)
+
+      // Torch is only exposed on some mobile browsers
+      const [track] = mediaStream.getVideoTracks()
+      const capabilities = track?.getCapabilities?.() as MediaTrackCapabilities & { torch?: boolean }
+      setTorchSupported(Boolean(capabilities?.torch))
+
+      // Device labels are only available after permission is granted
+      const devices = await navigator.mediaDevices.enumerateDevices()
+      setCameras(devices.filter(device => device.kind === 'videoinput'))
+
+      if (!decoderRef.current) {
+        decoderRef.current = await createBarcodeDecoder()
+      }
+      setStatus('Position the ISBN barcode within the frame')
     } catch (err) {
       console.error('Error accessing camera:', err)
-      setError('Unable to access camera. Please check permissions.')
+      setError('Unable to access camera. Please check permissions or enter the ISBN manually.')
     }
   }
 
-  const stopCamera = () => {
-    if (stream) {
-      stream.getTracks().forEach(track => track.stop())
-      setStream(null)
+  useEffect(() => {
+    startCamera()
+
+    return () => {
+      stopCamera()
     }
-    if (videoRef.current) {
-      videoRef.current.srcObject = null
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [])
+
+  // Capture frames from the video and try to decode them until a valid ISBN is found
+  useEffect(() => {
+    if (error) return
+
+    let busy = false
+    const interval = setInterval(async () => {
+      const video = videoRef.current
+      const canvas = canvasRef.current
+      const decoder = decoderRef.current
+      if (busy || scannedRef.current || !video || !canvas || !decoder) return
+      if (video.readyState < video.HAVE_ENOUGH_DATA) return
+
+      busy = true
+      try {
+        canvas.width = video.videoWidth
+        canvas.height = video.videoHeight
+        canvas.getContext('2d')?.drawImage(video, 0, 0, canvas.width, canvas.height)
+
+        const code = await decoder.decode(canvas)
+        if (!code) return
+
+        // Book barcodes are EAN-13 codes in the 978/979 "Bookland" range
+        if (!isValidISBN13(code)) {
+          setStatus(`Scanned ${code}, which is not a book ISBN. Try again.`)
+          return
+        }
+
+        scannedRef.current = true
+        setStatus(`✅ Scanned ISBN ${code}`)
+        stopCamera()
+        onScan?.(code)
+      } catch (err) {
+        console.error('Barcode decode error:', err)
+      } finally {
+        busy = false
+      }
+    }, SCAN_INTERVAL_MS)
+
+    return () => clearInterval(interval)
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [error])
+
+  const switchCamera = () => {
+    if (cameras.length < 2) return
+    const nextIndex = (cameraIndex + 1) % cameras.length
+    setCameraIndex(nextIndex)
+    startCamera(cameras[nextIndex].deviceId)
+  }
+
+  const toggleTorch = async () => {
+    const [track] = streamRef.current?.getVideoTracks() || []
+    if (!track) return
+
+    try {
+      await track.applyConstraints({ advanced: [{ torch: !torchOn } as MediaTrackConstraintSet] })
+      setTorchOn(!torchOn)
+    } catch (err) {
+      console.error('Error toggling torch:', err)
+      setTorchSupported(false)
     }
   }
 
+  const submitManualIsbn = () => {
+    const value = manualIsbn.trim()
+    if (!value) return
+
+    const canonical = canonicalizeISBN(value)
+    if (!canonical) {
+      setStatus(`"${value}" is not a valid ISBN-10 or ISBN-13. Please check the digits.`)
+      return
+    }
+
+    stopCamera()
+    onScan?.(canonical)
+  }
+
   const handleClose = () => {
     stopCamera()
     onClose()
@@ -60,30 +168,65 @@ export function CameraScanner({ onClose, onScan }: CameraScannerProps) {
           </button>
         </div>
         <div className="camera-scanner-content">
+          {/* Keep the video mounted so a retry can attach the new stream to it */}
+          <video
+            ref={videoRef}
+            autoPlay
+            playsInline
+            muted
+            className="camera-video"
+            style={error ? { display: 'none' } : undefined}
+          />
+          <canvas ref={canvasRef} style={{ display: 'none' }} />
           {error ? (
             <div className="camera-error">
               <p>{error}</p>
-              <button className="action-button" onClick={startCamera}>
+              <button className="action-button" onClick={() => startCamera()}>
                 Retry
               </button>
             </div>
           ) : (
             <>
-              <video
-                ref={videoRef}
-                autoPlay
-                playsInline
-                className="camera-video"
-              />
               <div className="scanner-guide">
-                <p>Position the ISBN barcode within the frame</p>
-                <p className="scanner-note">(Camera is active - barcode scanning coming soon)</p>
+                <p>{status}</p>
+                {decoderRef.current && (
+                  <p className="scanner-note">
+                    Decoder: {decoderRef.current.engine === 'native' ? 'built-in browser scanner' : 'ZXing'}
+                  </p>
+                )}
+              </div>
+              <div className="camera-controls">
+                {cameras.length > 1 && (
+                  <button className="action-button" onClick={switchCamera}>
+                    🔄 Switch Camera
+                  </button>
+                )}
+                {torchSupported && (
+                  <button className="action-button" onClick={toggleTorch}>
+                    {torchOn ? '🔦 Torch Off' : '🔦 Torch On'}
+                  </button>
+                )}
               </div>
             </>
           )}
+          <div className="manual-entry">
+            <p className="scanner-note">Barcode won't scan? Enter the ISBN manually:</p>
+            <div className="borrow-form">
+              <input
+                className="input-field"
+                type="text"
+                placeholder="ISBN"
+                value={manualIsbn}
+                onChange={(e) => setManualIsbn(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && submitManualIsbn()}
+              />
+              <button className="action-button" onClick={submitManualIsbn}>
+                Use ISBN
+              </button>
+            </div>
+          </div>
         </div>
       </div>
     </div>
   )
 }
-
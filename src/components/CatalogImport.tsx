@@ -0,0 +1,291 @@
+import { useState } from 'react'
+import {
+  parseImportFile,
+  parseMarcImportFile,
+  markExistingBooks,
+  importBooks,
+  importTemplate,
+  type ImportRow,
+  type ImportRowStatus,
+  type ImportSummary
+} from '../lib/catalogImport'
+import { formatISBN } from '../lib/isbn'
+import { bookToMarc, loadMarcHoldings, writeMarc21, writeMarcXml } from '../lib/marc'
+import { downloadFile } from '../lib/download'
+import {
+  clearImportedMetadataDataset,
+  importMetadataDataset,
+  importedMetadataCount
+} from '../lib/localMetadataProvider'
+
+interface CatalogImportProps {
+  // Called after an import so the inventory and stats can refresh
+  onImported: () => void
+}
+
+const statusLabels: Record<ImportRowStatus, string> = {
+  new: '✅ New',
+  existing: '🔁 Already in catalog',
+  duplicate: '⚠️ Duplicate in file',
+  invalid: '❌ Invalid'
+}
+
+export function CatalogImport({ onImported }: CatalogImportProps) {
+  const [fileName, setFileName] = useState('')
+  const [rows, setRows] = useState<ImportRow[]>([])
+  const [parsing, setParsing] = useState(false)
+  const [updateExisting, setUpdateExisting] = useState(false)
+  const [showOnlyProblems, setShowOnlyProblems] = useState(false)
+  const [importing, setImporting] = useState(false)
+  const [progress, setProgress] = useState({ done: 0, total: 0 })
+  const [summary, setSummary] = useState<ImportSummary | null>(null)
+  const [exporting, setExporting] = useState(false)
+  const [datasetCount, setDatasetCount] = useState(importedMetadataCount)
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return
+
+    setFileName(file.name)
+    setRows([])
+    setSummary(null)
+    setParsing(true)
+
+    try {
+      let parsed: ImportRow[]
+
+      if (/\.(csv|tsv|txt)$/i.test(file.name)) {
+        const { rows: csvRows, missingColumns } = parseImportFile(await file.text())
+        if (missingColumns.length > 0) {
+          alert(`The file is missing required column(s): ${missingColumns.join(', ')}.\n\nThe first row must be a header, for example:\n${importTemplate.split('\n')[0]}`)
+          return
+        }
+        parsed = csvRows
+      } else {
+        const { rows: marcRows, errors } = parseMarcImportFile(new Uint8Array(await file.arrayBuffer()))
+        if (errors.length > 0) {
+          alert('Some MARC records could not be read:\n\n' + errors.slice(0, 10).join('\n'))
+        }
+        parsed = marcRows
+      }
+
+      if (parsed.length === 0) {
+        alert('The file has no data rows.')
+        return
+      }
+
+      setRows(await markExistingBooks(parsed))
+    } catch (error) {
+      console.error('Error reading import file:', error)
+      alert('Could not read the file: ' + (error instanceof Error ? error.message : 'Unknown error'))
+    } finally {
+      setParsing(false)
+    }
+  }
+
+  const counts = rows.reduce(
+    (totals, row) => ({ ...totals, [row.status]: totals[row.status] + 1 }),
+    { new: 0, existing: 0, duplicate: 0, invalid: 0 } as Record<ImportRowStatus, number>
+  )
+
+  const importable = counts.new + (updateExisting ? counts.existing : 0)
+
+  const handleImport = async () => {
+    if (importable === 0) return
+
+    setImporting(true)
+    setProgress({ done: 0, total: 0 })
+    try {
+      const result = await importBooks(rows, updateExisting, (done, total) => setProgress({ done, total }))
+      // Rows left out of the batches count towards the report too
+      result.skipped += counts.duplicate
+      result.failed += counts.invalid
+      setSummary(result)
+      setRows([])
+      onImported()
+    } catch (error) {
+      console.error('Error importing books:', error)
+      alert('Import failed: ' + (error instanceof Error ? error.message : 'Unknown error'))
+    } finally {
+      setImporting(false)
+    }
+  }
+
+  const downloadTemplate = () => {
+    downloadFile('catalog-import-template.csv', importTemplate, 'text/csv')
+  }
+
+  const handleMarcExport = async (format: 'marc21' | 'marcxml') => {
+    setExporting(true)
+    try {
+      const records = (await loadMarcHoldings()).map(bookToMarc)
+      const date = new Date().toISOString().slice(0, 10)
+      if (format === 'marc21') {
+        downloadFile(`campusreads-holdings-${date}.mrc`, writeMarc21(records), 'application/marc')
+      } else {
+        downloadFile(`campusreads-holdings-${date}.xml`, writeMarcXml(records), 'application/marcxml+xml')
+      }
+    } catch (error) {
+      console.error('Error exporting MARC:', error)
+      alert('Export failed: ' + (error instanceof Error ? error.message : 'Unknown error'))
+    } finally {
+      setExporting(false)
+    }
+  }
+
+  const handleDatasetFile = async (file: File | undefined) => {
+    if (!file) return
+
+    try {
+      const { records, skipped } = await importMetadataDataset(file)
+      setDatasetCount(records)
+      alert(`Loaded ${records} title(s) for ISBN lookup.` + (skipped > 0 ? ` ${skipped} record(s) without a valid ISBN were skipped.` : ''))
+    } catch (error) {
+      console.error('Error loading metadata dataset:', error)
+      alert('Could not load the dataset: ' + (error instanceof Error ? error.message : 'Unknown error'))
+    }
+  }
+
+  const handleClearDataset = () => {
+    if (!confirm('Remove the loaded metadata dataset? The titles bundled with the app stay available.')) return
+    clearImportedMetadataDataset()
+    setDatasetCount(0)
+  }
+
+  const visibleRows = showOnlyProblems
+    ? rows.filter(row => row.status === 'invalid' || row.status === 'duplicate')
+    : rows
+
+  return (
+    <div className="add-book-form import-panel">
+      <div className="import-controls">
+        <input
+          type="file"
+          accept=".csv,.tsv,.txt,.mrc,.marc,.xml,text/csv,text/tab-separated-values,application/marc,application/xml"
+          onChange={(e) => handleFile(e.target.files?.[0])}
+          disabled={importing}
+        />
+        <button className="scanner-button" onClick={downloadTemplate}>
+          ⬇️ Download Template
+        </button>
+        <button className="scanner-button" onClick={() => handleMarcExport('marc21')} disabled={exporting}>
+          ⬇️ Export MARC21
+        </button>
+        <button className="scanner-button" onClick={() => handleMarcExport('marcxml')} disabled={exporting}>
+          ⬇️ Export MARCXML
+        </button>
+      </div>
+      <p className="search-hint">
+        CSV or tab-separated file with a header row. Required columns: isbn, title, author, copies. Optional: category,
+        subjects, publisher, year, edition, language (separate several authors or subjects with semicolons).
+        MARC21 (.mrc) and MARCXML (.xml) files are also accepted: 020 ISBN, 100/700 authors, 245 title, 250 edition,
+        264 publisher and year, 546 language, 650 subjects (the first is the category), and one copy per 852 holding
+        (imported copies get new accession barcodes).
+      </p>
+
+      {parsing && <p className="empty-message">Reading {fileName}...</p>}
+
+      {rows.length > 0 && (
+        <>
+          <p>
+            <strong>{fileName}</strong>: {rows.length} row(s) — {counts.new} new, {counts.existing} already in catalog,{' '}
+            {counts.duplicate} duplicate, {counts.invalid} invalid
+          </p>
+          <div className="import-controls">
+            <label>
+              <input
+                type="checkbox"
+                checked={updateExisting}
+                onChange={(e) => setUpdateExisting(e.target.checked)}
+              />
+              {' '}Update titles already in the catalog (details, and add copies if the file lists more)
+            </label>
+            <label>
+              <input
+                type="checkbox"
+                checked={showOnlyProblems}
+                onChange={(e) => setShowOnlyProblems(e.target.checked)}
+              />
+              {' '}Show only rows with problems
+            </label>
+          </div>
+
+          <div className="copies-panel import-preview">
+            <table className="copies-table">
+              <thead>
+                <tr>
+                  <th>Line</th>
+                  <th>Status</th>
+                  <th>ISBN</th>
+                  <th>Title</th>
+                  <th>Author</th>
+                  <th>Category</th>
+                  <th>Copies</th>
+                </tr>
+              </thead>
+              <tbody>
+                {visibleRows.map((row) => (
+                  <tr key={row.line} className={row.status === 'invalid' || row.status === 'duplicate' ? 'desk-failed' : ''}>
+                    <td>{row.line}</td>
+                    <td>
+                      {statusLabels[row.status]}
+                      {row.errors.map((error) => (
+                        <div key={error} className="import-error">{error}</div>
+                      ))}
+                    </td>
+                    <td>{row.book ? formatISBN(row.book.isbn) : Object.values(row.raw)[0]}</td>
+                    <td>{row.book?.name}</td>
+                    <td>{row.book?.author}</td>
+                    <td>{row.book?.category || 'General'}</td>
+                    <td>{row.book?.total_copies}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <button className="action-button" onClick={handleImport} disabled={importing || importable === 0}>
+            {importing
+              ? `Importing... ${progress.done}/${progress.total}`
+              : `Import ${importable} Book(s)`}
+          </button>
+        </>
+      )}
+
+      {summary && (
+        <div className="import-summary">
+          <h4 className="subsection-title">Import Complete</h4>
+          <p>✅ Added: {summary.inserted}</p>
+          <p>🔁 Updated: {summary.updated}</p>
+          <p>⏭️ Skipped: {summary.skipped}</p>
+          <p>❌ Failed: {summary.failed}</p>
+          {summary.errors.length > 0 && (
+            <ul>
+              {summary.errors.map((error) => (
+                <li key={error} className="import-error">{error}</li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      <h4 className="subsection-title">Offline ISBN Lookup Dataset</h4>
+      <div className="import-controls">
+        <input
+          type="file"
+          accept=".json,.csv,.tsv,.txt,.mrc,.marc,.xml"
+          onChange={(e) => handleDatasetFile(e.target.files?.[0])}
+        />
+        {datasetCount > 0 && (
+          <button className="scanner-button" onClick={handleClearDataset}>
+            🗑️ Remove Dataset
+          </button>
+        )}
+      </div>
+      <p className="search-hint">
+        "Fill from ISBN" on the add-book form looks titles up here without a network connection.
+        {datasetCount > 0 ? ` ${datasetCount} title(s) loaded in this browser,` : ' No dataset loaded in this browser;'} plus
+        the titles bundled with the app. Accepts JSON, CSV/TSV (isbn, title, author, publisher, year, subjects, ...) or MARC.
+      </p>
+    </div>
+  )
+}
@@ -0,0 +1,487 @@
+import { useState } from 'react'
+import { supabase } from '../supabaseClient'
+import { checkoutBook, checkinBook, lookupScannedItem } from '../lib/circulation'
+import { notifyHoldReady } from '../lib/holds'
+import { loadBorrowingBlocks, describeBorrowingBlock, type BorrowingBlock } from '../lib/patronBlocks'
+import { loadFineBalance, formatMoney } from '../lib/fines'
+import { formatReceipt, printReceipt, type ReceiptLine } from '../lib/receipt'
+import { emailService, greetingName } from '../lib/emailService'
+import { formatISBN } from '../lib/isbn'
+import type { Patron } from '../lib/patrons'
+import { CameraScanner } from './CameraScanner'
+
+interface CirculationDeskProps {
+  // Librarian working the desk, printed on receipts
+  librarianEmail: string
+}
+
+interface PatronLoan {
+  id: number
+  book_isbn: string
+  copy_id: number | null
+  due_date: string
+  book_name?: string
+  copy_barcode?: string
+}
+
+// One scan in the current session; failed scans are kept so the desk sees what went wrong
+interface SessionEntry extends ReceiptLine {
+  key: number
+  success: boolean
+  message?: string
+}
+
+export function CirculationDesk({ librarianEmail }: CirculationDeskProps) {
+  const [patronQuery, setPatronQuery] = useState('')
+  const [patronMatches, setPatronMatches] = useState<Patron[]>([])
+  const [patron, setPatron] = useState<Patron | null>(null)
+  const [patronLoans, setPatronLoans] = useState<PatronLoan[]>([])
+  const [blocks, setBlocks] = useState<BorrowingBlock[]>([])
+  const [balance, setBalance] = useState(0)
+  const [mode, setMode] = useState<'checkout' | 'checkin'>('checkout')
+  const [itemInput, setItemInput] = useState('')
+  const [showScanner, setShowScanner] = useState(false)
+  const [processing, setProcessing] = useState(false)
+  const [session, setSession] = useState<SessionEntry[]>([])
+
+  // Match by email or name; loans need a library account, so only registered patrons can be served
+  const searchPatrons = async () => {
+    const query = patronQuery.trim()
+    if (!query) return
+
+    try {
+      // Characters that would break the PostgREST or-filter syntax
+      const pattern = query.replace(/[,()%*]/g, '')
+      const { data, error } = await supabase
+        .from('users')
+        .select('id, email, name')
+        .or(`email.ilike.%${pattern}%,name.ilike.%${pattern}%`)
+        .order('email')
+        .limit(10)
+
+      if (error) {
+        console.error('Error searching patrons:', error)
+      }
+
+      const matches = (data || []) as Patron[]
+      if (matches.length === 1) {
+        selectPatron(matches[0])
+      } else {
+        setPatronMatches(matches)
+        if (matches.length === 0) alert(`No patron found matching "${query}"`)
+      }
+    } catch (error) {
+      console.error('Error searching patrons:', error)
+    }
+  }
+
+  const loadPatronStatus = async ({ id }: Patron) => {
+    try {
+      const { data: loans } = await supabase
+        .from('borrowed_books')
+        .select('id, book_isbn, copy_id, due_date')
+        .eq('user_id', id)
+        .eq('returned', false)
+        .order('due_date')
+
+      const isbnList = [...new Set((loans || []).map(loan => loan.book_isbn))]
+      const copyIds = (loans || []).map(loan => loan.copy_id).filter((id): id is number => id !== null)
+
+      const [{ data: booksData }, { data: copiesData }] = await Promise.all([
+        supabase.from('books').select('isbn, name').in('isbn', isbnList),
+        supabase.from('book_copies').select('id, barcode').in('id', copyIds)
+      ])
+
+      const booksMap = new Map<string, string>()
+      booksData?.forEach(book => booksMap.set(book.isbn, book.name))
+      const copiesMap = new Map<number, string>()
+      copiesData?.forEach(copy => copiesMap.set(copy.id, copy.barcode))
+
+      setPatronLoans((loans || []).map(loan => ({
+        ...loan,
+        book_name: booksMap.get(loan.book_isbn),
+        copy_barcode: loan.copy_id ? copiesMap.get(loan.copy_id) : undefined
+      })))
+
+      const [patronBlocks, patronBalance] = await Promise.all([
+        loadBorrowingBlocks(id),
+        loadFineBalance(id)
+      ])
+      setBlocks(patronBlocks)
+      setBalance(patronBalance)
+    } catch (error) {
+      console.error('Error loading patron status:', error)
+    }
+  }
+
+  const selectPatron = (selected: Patron) => {
+    setPatron(selected)
+    setPatronMatches([])
+    setPatronQuery('')
+    setSession([])
+    loadPatronStatus(selected)
+  }
+
+  const endSession = () => {
+    if (session.some(entry => entry.success) && !confirm('End this session without printing or emailing a receipt?')) {
+      return
+    }
+    setPatron(null)
+    setPatronLoans([])
+    setBlocks([])
+    setBalance(0)
+    setSession([])
+    setShowScanner(false)
+  }
+
+  const addEntry = (entry: Omit<SessionEntry, 'key'>) => {
+    setSession(previous => [{ ...entry, key: Date.now() + previous.length }, ...previous])
+  }
+
+  const handleCheckout = async (scanned: string) => {
+    if (!patron) return
+
+    const item = await lookupScannedItem(scanned)
+    if (!item) {
+      addEntry({ action: 'checkout', success: false, bookName: scanned, copyBarcode: null, message: 'Not a valid ISBN or copy barcode' })
+      return
+    }
+
+    const result = await checkoutBook(patron.id, item.isbn, item.copyBarcode || undefined)
+    if (!result.success) {
+      addEntry({
+        action: 'checkout',
+        success: false,
+        bookName: formatISBN(item.isbn),
+        copyBarcode: item.copyBarcode,
+        message: result.message
+      })
+      if (result.reasons) setBlocks(result.reasons)
+      return
+    }
+
+    addEntry({
+      action: 'checkout',
+      success: true,
+      bookName: result.bookName,
+      copyBarcode: result.copyBarcode,
+      dueDate: result.dueDate
+    })
+  }
+
+  const handleCheckin = async (scanned: string) => {
+    if (!patron) return
+
+    const item = await lookupScannedItem(scanned)
+    if (!item) {
+      addEntry({ action: 'checkin', success: false, bookName: scanned, copyBarcode: null, message: 'Not a valid ISBN or copy barcode' })
+      return
+    }
+
+    // A copy barcode identifies the loan exactly; an ISBN means this patron's oldest loan of the title
+    const loanQuery = supabase
+      .from('borrowed_books')
+      .select('id, user_id, user_email')
+      .eq('returned', false)
+    const { data: loans } = item.copyId
+      ? await loanQuery.eq('copy_id', item.copyId)
+      : await loanQuery.eq('user_id', patron.id).eq('book_isbn', item.isbn).order('due_date').limit(1)
+
+    const loan = loans?.[0]
+    if (!loan) {
+      addEntry({
+        action: 'checkin',
+        success: false,
+        bookName: formatISBN(item.isbn),
+        copyBarcode: item.copyBarcode,
+        message: item.copyId ? 'This copy is not on loan' : 'This patron has no open loan for this book'
+      })
+      return
+    }
+
+    // The return and any fine belong on the borrower's receipt, not this patron's
+    if (loan.user_id !== patron.id) {
+      addEntry({
+        action: 'checkin',
+        success: false,
+        bookName: formatISBN(item.isbn),
+        copyBarcode: item.copyBarcode,
+        message: `This copy is on loan to ${loan.user_email}. Serve that patron to check it in.`
+      })
+      return
+    }
+
+    await completeCheckin(loan.id, formatISBN(item.isbn), item.copyBarcode)
+  }
+
+  const completeCheckin = async (loanId: number, label: string, copyBarcode: string | null) => {
+    if (!patron) return
+
+    const result = await checkinBook(loanId)
+    if (!result.success) {
+      addEntry({ action: 'checkin', success: false, bookName: label, copyBarcode, message: result.message })
+      return
+    }
+
+    let message: string | undefined
+    if (result.readyHold) {
+      await notifyHoldReady(result.readyHold)
+      message = `Place on hold shelf for ${result.readyHold.userEmail}`
+    }
+
+    addEntry({
+      action: 'checkin',
+      success: true,
+      bookName: result.bookName,
+      copyBarcode: result.copyBarcode,
+      fineCharged: result.fineCharged,
+      message
+    })
+  }
+
+  const processItem = async (scanned: string) => {
+    const value = scanned.trim()
+    if (!value || !patron || processing) return
+
+    setProcessing(true)
+    try {
+      if (mode === 'checkout') {
+        await handleCheckout(value)
+      } else {
+        await handleCheckin(value)
+      }
+      setItemInput('')
+      loadPatronStatus(patron)
+    } catch (error) {
+      console.error('Error processing item:', error)
+    } finally {
+      setProcessing(false)
+    }
+  }
+
+  // Check in straight from the patron's loan list, without scanning
+  const checkInLoan = async (loan: PatronLoan) => {
+    if (!patron || processing) return
+
+    setProcessing(true)
+    try {
+      await completeCheckin(loan.id, loan.book_name || loan.book_isbn, loan.copy_barcode || null)
+      loadPatronStatus(patron)
+    } catch (error) {
+      console.error('Error checking in loan:', error)
+    } finally {
+      setProcessing(false)
+    }
+  }
+
+  const receiptLines = session.filter(entry => entry.success)
+
+  const buildReceipt = () => formatReceipt(patron!.email, receiptLines, librarianEmail)
+
+  const handlePrintReceipt = () => {
+    if (!printReceipt(buildReceipt())) {
+      alert('Could not open the print window. Please allow pop-ups for this site.')
+    }
+  }
+
+  const handleEmailReceipt = async () => {
+    if (!patron) return
+
+    try {
+      await emailService.sendCirculationReceipt(
+        patron.email,
+        greetingName(patron.name, patron.email),
+        buildReceipt()
+      )
+      alert(`Receipt emailed to ${patron.email}`)
+    } catch (error) {
+      alert('Failed to send receipt: ' + (error instanceof Error ? error.message : 'Unknown error'))
+    }
+  }
+
+  if (!patron) {
+    return (
+      <div>
+        <div className="section-header">
+          <h3 className="section-title">Circulation Desk</h3>
+        </div>
+        <div className="borrow-form">
+          <input
+            className="input-field"
+            placeholder="Scan or enter student email or name"
+            value={patronQuery}
+            onChange={(e) => setPatronQuery(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && searchPatrons()}
+            autoFocus
+          />
+          <button className="action-button" onClick={searchPatrons}>
+            Find Patron
+          </button>
+        </div>
+        {patronMatches.length > 0 && (
+          <div className="overdue-list">
+            {patronMatches.map((match) => (
+              <div key={match.email} className="overdue-card">
+                <div className="overdue-info">
+                  <p><strong>{match.name || match.email}</strong></p>
+                  {match.name && <p>{match.email}</p>}
+                </div>
+                <div className="card-actions">
+                  <button className="action-button" onClick={() => selectPatron(match)}>
+                    Select
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    )
+  }
+
+  return (
+    <div>
+      <div className="section-header">
+        <h3 className="section-title">
+          Serving: {patron.name ? `${patron.name} (${patron.email})` : patron.email}
+        </h3>
+        <button className="action-button return-button" onClick={endSession}>
+          End Session
+        </button>
+      </div>
+
+      <p className={`fine-balance ${balance > 0 ? 'owed' : ''}`}>
+        {patronLoans.length} book(s) on loan · Fines balance: <strong>{formatMoney(balance)}</strong>
+      </p>
+
+      {blocks.length > 0 && (
+        <div className="borrowing-blocked">
+          <p><strong>🚫 This patron cannot borrow right now</strong></p>
+          <ul>
+            {blocks.map((block) => (
+              <li key={block.code}>{describeBorrowingBlock(block)}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div className="tabs desk-modes">
+        <button
+          className={`tab-button ${mode === 'checkout' ? 'active' : ''}`}
+          onClick={() => setMode('checkout')}
+        >
+          📤 Check Out
+        </button>
+        <button
+          className={`tab-button ${mode === 'checkin' ? 'active' : ''}`}
+          onClick={() => setMode('checkin')}
+        >
+          📥 Check In
+        </button>
+      </div>
+
+      <div className="borrow-form">
+        <input
+          className="input-field"
+          placeholder={`Scan ISBN or copy barcode to ${mode === 'checkout' ? 'check out' : 'check in'}`}
+          value={itemInput}
+          onChange={(e) => setItemInput(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && processItem(itemInput)}
+          disabled={processing}
+          autoFocus
+        />
+        <button className="action-button" onClick={() => processItem(itemInput)} disabled={processing}>
+          {processing ? 'Working...' : mode === 'checkout' ? 'Check Out' : 'Check In'}
+        </button>
+      </div>
+      {!showScanner ? (
+        <button className="scanner-button" onClick={() => setShowScanner(true)}>
+          📷 Use Camera to Scan ISBN
+        </button>
+      ) : (
+        <CameraScanner
+          onClose={() => setShowScanner(false)}
+          onScan={(isbn) => {
+            // The scanner stops its camera after one decode; close it so the
+            // button can start a fresh scan for the next book
+            setShowScanner(false)
+            processItem(isbn)
+          }}
+        />
+      )}
+
+      {session.length > 0 && (
+        <>
+          <h4 className="subsection-title">This Session</h4>
+          <div className="copies-panel">
+            <table className="copies-table">
+              <thead>
+                <tr>
+                  <th></th>
+                  <th>Book</th>
+                  <th>Copy</th>
+                  <th>Details</th>
+                </tr>
+              </thead>
+              <tbody>
+                {session.map((entry) => (
+                  <tr key={entry.key} className={entry.success ? '' : 'desk-failed'}>
+                    <td>{entry.success ? (entry.action === 'checkout' ? '📤 Out' : '📥 In') : '❌'}</td>
+                    <td>{entry.bookName}</td>
+                    <td>{entry.copyBarcode && <code>{entry.copyBarcode}</code>}</td>
+                    <td>
+                      {entry.dueDate && `Due ${new Date(entry.dueDate).toLocaleDateString()}`}
+                      {entry.fineCharged ? `Late fine ${formatMoney(entry.fineCharged)}` : ''}
+                      {entry.message && <div>{entry.message}</div>}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          {receiptLines.length > 0 && (
+            <div className="card-actions">
+              <button className="action-button" onClick={handlePrintReceipt}>
+                🖨️ Print Receipt
+              </button>
+              <button className="action-button email-button" onClick={handleEmailReceipt}>
+                📧 Email Receipt
+              </button>
+            </div>
+          )}
+        </>
+      )}
+
+      {patronLoans.length > 0 && (
+        <>
+          <h4 className="subsection-title">Current Loans</h4>
+          <div className="overdue-list">
+            {patronLoans.map((loan) => {
+              const isOverdue = new Date(loan.due_date) < new Date()
+              return (
+                <div key={loan.id} className={isOverdue ? 'overdue-card' : 'book-card'}>
+                  <div className="overdue-info">
+                    <p><strong>{loan.book_name || loan.book_isbn}</strong></p>
+                    {loan.copy_barcode && <p>Copy: <code>{loan.copy_barcode}</code></p>}
+                    <p className={isOverdue ? 'overdue-days' : ''}>
+                      Due: {new Date(loan.due_date).toLocaleDateString()}{isOverdue && ' ⚠️ overdue'}
+                    </p>
+                  </div>
+                  <div className="card-actions">
+                    <button
+                      className="action-button return-button"
+                      onClick={() => checkInLoan(loan)}
+                      disabled={processing}
+                    >
+                      Check In
+                    </button>
+                  </div>
+                </div>
+              )
+            })}
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,29 @@
+import { appProfileLabels, type AppProfile, type ConfigProblem } from '../lib/config'
+
+interface ConfigErrorProps {
+  profile: AppProfile
+  problems: ConfigProblem[]
+}
+
+// Shown instead of the app when required settings are missing or invalid
+export function ConfigError({ profile, problems }: ConfigErrorProps) {
+  return (
+    <div className="login-container">
+      <h2 className="login-title">CampusReads Library</h2>
+      <div className="config-error">
+        <h3>⚠️ The app is not configured</h3>
+        <p>
+          Profile: <strong>{appProfileLabels[profile]}</strong>. Fix the following setting(s) in your
+          <code> .env.local</code> file (see <code>.env.example</code>), then restart the dev server or rebuild.
+        </p>
+        <ul>
+          {problems.map((problem) => (
+            <li key={problem.setting}>
+              <code>{problem.setting}</code>: {problem.message}
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,150 @@
+import { useState } from 'react'
+import type { ExportFormat } from '../lib/export'
+import {
+  exportDatasets,
+  type ExportDataset,
+  type ExportDatasetId,
+  type ExportFilters,
+  type LoanStatusFilter
+} from '../lib/exportDatasets'
+
+interface ExportPanelProps {
+  // Data set selected when the panel opens (e.g. loans from the transactions tab)
+  initialDataset: ExportDatasetId
+}
+
+function defaultColumns(dataset: ExportDataset): string[] {
+  return dataset.columns.filter(column => !column.optional).map(column => column.key)
+}
+
+export function ExportPanel({ initialDataset }: ExportPanelProps) {
+  const [datasetId, setDatasetId] = useState<ExportDatasetId>(initialDataset)
+  const [columnKeys, setColumnKeys] = useState<string[]>(defaultColumns(exportDatasets[initialDataset]))
+  const [format, setFormat] = useState<ExportFormat>('csv')
+  const [filters, setFilters] = useState<ExportFilters>({ from: '', to: '', status: 'all' })
+  const [exporting, setExporting] = useState(false)
+
+  const dataset = exportDatasets[datasetId]
+
+  const selectDataset = (id: ExportDatasetId) => {
+    setDatasetId(id)
+    setColumnKeys(defaultColumns(exportDatasets[id]))
+  }
+
+  const toggleColumn = (key: string, checked: boolean) => {
+    // Keep the data set's column order whatever order the boxes are ticked in
+    const selected = checked ? [...columnKeys, key] : columnKeys.filter(k => k !== key)
+    setColumnKeys(dataset.columns.map(column => column.key).filter(k => selected.includes(k)))
+  }
+
+  const handleExport = async () => {
+    if (columnKeys.length === 0) {
+      alert('Choose at least one column to export.')
+      return
+    }
+    if (dataset.dateFilter && filters.from && filters.to && filters.from > filters.to) {
+      alert('The start date must be before the end date.')
+      return
+    }
+
+    setExporting(true)
+    try {
+      const count = await dataset.run(filters, columnKeys, format)
+      if (count === 0) {
+        alert('Nothing to export: no rows match the selected filters.')
+      }
+    } catch (error) {
+      console.error('Error exporting data:', error)
+      alert('Export failed: ' + (error instanceof Error ? error.message : 'Unknown error'))
+    } finally {
+      setExporting(false)
+    }
+  }
+
+  return (
+    <div className="add-book-form export-panel">
+      <div className="import-controls">
+        <select
+          className="input-field"
+          value={datasetId}
+          onChange={(e) => selectDataset(e.target.value as ExportDatasetId)}
+        >
+          {Object.values(exportDatasets).map(option => (
+            <option key={option.id} value={option.id}>{option.label}</option>
+          ))}
+        </select>
+        <select
+          className="input-field"
+          value={format}
+          onChange={(e) => setFormat(e.target.value as ExportFormat)}
+        >
+          <option value="csv">CSV</option>
+          <option value="tsv">Tab-separated (TSV)</option>
+          <option value="json">JSON</option>
+        </select>
+      </div>
+
+      {(dataset.dateFilter || dataset.statusFilter) && (
+        <div className="import-controls">
+          {dataset.dateFilter && (
+            <>
+              <label className="policy-field">
+                {datasetId === 'loans' ? 'Borrowed from' : 'From'}
+                <input
+                  className="input-field"
+                  type="date"
+                  value={filters.from}
+                  onChange={(e) => setFilters({ ...filters, from: e.target.value })}
+                />
+              </label>
+              <label className="policy-field">
+                To
+                <input
+                  className="input-field"
+                  type="date"
+                  value={filters.to}
+                  onChange={(e) => setFilters({ ...filters, to: e.target.value })}
+                />
+              </label>
+            </>
+          )}
+          {dataset.statusFilter && (
+            <label className="policy-field">
+              Status
+              <select
+                className="input-field"
+                value={filters.status}
+                onChange={(e) => setFilters({ ...filters, status: e.target.value as LoanStatusFilter })}
+              >
+                <option value="all">All loans</option>
+                <option value="active">On loan, not yet due</option>
+                <option value="overdue">Overdue</option>
+                <option value="returned">Returned</option>
+              </select>
+            </label>
+          )}
+        </div>
+      )}
+
+      <div className="export-columns">
+        {dataset.columns.map(column => (
+          <label key={column.key}>
+            <input
+              type="checkbox"
+              checked={columnKeys.includes(column.key)}
+              onChange={(e) => toggleColumn(column.key, e.target.checked)}
+            />
+            {' '}{column.label}
+          </label>
+        ))}
+      </div>
+      <p className="search-hint">
+        Dates are written as YYYY-MM-DD (times as YYYY-MM-DD HH:MM, local time) and amounts with two decimals.
+      </p>
+
+      <button className="action-button" onClick={handleExport} disabled={exporting}>
+        {exporting ? 'Exporting...' : `⬇️ Export ${dataset.label}`}
+      </button>
+    </div>
+  )
+}
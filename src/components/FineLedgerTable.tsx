@@ -0,0 +1,43 @@
+import { formatMoney, type FineEntry } from '../lib/fines'
+
+interface FineLedgerTableProps {
+  entries: FineEntry[]
+}
+
+const entryLabels: Record<FineEntry['entry_type'], string> = {
+  charge: '⚠️ Overdue fine',
+  payment: '💵 Payment',
+  waiver: '🤝 Waived'
+}
+
+export function FineLedgerTable({ entries }: FineLedgerTableProps) {
+  return (
+    <div className="copies-panel">
+      <table className="copies-table">
+        <thead>
+          <tr>
+            <th>Date</th>
+            <th>Entry</th>
+            <th>Amount</th>
+            <th>Note</th>
+          </tr>
+        </thead>
+        <tbody>
+          {entries.map((entry) => (
+            <tr key={entry.id}>
+              <td>{new Date(entry.created_at).toLocaleDateString()}</td>
+              <td>{entryLabels[entry.entry_type]}</td>
+              <td className={entry.entry_type === 'charge' ? 'overdue-text' : 'fine-credit'}>
+                {entry.entry_type === 'charge' ? '' : '−'}{formatMoney(entry.amount)}
+              </td>
+              <td>
+                {entry.note}
+                {entry.recorded_by && <span className="search-hint"> (by {entry.recorded_by})</span>}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  )
+}
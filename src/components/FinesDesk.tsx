@@ -0,0 +1,181 @@
+import { useState, useEffect } from 'react'
+import {
+  loadOutstandingBalances,
+  loadFineLedger,
+  recordFineTransaction,
+  formatMoney,
+  type FineBalance,
+  type FineEntry
+} from '../lib/fines'
+import { findPatronByEmail, type Patron } from '../lib/patrons'
+import { FineLedgerTable } from './FineLedgerTable'
+import { ExportPanel } from './ExportPanel'
+
+export function FinesDesk() {
+  const [balances, setBalances] = useState<FineBalance[]>([])
+  const [loading, setLoading] = useState(true)
+  const [showExport, setShowExport] = useState(false)
+  const [lookupEmail, setLookupEmail] = useState('')
+  const [selectedPatron, setSelectedPatron] = useState<Pick<Patron, 'id' | 'email'> | null>(null)
+  const [ledger, setLedger] = useState<FineEntry[]>([])
+  const [entryType, setEntryType] = useState<'payment' | 'waiver'>('payment')
+  const [amount, setAmount] = useState('')
+  const [note, setNote] = useState('')
+
+  useEffect(() => {
+    loadBalances()
+  }, [])
+
+  const loadBalances = async () => {
+    setBalances(await loadOutstandingBalances())
+    setLoading(false)
+  }
+
+  const selectPatron = async (patron: Pick<Patron, 'id' | 'email'>) => {
+    setSelectedPatron(patron)
+    setAmount('')
+    setNote('')
+    setLedger(await loadFineLedger(patron.id))
+  }
+
+  // The ledger is kept by account, so the typed email must belong to one
+  const lookUpPatron = async () => {
+    const email = lookupEmail.trim()
+    if (!email) return
+
+    const patron = await findPatronByEmail(email)
+    if (!patron) {
+      alert(`No patron is registered with ${email}`)
+      return
+    }
+    selectPatron(patron)
+  }
+
+  const selectedBalance = ledger.reduce(
+    (sum, entry) => sum + (entry.entry_type === 'charge' ? entry.amount : -entry.amount),
+    0
+  )
+
+  const handleRecord = async () => {
+    if (!selectedPatron) return
+
+    const value = parseFloat(amount)
+    if (!value || value <= 0) {
+      alert('Enter an amount greater than zero.')
+      return
+    }
+
+    if (entryType === 'waiver' && !note.trim()) {
+      alert('Please give a reason for the waiver.')
+      return
+    }
+
+    const result = await recordFineTransaction(selectedPatron.id, entryType, value, note)
+    if (!result.success) {
+      alert('Could not record ' + entryType + ': ' + result.message)
+      return
+    }
+
+    alert(`${entryType === 'payment' ? 'Payment' : 'Waiver'} of ${formatMoney(value)} recorded. Remaining balance: ${formatMoney(result.balance)}`)
+    selectPatron(selectedPatron)
+    loadBalances()
+  }
+
+  if (loading) {
+    return <p className="empty-message">Loading fines...</p>
+  }
+
+  return (
+    <div>
+      <div className="section-header">
+        <h3 className="section-title">Fines</h3>
+        <button className="action-button" onClick={() => setShowExport(!showExport)}>
+          {showExport ? 'Close Export' : '📤 Export Ledger'}
+        </button>
+      </div>
+
+      {showExport && <ExportPanel initialDataset="fines" />}
+
+      <div className="borrow-form">
+        <input
+          className="input-field"
+          placeholder="Look up student email"
+          value={lookupEmail}
+          onChange={(e) => setLookupEmail(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && lookUpPatron()}
+        />
+        <button className="action-button" onClick={lookUpPatron}>
+          View Ledger
+        </button>
+      </div>
+
+      {selectedPatron && (
+        <div className="add-book-form">
+          <div style={{ gridColumn: '1 / -1' }}>
+            <p><strong>{selectedPatron.email}</strong></p>
+            <p className={`fine-balance ${selectedBalance > 0 ? 'owed' : ''}`}>
+              Balance: <strong>{formatMoney(selectedBalance)}</strong>
+            </p>
+            {ledger.length === 0 ? (
+              <p className="empty-message">No fines recorded for this student</p>
+            ) : (
+              <FineLedgerTable entries={ledger} />
+            )}
+          </div>
+          {selectedBalance > 0 && (
+            <>
+              <select
+                className="input-field"
+                value={entryType}
+                onChange={(e) => setEntryType(e.target.value as 'payment' | 'waiver')}
+              >
+                <option value="payment">Payment</option>
+                <option value="waiver">Waiver</option>
+              </select>
+              <input
+                className="input-field"
+                type="number"
+                min="0"
+                step="0.01"
+                placeholder={`Amount (max ${formatMoney(selectedBalance)})`}
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+              />
+              <input
+                className="input-field"
+                placeholder={entryType === 'waiver' ? 'Reason for waiver *' : 'Note (e.g. cash, card)'}
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+              />
+              <button className="action-button" onClick={handleRecord}>
+                Record {entryType === 'payment' ? 'Payment' : 'Waiver'}
+              </button>
+            </>
+          )}
+        </div>
+      )}
+
+      <h4 className="subsection-title">Outstanding Balances ({balances.length})</h4>
+      {balances.length === 0 ? (
+        <p className="empty-message">No outstanding fines! 🎉</p>
+      ) : (
+        <div className="overdue-list">
+          {balances.map((balance) => (
+            <div key={balance.user_id} className="overdue-card">
+              <div className="overdue-info">
+                <p><strong>{balance.user_email}</strong></p>
+                <p className="overdue-days">Owes {formatMoney(balance.balance)}</p>
+                <p>Last activity: {new Date(balance.last_activity).toLocaleDateString()}</p>
+              </div>
+              <div className="card-actions">
+                <button className="action-button" onClick={() => selectPatron({ id: balance.user_id, email: balance.user_email })}>
+                  Open Ledger
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
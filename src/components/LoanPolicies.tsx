@@ -0,0 +1,210 @@
+import { useState, useEffect } from 'react'
+import {
+  loadLoanPolicies,
+  saveLoanPolicy,
+  deleteLoanPolicy,
+  defaultLoanPolicyInput,
+  type LoanPolicy,
+  type LoanPolicyInput,
+  type PatronRole
+} from '../lib/loanPolicy'
+
+// Number fields shown in the table and the edit form, in display order
+const numberFields: { key: keyof LoanPolicyInput; label: string; step?: string }[] = [
+  { key: 'loan_days', label: 'Loan days' },
+  { key: 'max_loans', label: 'Max loans' },
+  { key: 'renewal_days', label: 'Renewal days' },
+  { key: 'max_renewals', label: 'Max renewals' },
+  { key: 'fine_per_day', label: 'Fine / day', step: '0.01' },
+  { key: 'max_fine', label: 'Max fine', step: '0.01' },
+  { key: 'fine_block_threshold', label: 'Block above', step: '0.01' },
+  { key: 'due_soon_days', label: 'Reminder days' },
+  { key: 'hold_pickup_days', label: 'Hold pickup days' }
+]
+
+const nullableFields: (keyof LoanPolicyInput)[] = ['max_loans', 'fine_block_threshold']
+
+// New policies start from the built-in defaults
+const emptyForm: LoanPolicyInput = defaultLoanPolicyInput
+
+function isDefaultPolicy(policy: LoanPolicy) {
+  return policy.category === null && policy.role === null
+}
+
+export function LoanPolicies() {
+  const [policies, setPolicies] = useState<LoanPolicy[]>([])
+  const [loading, setLoading] = useState(true)
+  const [editingId, setEditingId] = useState<number | null>(null)
+  const [showForm, setShowForm] = useState(false)
+  const [form, setForm] = useState<LoanPolicyInput>(emptyForm)
+
+  useEffect(() => {
+    loadPolicies()
+  }, [])
+
+  const loadPolicies = async () => {
+    setPolicies(await loadLoanPolicies())
+    setLoading(false)
+  }
+
+  const startEdit = (policy: LoanPolicy) => {
+    const { id, ...fields } = policy
+    setEditingId(id)
+    setForm(fields)
+    setShowForm(true)
+  }
+
+  const startAdd = () => {
+    setEditingId(null)
+    setForm(emptyForm)
+    setShowForm(!showForm)
+  }
+
+  const handleSave = async () => {
+    const error = await saveLoanPolicy(
+      { ...form, category: form.category?.trim() || null },
+      editingId ?? undefined
+    )
+
+    if (error) {
+      alert('Error saving policy: ' + error)
+      return
+    }
+
+    setShowForm(false)
+    setEditingId(null)
+    loadPolicies()
+  }
+
+  const handleDelete = async (policy: LoanPolicy) => {
+    if (!confirm(`Delete the policy for ${policy.category || 'all categories'} / ${policy.role || 'all roles'}?`)) {
+      return
+    }
+
+    const error = await deleteLoanPolicy(policy.id)
+    if (error) {
+      alert('Error deleting policy: ' + error)
+      return
+    }
+
+    loadPolicies()
+  }
+
+  const updateNumber = (key: keyof LoanPolicyInput, value: string) => {
+    // Max loans and the fine block may be left blank for "no limit"; everything else is required
+    const parsed = value === '' ? (nullableFields.includes(key) ? null : 0) : Number(value)
+    setForm({ ...form, [key]: parsed })
+  }
+
+  if (loading) {
+    return <p className="empty-message">Loading policies...</p>
+  }
+
+  return (
+    <div>
+      <div className="section-header">
+        <h3 className="section-title">Loan Policies</h3>
+        <button className="action-button" onClick={startAdd}>
+          {showForm && editingId === null ? 'Cancel' : '+ Add Policy'}
+        </button>
+      </div>
+      <p className="search-hint">
+        The most specific policy applies: category and role first, then category, then role, then the default.
+        Max loans on a category policy limits loans within that category; the fine block is read from the
+        policy without a category.
+      </p>
+
+      {showForm && (
+        <div className="add-book-form">
+          <input
+            className="input-field"
+            placeholder="Category (blank = all categories)"
+            value={form.category || ''}
+            onChange={(e) => setForm({ ...form, category: e.target.value })}
+          />
+          <select
+            className="input-field"
+            value={form.role || ''}
+            onChange={(e) => setForm({ ...form, role: (e.target.value || null) as PatronRole | null })}
+          >
+            <option value="">All roles</option>
+            <option value="student">Students</option>
+            <option value="librarian">Librarians</option>
+          </select>
+          {numberFields.map(field => (
+            <label key={field.key} className="policy-field">
+              {field.label}
+              <input
+                className="input-field"
+                type="number"
+                min="0"
+                step={field.step || '1'}
+                placeholder={nullableFields.includes(field.key) ? 'No limit' : ''}
+                value={form[field.key] === null ? '' : String(form[field.key])}
+                onChange={(e) => updateNumber(field.key, e.target.value)}
+              />
+            </label>
+          ))}
+          <label className="policy-field">
+            <input
+              type="checkbox"
+              checked={form.block_renewal_when_holds}
+              onChange={(e) => setForm({ ...form, block_renewal_when_holds: e.target.checked })}
+            />
+            No renewal while holds are waiting
+          </label>
+          <label className="policy-field">
+            <input
+              type="checkbox"
+              checked={form.block_renewal_when_overdue}
+              onChange={(e) => setForm({ ...form, block_renewal_when_overdue: e.target.checked })}
+            />
+            No renewal once overdue
+          </label>
+          <button className="action-button" onClick={handleSave}>
+            {editingId === null ? 'Add Policy' : 'Save Changes'}
+          </button>
+          {editingId !== null && (
+            <button className="action-button return-button" onClick={() => setShowForm(false)}>
+              Cancel
+            </button>
+          )}
+        </div>
+      )}
+
+      <div className="copies-panel">
+        <table className="copies-table">
+          <thead>
+            <tr>
+              <th>Category</th>
+              <th>Role</th>
+              {numberFields.map(field => (
+                <th key={field.key}>{field.label}</th>
+              ))}
+              <th></th>
+            </tr>
+          </thead>
+          <tbody>
+            {policies.map(policy => (
+              <tr key={policy.id}>
+                <td>{policy.category || <em>All</em>}</td>
+                <td>{policy.role || <em>All</em>}</td>
+                {numberFields.map(field => (
+                  <td key={field.key}>{policy[field.key] === null ? '∞' : String(policy[field.key])}</td>
+                ))}
+                <td className="card-actions">
+                  <button className="action-button" onClick={() => startEdit(policy)}>Edit</button>
+                  {!isDefaultPolicy(policy) && (
+                    <button className="action-button return-button" onClick={() => handleDelete(policy)}>
+                      Delete
+                    </button>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,157 @@
+import { useState, useEffect } from 'react'
+import {
+  loadActiveBlocks,
+  loadBorrowingBlocks,
+  blockPatron,
+  unblockPatron,
+  describeBorrowingBlock,
+  type BorrowingBlock,
+  type PatronBlock
+} from '../lib/patronBlocks'
+import { findPatronByEmail, type Patron } from '../lib/patrons'
+
+export function PatronBlocks() {
+  const [blocks, setBlocks] = useState<PatronBlock[]>([])
+  const [loading, setLoading] = useState(true)
+  const [patronEmail, setPatronEmail] = useState('')
+  const [reason, setReason] = useState('')
+  const [checkedPatron, setCheckedPatron] = useState<Patron | null>(null)
+  const [eligibility, setEligibility] = useState<BorrowingBlock[]>([])
+
+  useEffect(() => {
+    loadBlocks()
+  }, [])
+
+  const loadBlocks = async () => {
+    setBlocks(await loadActiveBlocks())
+    setLoading(false)
+  }
+
+  const checkEligibility = async (patron: Patron) => {
+    setCheckedPatron(patron)
+    setEligibility(await loadBorrowingBlocks(patron.id))
+  }
+
+  // Blocks and eligibility are kept by account, so the typed email must belong to one
+  const lookUpPatron = async (): Promise<Patron | null> => {
+    const email = patronEmail.trim()
+    if (!email) {
+      alert('Please enter the student email')
+      return null
+    }
+
+    const patron = await findPatronByEmail(email)
+    if (!patron) {
+      alert(`No patron is registered with ${email}`)
+    }
+    return patron
+  }
+
+  const handleCheck = async () => {
+    const patron = await lookUpPatron()
+    if (patron) checkEligibility(patron)
+  }
+
+  const handleBlock = async () => {
+    const patron = await lookUpPatron()
+    if (!patron) return
+
+    const result = await blockPatron(patron.id, reason)
+    if (!result.success) {
+      alert('Could not block patron: ' + result.message)
+      return
+    }
+
+    setReason('')
+    loadBlocks()
+    checkEligibility(patron)
+  }
+
+  const handleUnblock = async (block: PatronBlock) => {
+    if (!confirm(`Lift the borrowing block for ${block.user_email}?`)) return
+
+    const result = await unblockPatron(block.user_id)
+    if (!result.success) {
+      alert('Could not lift block: ' + result.message)
+      return
+    }
+
+    loadBlocks()
+    if (checkedPatron?.id === block.user_id) {
+      checkEligibility(checkedPatron)
+    }
+  }
+
+  if (loading) {
+    return <p className="empty-message">Loading blocks...</p>
+  }
+
+  return (
+    <div>
+      <div className="section-header">
+        <h3 className="section-title">Borrowing Eligibility</h3>
+      </div>
+
+      <div className="add-book-form">
+        <input
+          className="input-field"
+          placeholder="Student email *"
+          value={patronEmail}
+          onChange={(e) => setPatronEmail(e.target.value)}
+        />
+        <button className="action-button" onClick={handleCheck}>
+          Check Eligibility
+        </button>
+        <input
+          className="input-field"
+          placeholder="Reason for block"
+          value={reason}
+          onChange={(e) => setReason(e.target.value)}
+        />
+        <button className="action-button return-button" onClick={handleBlock}>
+          🚫 Block Borrowing
+        </button>
+      </div>
+
+      {checkedPatron && (
+        eligibility.length === 0 ? (
+          <p className="hold-ready-text">✅ {checkedPatron.email} can borrow books</p>
+        ) : (
+          <div className="borrowing-blocked">
+            <p><strong>🚫 {checkedPatron.email} cannot borrow right now</strong></p>
+            <ul>
+              {eligibility.map((block) => (
+                <li key={block.code}>{describeBorrowingBlock(block)}</li>
+              ))}
+            </ul>
+          </div>
+        )
+      )}
+
+      <h4 className="subsection-title">Active Blocks ({blocks.length})</h4>
+      {blocks.length === 0 ? (
+        <p className="empty-message">No patrons are blocked</p>
+      ) : (
+        <div className="overdue-list">
+          {blocks.map((block) => (
+            <div key={block.id} className="overdue-card">
+              <div className="overdue-info">
+                <p><strong>{block.user_email}</strong></p>
+                <p>Reason: {block.reason}</p>
+                <p>
+                  Blocked {new Date(block.created_at).toLocaleDateString()}
+                  {block.blocked_by && ` by ${block.blocked_by}`}
+                </p>
+              </div>
+              <div className="card-actions">
+                <button className="action-button" onClick={() => handleUnblock(block)}>
+                  Lift Block
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
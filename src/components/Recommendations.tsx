@@ -1,7 +1,13 @@
 import { useState, useEffect } from 'react'
 import { supabase } from '../supabaseClient'
+import { formatISBN } from '../lib/isbn'
+import { bibliographicColumns, formatAuthors, type BibliographicDetails } from '../lib/bibliography'
+import { BookDetails } from './BookDetails'
 
-interface Book {
+// Fields shown on a recommendation card
+const bookColumns = `id, isbn, name, author, total_copies, available_copies, ${bibliographicColumns}`
+
+interface Book extends BibliographicDetails {
   id: number
   isbn: string
   name: string
@@ -11,24 +17,25 @@ interface Book {
 }
 
 interface RecommendationsProps {
-  userEmail: string
+  userId: string
   onBorrow?: (isbn: string) => void
+  onHold?: (isbn: string) => void
 }
 
-export function Recommendations({ userEmail, onBorrow }: RecommendationsProps) {
+export function Recommendations({ userId, onBorrow, onHold }: RecommendationsProps) {
   const [recommendations, setRecommendations] = useState<Book[]>([])
   const [loading, setLoading] = useState(true)
 
   useEffect(() => {
-    if (userEmail) {
+    if (userId) {
       loadRecommendations()
     } else {
       setLoading(false)
     }
-  }, [userEmail])
+  }, [userId])
 
   const loadRecommendations = async () => {
-    if (!userEmail) {
+    if (!userId) {
       setLoading(false)
       return
     }
@@ -40,7 +47,7 @@ export function Recommendations({ userEmail, onBorrow }: RecommendationsProps) {
       const { data: userBorrows, error: userBorrowsError } = await supabase
         .from('borrowed_books')
         .select('book_isbn')
-        .eq('user_email', userEmail)
+        .eq('user_id', userId)
         .eq('returned', false)
 
       if (userBorrowsError) {
@@ -60,71 +67,20 @@ export function Recommendations({ userEmail, onBorrow }: RecommendationsProps) {
 
       const userBorrowedISBNs = userBorrows.map(b => b.book_isbn)
 
-      // Step 2: Find other users who borrowed the same books (exclude current user)
-      const { data: similarBorrows, error: similarBorrowsError } = await supabase
-        .from('borrowed_books')
-        .select('user_email, book_isbn')
-        .in('book_isbn', userBorrowedISBNs)
-        .neq('user_email', userEmail)
-        .eq('returned', false)
+      // Step 2: Count what other students reading the same books have borrowed
+      // (done in the database, which keeps who borrowed them private; books the
+      // current user already has are left out)
+      const { data: coBorrowed, error: coBorrowedError } = await supabase.rpc('co_borrowed_books')
 
-      if (similarBorrowsError) {
-        console.error('Error fetching similar borrows:', similarBorrowsError)
+      if (coBorrowedError) {
+        console.error('Error fetching co-borrowed books:', coBorrowedError)
         setLoading(false)
         return
       }
 
-      // Handle edge case: no other users borrowed the same books
-      if (!similarBorrows || similarBorrows.length === 0) {
-        // Fallback to placeholder recommendations based on user's borrowed books
-        const placeholderRecs = await loadPlaceholderRecommendations(userBorrowedISBNs)
-        setRecommendations(placeholderRecs)
-        setLoading(false)
-        return
-      }
-
-      // Step 3: Get unique list of those other users' emails
-      const otherUserEmails = Array.from(new Set(
-        similarBorrows.map(b => b.user_email)
-      ))
-
-      // Step 4: Query what OTHER books those users borrowed (exclude books current user already has)
-      const { data: otherUserBorrows, error: otherUserBorrowsError } = await supabase
-        .from('borrowed_books')
-        .select('book_isbn')
-        .in('user_email', otherUserEmails)
-        .eq('returned', false)
-
-      if (otherUserBorrowsError) {
-        console.error('Error fetching other users borrows:', otherUserBorrowsError)
-        setLoading(false)
-        return
-      }
-
-      // Handle edge case: no other books found
-      if (!otherUserBorrows || otherUserBorrows.length === 0) {
-        // Fallback to placeholder recommendations based on user's borrowed books
-        const placeholderRecs = await loadPlaceholderRecommendations(userBorrowedISBNs)
-        setRecommendations(placeholderRecs)
-        setLoading(false)
-        return
-      }
-
-      // Step 5: Count frequency of each ISBN and sort by most popular
-      // Filter out books the user already has
-      const isbnFrequency: Record<string, number> = {}
-      otherUserBorrows.forEach(borrow => {
-        const isbn = borrow.book_isbn
-        // Exclude books current user already has
-        if (!userBorrowedISBNs.includes(isbn)) {
-          isbnFrequency[isbn] = (isbnFrequency[isbn] || 0) + 1
-        }
-      })
-
-      // Step 6: Get top 5 most frequently borrowed ISBNs
-      const sortedISBNs = Object.entries(isbnFrequency)
-        .sort((a, b) => b[1] - a[1])
-        .map(([isbn]) => isbn)
+      // Step 3: Get top 5 most frequently borrowed ISBNs
+      const sortedISBNs = ((coBorrowed || []) as { book_isbn: string; loan_count: number }[])
+        .map(row => row.book_isbn)
         .slice(0, 5)
 
       if (sortedISBNs.length === 0) {
@@ -135,12 +91,13 @@ export function Recommendations({ userEmail, onBorrow }: RecommendationsProps) {
         return
       }
 
-      // Step 7: Fetch book details from books table for those ISBNs
+      // Step 4: Fetch book details from books table for those ISBNs
+      // (checked-out titles are kept so the student can place a hold)
       const { data: recommendedBooks, error: booksError } = await supabase
         .from('books')
-        .select('id, isbn, name, author, total_copies, available_copies')
+        .select(bookColumns)
         .in('isbn', sortedISBNs)
-        .gt('available_copies', 0)
+        .eq('status', 'active')
 
       if (booksError) {
         console.error('Error fetching recommended books:', booksError)
@@ -195,21 +152,22 @@ export function Recommendations({ userEmail, onBorrow }: RecommendationsProps) {
         // Get details of user's borrowed books
         const { data: userBooks, error: userBooksError } = await supabase
           .from('books')
-          .select('category, author')
+          .select('category, authors')
           .in('isbn', userBorrowedISBNs)
           .limit(10)
 
         if (!userBooksError && userBooks && userBooks.length > 0) {
           // Get categories and authors from user's borrowed books
           const categories = Array.from(new Set(userBooks.map(b => b.category).filter(Boolean)))
-          const authors = Array.from(new Set(userBooks.map(b => b.author).filter(Boolean)))
+          const authors = Array.from(new Set(userBooks.flatMap(b => b.authors || [])))
 
           // Try to find books by same category
           if (categories.length > 0) {
             const { data: categoryBooks, error: categoryError } = await supabase
               .from('books')
-              .select('id, isbn, name, author, total_copies, available_copies')
+              .select(bookColumns)
               .in('category', categories)
+              .eq('status', 'active')
               .gt('available_copies', 0)
               .limit(20)
 
@@ -226,8 +184,9 @@ export function Recommendations({ userEmail, onBorrow }: RecommendationsProps) {
           if (authors.length > 0) {
             const { data: authorBooks, error: authorError } = await supabase
               .from('books')
-              .select('id, isbn, name, author, total_copies, available_copies')
-              .in('author', authors)
+              .select(bookColumns)
+              .overlaps('authors', authors)
+              .eq('status', 'active')
               .gt('available_copies', 0)
               .limit(20)
 
@@ -245,7 +204,8 @@ export function Recommendations({ userEmail, onBorrow }: RecommendationsProps) {
       // Final fallback: Get popular books (most available copies or recently borrowed)
       const { data: popularBooks, error: popularError } = await supabase
         .from('books')
-        .select('id, isbn, name, author, total_copies, available_copies')
+        .select(bookColumns)
+        .eq('status', 'active')
         .gt('available_copies', 0)
         .order('available_copies', { ascending: false })
         .limit(20)
@@ -380,15 +340,16 @@ export function Recommendations({ userEmail, onBorrow }: RecommendationsProps) {
                 color: '#64748b',
                 marginBottom: '0.5rem'
               }}>
-                <strong>Author:</strong> {book.author}
+                <strong>{book.authors.length > 1 ? 'Authors' : 'Author'}:</strong> {formatAuthors(book.authors, book.author)}
               </p>
               <p style={{
                 fontSize: '0.875rem',
                 color: '#64748b',
                 marginBottom: '0.5rem'
               }}>
-                <strong>ISBN:</strong> {book.isbn}
+                <strong>ISBN:</strong> {formatISBN(book.isbn)}
               </p>
+              <BookDetails book={book} />
               <p style={{
                 fontSize: '0.875rem',
                 color: book.available_copies > 0 ? '#10b981' : '#ef4444',
@@ -398,9 +359,9 @@ export function Recommendations({ userEmail, onBorrow }: RecommendationsProps) {
                 Available: {book.available_copies > 0 ? `✅ ${book.available_copies} copies` : '❌ Out of stock'}
               </p>
             </div>
-            {onBorrow && book.available_copies > 0 && (
+            {((onBorrow && book.available_copies > 0) || (onHold && book.available_copies <= 0)) && (
               <button
-                onClick={() => onBorrow(book.isbn)}
+                onClick={() => book.available_copies > 0 ? onBorrow?.(book.isbn) : onHold?.(book.isbn)}
                 style={{
                   background: '#2563eb',
                   color: 'white',
@@ -420,7 +381,7 @@ export function Recommendations({ userEmail, onBorrow }: RecommendationsProps) {
                   e.currentTarget.style.background = '#2563eb'
                 }}
               >
-                Borrow
+                {book.available_copies > 0 ? 'Borrow' : 'Place Hold'}
               </button>
             )}
           </div>
@@ -0,0 +1,63 @@
+import { useState } from 'react'
+import { changePassword } from '../lib/account'
+import { minPasswordLength } from '../lib/registration'
+
+interface ResetPasswordFormProps {
+  // The new password is saved; the user is signed in with it
+  onDone: () => void
+}
+
+// Shown after following a password reset link, which signs the user in
+export function ResetPasswordForm({ onDone }: ResetPasswordFormProps) {
+  const [password, setPassword] = useState('')
+  const [confirmPassword, setConfirmPassword] = useState('')
+  const [saving, setSaving] = useState(false)
+
+  const handleSubmit = async () => {
+    if (saving) return
+
+    setSaving(true)
+    try {
+      const result = await changePassword(password, confirmPassword)
+      if (!result.success) {
+        alert(result.message)
+        return
+      }
+      alert('Your password has been changed.')
+      onDone()
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="login-container">
+      <h2 className="login-title">CampusReads Library</h2>
+      <div style={{ width: '100%', maxWidth: '480px' }}>
+        <div className="role-selection">
+          <h3>Choose a New Password</h3>
+        </div>
+        <div className="input-group">
+          <input
+            className="input-field"
+            type="password"
+            placeholder={`New password (at least ${minPasswordLength} characters)`}
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+          />
+          <input
+            className="input-field"
+            type="password"
+            placeholder="Confirm new password"
+            value={confirmPassword}
+            onChange={(e) => setConfirmPassword(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleSubmit()}
+          />
+          <button className="login-button" onClick={handleSubmit} disabled={saving}>
+            {saving ? 'Saving...' : 'Save Password'}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -1,58 +1,154 @@
 import { useState, useEffect } from 'react'
-import { supabase } from '../supabaseClient'
-
-interface Book {
-  id: number
-  isbn: string
-  name: string
-  author: string
-  category: string
-  available_copies: number
-}
+import { formatISBN } from '../lib/isbn'
+import { formatAuthors } from '../lib/bibliography'
+import {
+  readSearchState,
+  searchBooks,
+  searchSortLabels,
+  writeSearchState,
+  type FacetValue,
+  type SearchFacets,
+  type SearchFilters,
+  type SearchResultBook,
+  type SearchSort
+} from '../lib/bookSearch'
+import { BookDetails } from './BookDetails'
 
 interface SearchBooksProps {
   onBorrow: (isbn: string) => void
+  onHold?: (isbn: string) => void
 }
 
-export function SearchBooks({ onBorrow }: SearchBooksProps) {
-  const [searchQuery, setSearchQuery] = useState('')
-  const [books, setBooks] = useState<Book[]>([])
-  const [filteredBooks, setFilteredBooks] = useState<Book[]>([])
+// Wait for a pause in typing before querying the database
+const searchDelayMs = 300
+
+export function SearchBooks({ onBorrow, onHold }: SearchBooksProps) {
+  // A shared link opens with its query, filters and sort already applied
+  const [initialState] = useState(() => readSearchState(window.location.search))
+  const [searchQuery, setSearchQuery] = useState(initialState.query)
+  const [debouncedQuery, setDebouncedQuery] = useState(initialState.query.trim())
+  const [filters, setFilters] = useState<SearchFilters>(initialState.filters)
+  const [sort, setSort] = useState<SearchSort>(initialState.sort)
+  const [books, setBooks] = useState<SearchResultBook[]>([])
+  const [total, setTotal] = useState(0)
+  const [facets, setFacets] = useState<SearchFacets | null>(null)
+  const [fuzzy, setFuzzy] = useState(false)
+  const [didYouMean, setDidYouMean] = useState<string[]>([])
+  const [page, setPage] = useState(0)
+  const [loading, setLoading] = useState(false)
+  const [searchError, setSearchError] = useState('')
 
   useEffect(() => {
-    loadBooks()
-  }, [])
+    const timer = setTimeout(() => {
+      setDebouncedQuery(searchQuery.trim())
+      setPage(0)
+    }, searchDelayMs)
+    return () => clearTimeout(timer)
+  }, [searchQuery])
 
-  const loadBooks = async () => {
-    try {
-      const { data, error } = await supabase
-        .from('books')
-        .select('*')
-
-      if (!error && data) {
-        setBooks(data as Book[])
-        setFilteredBooks(data as Book[])
-      }
-    } catch (error) {
-      console.error('Error loading books:', error)
+  useEffect(() => {
+    const search = writeSearchState(window.location.search, { query: debouncedQuery, filters, sort })
+    window.history.replaceState(null, '', window.location.pathname + search + window.location.hash)
+  }, [debouncedQuery, filters, sort])
+
+  useEffect(() => {
+    // Leaving the search tab takes the search out of the URL
+    return () => {
+      const search = writeSearchState(window.location.search, null)
+      window.history.replaceState(null, '', window.location.pathname + search + window.location.hash)
     }
-  }
+  }, [])
 
   useEffect(() => {
-    if (!searchQuery.trim()) {
-      setFilteredBooks(books)
-      return
+    // Ignore responses for a search the user has already moved past
+    let stale = false
+    setLoading(true)
+    setSearchError('')
+
+    searchBooks(debouncedQuery, { filters, sort, page })
+      .then((results) => {
+        if (stale) return
+        setBooks(previous => page === 0 ? results.books : [...previous, ...results.books])
+        setTotal(results.total)
+        setFacets(results.facets)
+        setFuzzy(results.fuzzy)
+        setDidYouMean(results.didYouMean)
+      })
+      .catch((error) => {
+        if (stale) return
+        console.error('Error searching books:', error)
+        setSearchError('Search is unavailable right now. Please try again.')
+      })
+      .finally(() => {
+        if (!stale) setLoading(false)
+      })
+
+    return () => {
+      stale = true
     }
+  }, [debouncedQuery, filters, sort, page])
+
+  const updateFilters = (changes: SearchFilters) => {
+    setFilters({ ...filters, ...changes })
+    setPage(0)
+  }
+
+  const changeSort = (next: SearchSort) => {
+    setSort(next)
+    setPage(0)
+  }
+
+  // Searching for a suggestion skips the typing delay
+  const searchFor = (query: string) => {
+    setSearchQuery(query)
+    setDebouncedQuery(query)
+    setPage(0)
+  }
 
-    const query = searchQuery.toLowerCase()
-    const filtered = books.filter(book =>
-      book.name.toLowerCase().includes(query) ||
-      book.author.toLowerCase().includes(query) ||
-      book.isbn.includes(query) ||
-      book.category.toLowerCase().includes(query)
-    )
-    setFilteredBooks(filtered)
-  }, [searchQuery, books])
+  const clearFilters = () => {
+    setFilters({})
+    setPage(0)
+  }
+
+  const hasFilters = Object.values(filters).some(value => value !== undefined)
+
+  const renderFacet = (
+    title: string,
+    values: FacetValue[],
+    selected: string | undefined,
+    onSelect: (value: string | undefined) => void
+  ) => (
+    <div className="facet-group">
+      <h4 className="facet-title">{title}</h4>
+      {values.length === 0 && !selected ? (
+        <p className="facet-empty">None</p>
+      ) : (
+        <>
+          {selected && !values.some(facet => facet.value === selected) && (
+            <button className="facet-option active" onClick={() => onSelect(undefined)}>
+              {selected} (0) ✕
+            </button>
+          )}
+          {values.map((facet) => (
+            <button
+              key={facet.value}
+              className={`facet-option ${facet.value === selected ? 'active' : ''}`}
+              onClick={() => onSelect(facet.value === selected ? undefined : facet.value)}
+            >
+              {facet.value} ({facet.count}){facet.value === selected ? ' ✕' : ''}
+            </button>
+          ))}
+        </>
+      )}
+    </div>
+  )
+
+  const yearRangeLabel = (from?: number, to?: number) => {
+    if (from !== undefined && to === from + 9 && from % 10 === 0) return `${from}s`
+    if (from !== undefined && to !== undefined) return `${from}–${to}`
+    if (from !== undefined) return `${from} or later`
+    return `${to} or earlier`
+  }
 
   return (
     <div className="dashboard-section">
@@ -65,34 +161,133 @@ export function SearchBooks({ onBorrow }: SearchBooksProps) {
           value={searchQuery}
           onChange={(e) => setSearchQuery(e.target.value)}
         />
-        <p className="search-hint">💡 Tip: You can search by book name or enter an ISBN directly</p>
+        <p className="search-hint">💡 Tip: You can search by title, author, subject or publisher, or enter an ISBN directly</p>
       </div>
-      <div className="books-list">
-        {filteredBooks.length === 0 ? (
-          <p className="empty-message">No books found</p>
-        ) : (
-          filteredBooks.map((book) => (
-            <div key={book.id} className="book-card">
-              <div className="book-info">
-                <p><strong>{book.name}</strong></p>
-                <p>Author: {book.author}</p>
-                <p>ISBN: {book.isbn}</p>
-                <p>Category: {book.category}</p>
-                <p>Available: {book.available_copies > 0 ? `✅ ${book.available_copies} copies` : '❌ Not available'}</p>
+
+      <div className="search-layout">
+        <aside className="search-facets">
+          <div className="facet-group">
+            <label>
+              <input
+                type="checkbox"
+                checked={filters.available === true}
+                onChange={(e) => updateFilters({ available: e.target.checked || undefined })}
+              />
+              {' '}Available now{facets ? ` (${facets.availability.available})` : ''}
+            </label>
+          </div>
+          {facets && (
+            <>
+              {renderFacet('Category', facets.category, filters.category, (category) => updateFilters({ category }))}
+              {renderFacet('Author', facets.author, filters.author, (author) => updateFilters({ author }))}
+              {renderFacet('Language', facets.language, filters.language, (language) => updateFilters({ language }))}
+              <div className="facet-group">
+                <h4 className="facet-title">Published</h4>
+                {(filters.year_from !== undefined || filters.year_to !== undefined) && (
+                  <button
+                    className="facet-option active"
+                    onClick={() => updateFilters({ year_from: undefined, year_to: undefined })}
+                  >
+                    {yearRangeLabel(filters.year_from, filters.year_to)} ✕
+                  </button>
+                )}
+                {facets.year.length === 0 ? (
+                  <p className="facet-empty">None</p>
+                ) : (
+                  facets.year
+                    .filter(decade => decade.value !== filters.year_from || decade.value + 9 !== filters.year_to)
+                    .map((decade) => (
+                      <button
+                        key={decade.value}
+                        className="facet-option"
+                        onClick={() => updateFilters({ year_from: decade.value, year_to: decade.value + 9 })}
+                      >
+                        {decade.value}s ({decade.count})
+                      </button>
+                    ))
+                )}
               </div>
-              {book.available_copies > 0 && (
-                <button
-                  className="action-button"
-                  onClick={() => onBorrow(book.isbn)}
-                >
-                  Borrow
-                </button>
-              )}
-            </div>
-          ))
-        )}
+            </>
+          )}
+          {hasFilters && (
+            <button className="scanner-button" onClick={clearFilters}>
+              Clear filters
+            </button>
+          )}
+        </aside>
+
+        <div className="search-results">
+          <div className="search-results-header">
+            <span className="search-hint">
+              {!loading && !searchError && (fuzzy
+                ? `No exact matches for "${debouncedQuery}". Showing ${total} similar result(s)`
+                : `${total} result(s)${debouncedQuery ? ` for "${debouncedQuery}"` : ''}`)}
+            </span>
+            <label>
+              Sort by{' '}
+              <select value={sort} onChange={(e) => changeSort(e.target.value as SearchSort)}>
+                {(Object.keys(searchSortLabels) as SearchSort[]).map((option) => (
+                  <option key={option} value={option}>{searchSortLabels[option]}</option>
+                ))}
+              </select>
+            </label>
+          </div>
+          {!searchError && didYouMean.length > 0 && (
+            <p className="did-you-mean">
+              Did you mean{' '}
+              {didYouMean.map((suggestion, index) => (
+                <span key={suggestion}>
+                  {index > 0 && ' or '}
+                  <button className="link-button" onClick={() => searchFor(suggestion)}>
+                    {suggestion}
+                  </button>
+                </span>
+              ))}
+              ?
+            </p>
+          )}
+          <div className="books-list">
+            {searchError ? (
+              <p className="empty-message">{searchError}</p>
+            ) : books.length === 0 ? (
+              <p className="empty-message">{loading ? 'Searching...' : 'No books found'}</p>
+            ) : (
+              books.map((book) => (
+                <div key={book.id} className="book-card">
+                  <div className="book-info">
+                    <p><strong>{book.name}</strong></p>
+                    <p>{book.authors.length > 1 ? 'Authors' : 'Author'}: {formatAuthors(book.authors, book.author)}</p>
+                    <p>ISBN: {formatISBN(book.isbn)}</p>
+                    <p>Category: {book.category || 'General'}</p>
+                    <BookDetails book={book} />
+                    <p>Available: {book.available_copies > 0 ? `✅ ${book.available_copies} copies` : '❌ Not available'}</p>
+                  </div>
+                  {book.available_copies > 0 ? (
+                    <button
+                      className="action-button"
+                      onClick={() => onBorrow(book.isbn)}
+                    >
+                      Borrow
+                    </button>
+                  ) : onHold && (
+                    <button
+                      className="action-button"
+                      onClick={() => onHold(book.isbn)}
+                    >
+                      Place Hold
+                    </button>
+                  )}
+                </div>
+              ))
+            )}
+          </div>
+          {!searchError && books.length > 0 && books.length < total && (
+            <button className="scanner-button" onClick={() => setPage(page + 1)} disabled={loading}>
+              {loading ? 'Loading...' : `Show more (${books.length} of ${total})`}
+            </button>
+          )}
+        </div>
       </div>
     </div>
   )
 }
-
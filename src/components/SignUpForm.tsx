@@ -0,0 +1,93 @@
+import { useState, useEffect } from 'react'
+import { loadRegistrationDomains, minPasswordLength, signUpStudent } from '../lib/registration'
+
+interface SignUpFormProps {
+  // Called once the account exists; needsConfirmation is false when the
+  // project signs new accounts in straight away
+  onRegistered: (email: string, needsConfirmation: boolean) => void
+  onCancel: () => void
+}
+
+// Student self-registration with a campus email address
+export function SignUpForm({ onRegistered, onCancel }: SignUpFormProps) {
+  const [name, setName] = useState('')
+  const [email, setEmail] = useState('')
+  const [password, setPassword] = useState('')
+  const [confirmPassword, setConfirmPassword] = useState('')
+  const [domains, setDomains] = useState<string[]>([])
+  const [submitting, setSubmitting] = useState(false)
+
+  useEffect(() => {
+    loadRegistrationDomains().then(setDomains)
+  }, [])
+
+  const handleSubmit = async () => {
+    if (submitting) return
+
+    setSubmitting(true)
+    try {
+      const result = await signUpStudent({ name, email, password, confirmPassword }, domains)
+      if (!result.success) {
+        alert(result.message)
+        return
+      }
+      onRegistered(email.trim().toLowerCase(), result.needsConfirmation)
+    } catch (error) {
+      console.error('Unexpected sign-up error:', error)
+      alert('An unexpected error occurred')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  return (
+    <>
+      <div className="role-indicator">
+        <span>Create a <strong>👤 Student</strong> account</span>
+        <button className="change-role-button" onClick={onCancel}>
+          Back to login
+        </button>
+      </div>
+      <div className="input-group">
+        <input
+          className="input-field"
+          type="text"
+          placeholder="Full name"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+        />
+        <input
+          className="input-field"
+          type="email"
+          placeholder={domains.length > 0 ? `Campus email (@${domains[0]})` : 'Campus email'}
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+        />
+        <input
+          className="input-field"
+          type="password"
+          placeholder={`Password (at least ${minPasswordLength} characters)`}
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+        />
+        <input
+          className="input-field"
+          type="password"
+          placeholder="Confirm password"
+          value={confirmPassword}
+          onChange={(e) => setConfirmPassword(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleSubmit()}
+        />
+        <button className="login-button" onClick={handleSubmit} disabled={submitting}>
+          {submitting ? 'Creating account...' : 'Create Account'}
+        </button>
+      </div>
+      {domains.length > 0 && (
+        <p className="auth-hint">
+          Registration is open to {domains.map(domain => `@${domain}`).join(', ')} addresses.
+          We'll email you a link to confirm your address before you can log in.
+        </p>
+      )}
+    </>
+  )
+}
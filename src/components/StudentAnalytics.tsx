@@ -11,6 +11,7 @@ interface Book {
 
 interface BorrowedBook {
   id: number
+  user_id: string
   user_email: string
   book_isbn: string
   borrow_date: string
@@ -27,10 +28,10 @@ interface ReadingHistoryItem {
 }
 
 interface StudentAnalyticsProps {
-  userEmail: string
+  userId: string
 }
 
-export function StudentAnalytics({ userEmail }: StudentAnalyticsProps) {
+export function StudentAnalytics({ userId }: StudentAnalyticsProps) {
   const [loading, setLoading] = useState(true)
   const [totalBooks, setTotalBooks] = useState(0)
   const [currentlyReading, setCurrentlyReading] = useState(0)
@@ -39,15 +40,15 @@ export function StudentAnalytics({ userEmail }: StudentAnalyticsProps) {
   const [readingHistory, setReadingHistory] = useState<ReadingHistoryItem[]>([])
 
   useEffect(() => {
-    if (userEmail) {
+    if (userId) {
       loadAnalytics()
     } else {
       setLoading(false)
     }
-  }, [userEmail])
+  }, [userId])
 
   const loadAnalytics = async () => {
-    if (!userEmail) {
+    if (!userId) {
       setLoading(false)
       return
     }
@@ -59,7 +60,7 @@ export function StudentAnalytics({ userEmail }: StudentAnalyticsProps) {
       const { data: allBorrows, error: allBorrowsError } = await supabase
         .from('borrowed_books')
         .select('id')
-        .eq('user_email', userEmail)
+        .eq('user_id', userId)
 
       if (allBorrowsError) {
         console.error('Error fetching total borrows:', allBorrowsError)
@@ -71,7 +72,7 @@ export function StudentAnalytics({ userEmail }: StudentAnalyticsProps) {
       const { data: currentBorrows, error: currentBorrowsError } = await supabase
         .from('borrowed_books')
         .select('id')
-        .eq('user_email', userEmail)
+        .eq('user_id', userId)
         .eq('returned', false)
 
       if (currentBorrowsError) {
@@ -84,7 +85,7 @@ export function StudentAnalytics({ userEmail }: StudentAnalyticsProps) {
       const { data: borrowedWithBooks, error: booksError } = await supabase
         .from('borrowed_books')
         .select('book_isbn')
-        .eq('user_email', userEmail)
+        .eq('user_id', userId)
 
       if (!booksError && borrowedWithBooks && borrowedWithBooks.length > 0) {
         const isbnList = borrowedWithBooks.map(b => b.book_isbn)
@@ -120,7 +121,7 @@ export function StudentAnalytics({ userEmail }: StudentAnalyticsProps) {
       const { data: monthBorrows, error: monthBorrowsError } = await supabase
         .from('borrowed_books')
         .select('id')
-        .eq('user_email', userEmail)
+        .eq('user_id', userId)
         .gte('borrow_date', firstDayOfMonth.toISOString())
         .lte('borrow_date', lastDayOfMonth.toISOString())
 
@@ -134,7 +135,7 @@ export function StudentAnalytics({ userEmail }: StudentAnalyticsProps) {
       const { data: recentBorrows, error: recentBorrowsError } = await supabase
         .from('borrowed_books')
         .select('book_isbn, borrow_date, due_date, returned')
-        .eq('user_email', userEmail)
+        .eq('user_id', userId)
         .order('borrow_date', { ascending: false })
         .limit(5)
 
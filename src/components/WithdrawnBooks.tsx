@@ -0,0 +1,87 @@
+import { useState, useEffect } from 'react'
+import { loadWithdrawnBooks, restoreBook, type WithdrawnBook } from '../lib/bookRecords'
+import { formatISBN } from '../lib/isbn'
+
+interface WithdrawnBooksProps {
+  // Called after a restore so the inventory and stats can refresh
+  onRestored: () => void
+}
+
+export function WithdrawnBooks({ onRestored }: WithdrawnBooksProps) {
+  const [books, setBooks] = useState<WithdrawnBook[]>([])
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    loadBooks()
+  }, [])
+
+  const loadBooks = async () => {
+    setBooks(await loadWithdrawnBooks())
+    setLoading(false)
+  }
+
+  const handleRestore = async (book: WithdrawnBook) => {
+    if (!confirm(`Restore "${book.name}" to the collection? It will show up in search and can be borrowed again.`)) {
+      return
+    }
+
+    const result = await restoreBook(book.isbn)
+    if (!result.success) {
+      alert('Error restoring book: ' + result.message)
+      return
+    }
+
+    loadBooks()
+    onRestored()
+  }
+
+  if (loading) {
+    return <p className="empty-message">Loading withdrawn items...</p>
+  }
+
+  return (
+    <div className="add-book-form import-panel">
+      <h4 className="subsection-title">🗄️ Withdrawn Items ({books.length})</h4>
+      {books.length === 0 ? (
+        <p className="search-hint">No withdrawn books.</p>
+      ) : (
+        <div className="copies-panel">
+          <table className="copies-table">
+            <thead>
+              <tr>
+                <th>Title</th>
+                <th>ISBN</th>
+                <th>Copies</th>
+                <th>Withdrawn</th>
+                <th>Reason</th>
+                <th></th>
+              </tr>
+            </thead>
+            <tbody>
+              {books.map((book) => (
+                <tr key={book.id}>
+                  <td>
+                    <strong>{book.name}</strong>
+                    <div className="search-hint">{book.author}</div>
+                  </td>
+                  <td>{formatISBN(book.isbn)}</td>
+                  <td>{book.total_copies}</td>
+                  <td>
+                    {new Date(book.withdrawn_at).toLocaleDateString()}
+                    {book.withdrawn_by && <div className="search-hint">by {book.withdrawn_by}</div>}
+                  </td>
+                  <td>{book.withdrawal_reason}</td>
+                  <td>
+                    <button className="action-button" onClick={() => handleRestore(book)}>
+                      ↩️ Restore
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
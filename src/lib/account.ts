@@ -0,0 +1,117 @@
+// Account settings and password recovery for the signed-in user
+// Profile changes go through update_profile (see setup_supabase.sql), which
+// only touches the caller's own row; passwords are handled by Supabase Auth.
+// A reset link signs the user in and brings them back to the app, where
+// Login shows the form for choosing a new password
+
+import { supabase } from '../supabaseClient'
+import { checkNewPassword } from './registration'
+import type { PatronRole } from './loanPolicy'
+
+export interface AccountProfile {
+  id: string
+  email: string
+  role: PatronRole
+  name: string | null
+  // Due soon and overdue reminders
+  email_due_reminders: boolean
+  // "Your hold is ready" emails
+  email_hold_notices: boolean
+}
+
+export type ProfileUpdate = Pick<AccountProfile, 'name' | 'email_due_reminders' | 'email_hold_notices'>
+
+export type ProfileErrorCode = 'name_too_long' | 'profile_not_found'
+
+export type AccountResult =
+  | { success: true }
+  | { success: false; error: ProfileErrorCode | 'weak_password' | 'password_mismatch' | 'request_failed'; message: string }
+
+type ProfileResponse =
+  | ({ success: true } & ProfileUpdate)
+  | { success: false; error: ProfileErrorCode }
+
+const errorMessages: Record<ProfileErrorCode, string> = {
+  name_too_long: 'Display names can be at most 100 characters long.',
+  profile_not_found: 'Your profile could not be found. Please log in again.'
+}
+
+export async function loadProfile(): Promise<AccountProfile | null> {
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) return null
+
+  const { data, error } = await supabase
+    .from('users')
+    .select('id, email, role, name, email_due_reminders, email_hold_notices')
+    .eq('id', user.id)
+    .maybeSingle()
+
+  if (error) {
+    console.error('Error loading profile:', error)
+    return null
+  }
+
+  return data as AccountProfile | null
+}
+
+export async function updateProfile(update: ProfileUpdate): Promise<AccountResult> {
+  const { data, error } = await supabase.rpc('update_profile', {
+    p_name: update.name ?? '',
+    p_email_due_reminders: update.email_due_reminders,
+    p_email_hold_notices: update.email_hold_notices
+  })
+
+  if (error) {
+    console.error('update_profile error:', error)
+    return { success: false, error: 'request_failed', message: error.message }
+  }
+
+  const response = data as ProfileResponse
+  if (!response.success) {
+    return { success: false, error: response.error, message: errorMessages[response.error] }
+  }
+
+  // Shown in the dashboard header until the next login
+  localStorage.setItem('userName', response.name ?? '')
+  return { success: true }
+}
+
+// Sets a new password for the signed-in user, either from the settings page
+// or after following a reset link
+export async function changePassword(password: string, confirmPassword: string): Promise<AccountResult> {
+  const passwordProblem = checkNewPassword(password, confirmPassword)
+  if (passwordProblem) {
+    return { success: false, ...passwordProblem }
+  }
+
+  const { error } = await supabase.auth.updateUser({ password })
+
+  if (error) {
+    console.error('Error changing password:', error)
+    if (error.code === 'weak_password' || error.code === 'same_password') {
+      return { success: false, error: 'weak_password', message: error.message }
+    }
+    return { success: false, error: 'request_failed', message: error.message }
+  }
+
+  return { success: true }
+}
+
+// Emails a recovery link. Supabase answers the same way whether or not the
+// address has an account, so the result only says whether the request went out
+export async function requestPasswordReset(email: string): Promise<boolean> {
+  const { error } = await supabase.auth.resetPasswordForEmail(email.trim().toLowerCase(), {
+    redirectTo: window.location.origin
+  })
+
+  if (error) {
+    console.error('Error requesting password reset:', error)
+    return false
+  }
+  return true
+}
+
+// The app was opened from a recovery link (Supabase puts type=recovery in the URL)
+export function isPasswordRecoveryLink(): boolean {
+  return new URLSearchParams(window.location.hash.slice(1)).get('type') === 'recovery'
+}
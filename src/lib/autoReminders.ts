@@ -2,16 +2,24 @@
 // This can be called periodically to check for due/overdue books
 
 import { supabase } from '../supabaseClient'
-import { emailService } from './emailService'
+import { emailService, greetingName } from './emailService'
+import { loadLoanPolicies, maxDueSoonDays, resolveLoanPolicy, type PatronRole } from './loanPolicy'
 
 interface ReminderBook {
   id: number
+  user_id: string
+  // Email at the time of the loan; reminders go to the account's current address
   user_email: string
   book_isbn: string
   due_date: string
-  book_name?: string
+  borrower: { email: string; name: string | null; role: PatronRole; email_due_reminders: boolean } | null
 }
 
+// Loans with the borrower's account, joined through borrowed_books.user_id.
+// Each loan has one borrower, so PostgREST returns it as an object, not the
+// array the untyped client assumes
+const reminderColumns = 'id, user_id, user_email, book_isbn, due_date, borrower:users(email, name, role, email_due_reminders)'
+
 export async function checkAndSendReminders(): Promise<{
   overdueCount: number
   dueSoonCount: number
@@ -20,13 +28,16 @@ export async function checkAndSendReminders(): Promise<{
 }> {
   try {
     const today = new Date()
-    const fiveDaysFromNow = new Date()
-    fiveDaysFromNow.setDate(today.getDate() + 5)
+    // Each category's policy sets its own reminder window, so fetch loans due
+    // within the widest window and narrow them down once categories are known
+    const policies = await loadLoanPolicies()
+    const windowEnd = new Date()
+    windowEnd.setDate(today.getDate() + maxDueSoonDays(policies))
 
     // Get overdue books
     const { data: overdueData } = await supabase
       .from('borrowed_books')
-      .select('*')
+      .select(reminderColumns)
       .eq('returned', false)
       .lt('due_date', today.toISOString())
       .order('due_date')
@@ -34,10 +45,10 @@ export async function checkAndSendReminders(): Promise<{
     // Get due soon books
     const { data: dueSoonData } = await supabase
       .from('borrowed_books')
-      .select('*')
+      .select(reminderColumns)
       .eq('returned', false)
       .gte('due_date', today.toISOString())
-      .lte('due_date', fiveDaysFromNow.toISOString())
+      .lte('due_date', windowEnd.toISOString())
       .order('due_date')
 
     // Get book names
@@ -48,22 +59,28 @@ export async function checkAndSendReminders(): Promise<{
 
     const { data: booksData } = await supabase
       .from('books')
-      .select('isbn, name')
+      .select('isbn, name, category')
       .in('isbn', [...new Set(allIsbns)])
 
     const booksMap = new Map<string, string>()
+    const categoryMap = new Map<string, string | null>()
     booksData?.forEach(book => {
       booksMap.set(book.isbn, book.name)
+      categoryMap.set(book.isbn, book.category)
     })
 
     // Prepare reminders
-    const overdueReminders = (overdueData || []).map(record => {
+    // Patrons who turned due date emails off in their account settings are skipped
+    const wantsReminder = (record: ReminderBook) => record.borrower?.email_due_reminders !== false
+
+    const overdueReminders = ((overdueData || []) as unknown as ReminderBook[]).filter(wantsReminder).map(record => {
       const daysOverdue = Math.floor(
         (today.getTime() - new Date(record.due_date).getTime()) / (1000 * 60 * 60 * 24)
       )
+      const studentEmail = record.borrower?.email || record.user_email
       return {
-        studentEmail: record.user_email,
-        studentName: record.user_email.split('@')[0],
+        studentEmail,
+        studentName: greetingName(record.borrower?.name, studentEmail),
         bookTitle: booksMap.get(record.book_isbn) || record.book_isbn,
         dueDate: record.due_date,
         daysLeft: -daysOverdue,
@@ -71,17 +88,20 @@ export async function checkAndSendReminders(): Promise<{
       }
     })
 
-    const dueSoonReminders = (dueSoonData || []).map(record => {
+    const dueSoonReminders = ((dueSoonData || []) as unknown as ReminderBook[]).filter(wantsReminder).flatMap(record => {
       const dueDate = new Date(record.due_date)
       const daysLeft = Math.ceil((dueDate.getTime() - today.getTime()) / (1000 * 60 * 60 * 24))
-      return {
-        studentEmail: record.user_email,
-        studentName: record.user_email.split('@')[0],
+      const policy = resolveLoanPolicy(policies, categoryMap.get(record.book_isbn), record.borrower?.role ?? 'student')
+      if (daysLeft > policy.due_soon_days) return []
+      const studentEmail = record.borrower?.email || record.user_email
+      return [{
+        studentEmail,
+        studentName: greetingName(record.borrower?.name, studentEmail),
         bookTitle: booksMap.get(record.book_isbn) || record.book_isbn,
         dueDate: record.due_date,
         daysLeft,
         isOverdue: false
-      }
+      }]
     })
 
     const allReminders = [...overdueReminders, ...dueSoonReminders]
@@ -0,0 +1,93 @@
+// Barcode decoder for the camera scanner
+// Uses the browser's native BarcodeDetector when available (Chrome, Android)
+// and falls back to ZXing decoding of captured video frames everywhere else
+
+// BarcodeDetector is not part of TypeScript's DOM typings yet
+interface DetectedBarcode {
+  rawValue: string
+  format: string
+}
+
+interface NativeBarcodeDetector {
+  detect(source: CanvasImageSource): Promise<DetectedBarcode[]>
+}
+
+interface NativeBarcodeDetectorConstructor {
+  new (options?: { formats: string[] }): NativeBarcodeDetector
+  getSupportedFormats(): Promise<string[]>
+}
+
+export interface BarcodeDecoder {
+  // Which engine is doing the decoding (shown in the scanner UI)
+  engine: 'native' | 'zxing'
+  decode(frame: HTMLCanvasElement): Promise<string | null>
+}
+
+async function createNativeDecoder(): Promise<BarcodeDecoder | null> {
+  const Detector = (window as unknown as { BarcodeDetector?: NativeBarcodeDetectorConstructor }).BarcodeDetector
+  if (!Detector) return null
+
+  try {
+    const formats = await Detector.getSupportedFormats()
+    if (!formats.includes('ean_13')) return null
+
+    const detector = new Detector({ formats: ['ean_13'] })
+    return {
+      engine: 'native',
+      decode: async (frame) => {
+        const results = await detector.detect(frame)
+        return results.length > 0 ? results[0].rawValue : null
+      }
+    }
+  } catch (error) {
+    console.error('Native barcode detector unavailable:', error)
+    return null
+  }
+}
+
+async function createZxingDecoder(): Promise<BarcodeDecoder> {
+  // Dynamic import keeps ZXing out of the main bundle for browsers that don't need it
+  const {
+    BarcodeFormat,
+    BinaryBitmap,
+    DecodeHintType,
+    HybridBinarizer,
+    MultiFormatReader,
+    RGBLuminanceSource
+  } = await import('@zxing/library')
+
+  const reader = new MultiFormatReader()
+  const hints = new Map()
+  hints.set(DecodeHintType.POSSIBLE_FORMATS, [BarcodeFormat.EAN_13])
+  hints.set(DecodeHintType.TRY_HARDER, true)
+  reader.setHints(hints)
+
+  return {
+    engine: 'zxing',
+    decode: async (frame) => {
+      const context = frame.getContext('2d', { willReadFrequently: true })
+      if (!context) return null
+
+      const { data, width, height } = context.getImageData(0, 0, frame.width, frame.height)
+
+      // Convert RGBA pixels to a single luminance channel
+      const luminances = new Uint8ClampedArray(width * height)
+      for (let i = 0; i < luminances.length; i++) {
+        const offset = i * 4
+        luminances[i] = (data[offset] * 299 + data[offset + 1] * 587 + data[offset + 2] * 114) / 1000
+      }
+
+      try {
+        const bitmap = new BinaryBitmap(new HybridBinarizer(new RGBLuminanceSource(luminances, width, height)))
+        return reader.decodeWithState(bitmap).getText()
+      } catch {
+        // ZXing throws NotFoundException when the frame has no readable barcode
+        return null
+      }
+    }
+  }
+}
+
+export async function createBarcodeDecoder(): Promise<BarcodeDecoder> {
+  return (await createNativeDecoder()) || createZxingDecoder()
+}
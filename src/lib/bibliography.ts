@@ -0,0 +1,115 @@
+// Bibliographic details of a title beyond name, author and category
+// Several authors share the author column separated by semicolons; the
+// database parses them into the authors list (see setup_supabase.sql)
+
+export interface BibliographicDetails {
+  authors: string[]
+  publisher: string | null
+  edition: string | null
+  publication_year: number | null
+  language: string | null
+  page_count: number | null
+  subjects: string[]
+  description: string | null
+  cover_url: string | null
+}
+
+// The details as typed into the add/edit forms (lists are "; " separated)
+export interface BibliographicForm {
+  publisher: string
+  edition: string
+  publication_year: string
+  language: string
+  page_count: string
+  subjects: string
+  description: string
+  cover_url: string
+}
+
+// Columns to add to a books select() when the details are shown
+export const bibliographicColumns = 'authors, publisher, edition, publication_year, language, page_count, subjects, description, cover_url'
+
+export const emptyBibliographicForm: BibliographicForm = {
+  publisher: '',
+  edition: '',
+  publication_year: '',
+  language: '',
+  page_count: '',
+  subjects: '',
+  description: '',
+  cover_url: ''
+}
+
+// "a; b;; a" -> ["a", "b"]
+export function splitList(text: string): string[] {
+  const items = text.split(/[;\n]/).map(item => item.trim()).filter(Boolean)
+  return [...new Set(items)]
+}
+
+export function joinList(items: string[]): string {
+  return items.join('; ')
+}
+
+// "Cormen, Thomas H.; Leiserson, Charles E." -> "Cormen, Thomas H. and Leiserson, Charles E."
+export function formatAuthors(authors: string[], fallback = ''): string {
+  if (authors.length === 0) return fallback
+  if (authors.length === 1) return authors[0]
+  return `${authors.slice(0, -1).join(', ')} and ${authors[authors.length - 1]}`
+}
+
+// "3rd ed. · MIT Press, 2009 · 1,312 pages · English"
+export function formatPublication(book: Partial<BibliographicDetails>): string {
+  const imprint = [book.publisher, book.publication_year].filter(Boolean).join(', ')
+  return [
+    book.edition && (/ed(ition|\.)?$/i.test(book.edition) ? book.edition : `${book.edition} ed.`),
+    imprint,
+    book.page_count && `${book.page_count.toLocaleString()} pages`,
+    book.language
+  ].filter(Boolean).join(' · ')
+}
+
+export function toBibliographicForm(book: Partial<BibliographicDetails>): BibliographicForm {
+  return {
+    publisher: book.publisher || '',
+    edition: book.edition || '',
+    publication_year: book.publication_year ? String(book.publication_year) : '',
+    language: book.language || '',
+    page_count: book.page_count ? String(book.page_count) : '',
+    subjects: joinList(book.subjects || []),
+    description: book.description || '',
+    cover_url: book.cover_url || ''
+  }
+}
+
+// Form values as stored in the books table (blank -> null); the database checks the numbers
+export function fromBibliographicForm(form: BibliographicForm): Omit<BibliographicDetails, 'authors'> {
+  const text = (value: string) => value.trim() || null
+  const number = (value: string) => (value.trim() ? Number(value) : null)
+  return {
+    publisher: text(form.publisher),
+    edition: text(form.edition),
+    publication_year: number(form.publication_year),
+    language: text(form.language),
+    page_count: number(form.page_count),
+    subjects: splitList(form.subjects),
+    description: text(form.description),
+    cover_url: text(form.cover_url)
+  }
+}
+
+// Checked before saving so a typo is reported instead of silently cleared
+export function validateBibliographicForm(form: BibliographicForm): string | null {
+  const year = form.publication_year.trim()
+  if (year && !/^\d{1,4}$/.test(year)) {
+    return 'Publication year must be a year such as 2009.'
+  }
+  const pages = form.page_count.trim()
+  if (pages && (!/^\d{1,6}$/.test(pages) || Number(pages) === 0)) {
+    return 'Page count must be a whole number.'
+  }
+  const cover = form.cover_url.trim()
+  if (cover && !/^(https?:\/\/|\/)/.test(cover)) {
+    return 'Cover image must be a web address (https://...) or a path on this site (/covers/...).'
+  }
+  return null
+}
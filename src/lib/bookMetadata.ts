@@ -0,0 +1,62 @@
+// Book metadata lookup by ISBN for the add-book form
+// Providers are tried in order until one knows the ISBN. The local dataset
+// provider is always available and works offline; online catalogues can be
+// added with registerMetadataProvider()
+
+import { canonicalizeISBN } from './isbn'
+import type { BibliographicDetails } from './bibliography'
+import { localDatasetProvider } from './localMetadataProvider'
+
+export interface BookMetadata extends Partial<Omit<BibliographicDetails, 'authors'>> {
+  // Canonical ISBN-13
+  isbn: string
+  name?: string
+  authors?: string[]
+  category?: string
+}
+
+export interface MetadataProvider {
+  id: string
+  label: string
+  // Resolves to null when the provider does not know the ISBN
+  lookup: (isbn: string) => Promise<BookMetadata | null>
+}
+
+export interface MetadataLookupResult {
+  metadata: BookMetadata
+  provider: MetadataProvider
+}
+
+const providers: MetadataProvider[] = [localDatasetProvider]
+
+// Later providers are only asked when the earlier ones have no record
+export function registerMetadataProvider(provider: MetadataProvider, { first = false } = {}) {
+  const existing = providers.findIndex(p => p.id === provider.id)
+  if (existing >= 0) providers.splice(existing, 1)
+  if (first) {
+    providers.unshift(provider)
+  } else {
+    providers.push(provider)
+  }
+}
+
+export function metadataProviders(): readonly MetadataProvider[] {
+  return providers
+}
+
+export async function lookupBookMetadata(input: string): Promise<MetadataLookupResult | null> {
+  const isbn = canonicalizeISBN(input)
+  if (!isbn) return null
+
+  for (const provider of providers) {
+    try {
+      const metadata = await provider.lookup(isbn)
+      if (metadata) return { metadata, provider }
+    } catch (error) {
+      // One unreachable provider must not stop the others
+      console.error(`Metadata lookup failed (${provider.label}):`, error)
+    }
+  }
+
+  return null
+}
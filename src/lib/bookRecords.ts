@@ -0,0 +1,181 @@
+// Editing, withdrawing and restoring book records
+// update_book (see setup_supabase.sql) applies the edit, adds or withdraws
+// copies to match a new total, and writes one book_changes row per field.
+// Titles are never deleted: withdraw_book hides them from search and
+// borrowing while keeping their copies and loan history
+
+import { supabase } from '../supabaseClient'
+import type { BibliographicDetails } from './bibliography'
+
+export type BookUpdateErrorCode =
+  | 'not_found'
+  | 'invalid_isbn'
+  | 'isbn_taken'
+  | 'missing_field'
+  | 'invalid_copies'
+  | 'invalid_field'
+  | 'copies_in_use'
+  | 'not_allowed'
+export type WithdrawErrorCode = 'not_found' | 'already_withdrawn' | 'copies_on_loan' | 'not_withdrawn' | 'not_allowed'
+
+// Several authors go in author separated by semicolons; the authors list follows from it
+export interface BookUpdate extends Partial<Omit<BibliographicDetails, 'authors'>> {
+  isbn?: string
+  name?: string
+  author?: string
+  category?: string
+  total_copies?: number
+}
+
+export type BookChangeField = keyof BookUpdate | 'status'
+
+export interface BookChange {
+  id: number
+  book_id: number
+  field: BookChangeField
+  old_value: string | null
+  new_value: string | null
+  changed_by: string | null
+  changed_at: string
+}
+
+export type BookUpdateResult =
+  | { success: true; isbn: string; changes: number }
+  | { success: false; error: BookUpdateErrorCode | 'request_failed'; message: string }
+
+export interface WithdrawnBook {
+  id: number
+  isbn: string
+  name: string
+  author: string
+  category: string | null
+  total_copies: number
+  withdrawn_at: string
+  withdrawn_by: string | null
+  withdrawal_reason: string | null
+}
+
+export type WithdrawResult =
+  | { success: true; bookName: string; cancelledHolds: number }
+  | { success: false; error: WithdrawErrorCode | 'request_failed'; message: string }
+
+export const bookFieldLabels: Record<BookChangeField, string> = {
+  isbn: 'ISBN',
+  name: 'Title',
+  author: 'Author',
+  category: 'Category',
+  publisher: 'Publisher',
+  edition: 'Edition',
+  publication_year: 'Year',
+  language: 'Language',
+  page_count: 'Pages',
+  subjects: 'Subjects',
+  description: 'Description',
+  cover_url: 'Cover image',
+  total_copies: 'Total copies',
+  status: 'Status'
+}
+
+const errorMessages: Record<BookUpdateErrorCode, string> = {
+  not_found: 'Book not found. It may have been deleted.',
+  invalid_isbn: 'That is not a valid ISBN-10 or ISBN-13.',
+  isbn_taken: 'Another book in the catalog already has that ISBN.',
+  missing_field: 'Title and author are required.',
+  invalid_copies: 'Total copies must be a whole number of at least 1.',
+  invalid_field: 'A field has an invalid value.',
+  copies_in_use: 'Copies on loan or on the hold shelf cannot be removed.',
+  not_allowed: 'Only librarians can edit books.'
+}
+
+const withdrawErrorMessages: Record<WithdrawErrorCode, string> = {
+  not_found: 'Book not found.',
+  already_withdrawn: 'This book has already been withdrawn.',
+  copies_on_loan: 'Copies of this book are still on loan. Check them in before withdrawing the title.',
+  not_withdrawn: 'This book is not withdrawn.',
+  not_allowed: 'Only librarians can withdraw or restore books.'
+}
+
+// The change history records the signed-in librarian as the editor
+export async function updateBook(isbn: string, changes: BookUpdate): Promise<BookUpdateResult> {
+  const { data, error } = await supabase.rpc('update_book', {
+    p_isbn: isbn,
+    p_changes: changes
+  })
+
+  if (error) {
+    console.error('update_book error:', error)
+    return { success: false, error: 'request_failed', message: error.message }
+  }
+
+  if (!data.success) {
+    const code = data.error as BookUpdateErrorCode
+    const message = code === 'copies_in_use'
+      ? `${errorMessages[code]} This title needs at least ${data.min_copies} copies.`
+      : code === 'invalid_field'
+        ? `${bookFieldLabels[data.field as BookChangeField] || data.field} has an invalid value.`
+        : errorMessages[code] || `Request failed: ${code}`
+    return { success: false, error: code, message }
+  }
+
+  return { success: true, isbn: data.isbn, changes: data.changes }
+}
+
+// Newest change first
+export async function loadBookHistory(bookId: number): Promise<BookChange[]> {
+  const { data, error } = await supabase
+    .from('book_changes')
+    .select('*')
+    .eq('book_id', bookId)
+    .order('changed_at', { ascending: false })
+    .order('id', { ascending: false })
+
+  if (error || !data) {
+    if (error) console.error('Error loading book history:', error)
+    return []
+  }
+
+  return data as BookChange[]
+}
+
+async function callWithdrawal(fn: 'withdraw_book' | 'restore_book', params: Record<string, string>): Promise<WithdrawResult> {
+  const { data, error } = await supabase.rpc(fn, params)
+
+  if (error) {
+    console.error(`${fn} error:`, error)
+    return { success: false, error: 'request_failed', message: error.message }
+  }
+
+  if (!data.success) {
+    const code = data.error as WithdrawErrorCode
+    const message = code === 'copies_on_loan'
+      ? `${data.on_loan} cop${data.on_loan === 1 ? 'y is' : 'ies are'} still on loan. Check them in before withdrawing the title.`
+      : withdrawErrorMessages[code] || `Request failed: ${code}`
+    return { success: false, error: code, message }
+  }
+
+  return { success: true, bookName: data.book_name, cancelledHolds: data.cancelled_holds ?? 0 }
+}
+
+export function withdrawBook(isbn: string, reason: string): Promise<WithdrawResult> {
+  return callWithdrawal('withdraw_book', { p_isbn: isbn, p_reason: reason })
+}
+
+export function restoreBook(isbn: string): Promise<WithdrawResult> {
+  return callWithdrawal('restore_book', { p_isbn: isbn })
+}
+
+// Most recently withdrawn first
+export async function loadWithdrawnBooks(): Promise<WithdrawnBook[]> {
+  const { data, error } = await supabase
+    .from('books')
+    .select('id, isbn, name, author, category, total_copies, withdrawn_at, withdrawn_by, withdrawal_reason')
+    .eq('status', 'withdrawn')
+    .order('withdrawn_at', { ascending: false })
+
+  if (error || !data) {
+    if (error) console.error('Error loading withdrawn books:', error)
+    return []
+  }
+
+  return data as WithdrawnBook[]
+}
@@ -0,0 +1,206 @@
+// Catalog search served by the database
+// search_books (see setup_supabase.sql) ranks active titles by full-text
+// match over title, authors, category, subjects and publisher, looks ISBNs
+// up in canonical form, and returns one page of results with a total count
+// and facet counts for narrowing the search down. Misspelled queries fall
+// back to similar titles and authors, with "did you mean" suggestions
+
+import { supabase } from '../supabaseClient'
+import type { BibliographicDetails } from './bibliography'
+
+export const searchPageSize = 20
+
+export type SearchSort = 'relevance' | 'title' | 'newest' | 'popularity'
+export type SearchErrorCode = 'invalid_sort' | 'invalid_filter'
+
+export const searchSortLabels: Record<SearchSort, string> = {
+  relevance: 'Best match',
+  title: 'Title (A–Z)',
+  newest: 'Newest',
+  popularity: 'Most borrowed'
+}
+
+export interface SearchFilters {
+  category?: string
+  author?: string
+  language?: string
+  // Only titles with a copy on the shelf now
+  available?: boolean
+  year_from?: number
+  year_to?: number
+}
+
+export interface SearchResultBook extends BibliographicDetails {
+  id: number
+  isbn: string
+  name: string
+  author: string
+  category: string | null
+  total_copies: number
+  available_copies: number
+  // Relevance score; 0 for ISBN lookups and when browsing without a query
+  rank: number
+  // Times the title has been borrowed, used for sorting by popularity
+  loan_count: number
+}
+
+export interface FacetValue<T = string> {
+  value: T
+  count: number
+}
+
+// Each facet is counted with every other filter applied but not its own
+export interface SearchFacets {
+  category: FacetValue[]
+  // The 20 most frequent authors
+  author: FacetValue[]
+  language: FacetValue[]
+  // Publication decades; value is the decade's first year
+  year: FacetValue<number>[]
+  availability: { all: number; available: number }
+}
+
+export interface SearchOptions {
+  filters?: SearchFilters
+  sort?: SearchSort
+  // Zero-based page number
+  page?: number
+  pageSize?: number
+}
+
+export interface SearchResults {
+  books: SearchResultBook[]
+  total: number
+  facets: SearchFacets
+  // Nothing matched as typed; the books are the closest spellings
+  fuzzy: boolean
+  // Titles or authors the user may have meant, best first
+  didYouMean: string[]
+  page: number
+  pageSize: number
+}
+
+type SearchResponse =
+  | {
+    success: true
+    total: number
+    books: SearchResultBook[]
+    facets: SearchFacets
+    fuzzy: boolean
+    did_you_mean: string[]
+  }
+  | { success: false; error: SearchErrorCode }
+
+const errorMessages: Record<SearchErrorCode, string> = {
+  invalid_sort: 'Unknown sort order.',
+  invalid_filter: 'A search filter has an invalid value.'
+}
+
+export async function searchBooks(query: string, options: SearchOptions = {}): Promise<SearchResults> {
+  const page = options.page ?? 0
+  const pageSize = options.pageSize ?? searchPageSize
+
+  const { data, error } = await supabase.rpc('search_books', {
+    p_query: query,
+    p_filters: options.filters ?? {},
+    p_sort: options.sort ?? 'relevance',
+    p_limit: pageSize,
+    p_offset: page * pageSize
+  })
+
+  if (error) throw error
+
+  const response = data as SearchResponse
+  if (!response.success) {
+    throw new Error(errorMessages[response.error] ?? 'Search failed.')
+  }
+
+  return {
+    books: response.books,
+    total: response.total,
+    facets: response.facets,
+    fuzzy: response.fuzzy,
+    didYouMean: response.did_you_mean,
+    page,
+    pageSize
+  }
+}
+
+export interface BookSuggestion {
+  isbn: string
+  name: string
+  author: string
+  available_copies: number
+}
+
+// Type-ahead suggestions over titles and authors (see suggest_books)
+export async function suggestBooks(query: string, limit = 8): Promise<BookSuggestion[]> {
+  if (query.trim().length < 2) return []
+
+  const { data, error } = await supabase.rpc('suggest_books', { p_query: query, p_limit: limit })
+
+  if (error || !data) {
+    if (error) console.error('Error loading suggestions:', error)
+    return []
+  }
+
+  return data as BookSuggestion[]
+}
+
+// Search state kept in the page URL so a search can be bookmarked or shared
+export interface SearchState {
+  query: string
+  filters: SearchFilters
+  sort: SearchSort
+}
+
+const textFilters = ['category', 'author', 'language'] as const
+const yearFilters = ['year_from', 'year_to'] as const
+const searchParamKeys = ['q', 'sort', 'available', ...textFilters, ...yearFilters]
+
+export function readSearchState(search: string): SearchState {
+  const params = new URLSearchParams(search)
+  const filters: SearchFilters = {}
+
+  for (const key of textFilters) {
+    const value = params.get(key)?.trim()
+    if (value) filters[key] = value
+  }
+  for (const key of yearFilters) {
+    const value = Number(params.get(key))
+    if (params.get(key) && Number.isInteger(value)) filters[key] = value
+  }
+  if (params.get('available') === '1') filters.available = true
+
+  const sort = params.get('sort') as SearchSort | null
+  return {
+    query: params.get('q') ?? '',
+    filters,
+    sort: sort && Object.hasOwn(searchSortLabels, sort) ? sort : 'relevance'
+  }
+}
+
+// Writes the state over the current URL's search parameters, leaving any
+// parameters that are not part of a search alone
+export function writeSearchState(search: string, state: SearchState | null): string {
+  const params = new URLSearchParams(search)
+  for (const key of searchParamKeys) params.delete(key)
+
+  if (state) {
+    if (state.query.trim()) params.set('q', state.query.trim())
+    for (const key of [...textFilters, ...yearFilters]) {
+      const value = state.filters[key]
+      if (value !== undefined && value !== '') params.set(key, String(value))
+    }
+    if (state.filters.available) params.set('available', '1')
+    if (state.sort !== 'relevance') params.set('sort', state.sort)
+  }
+
+  const result = params.toString()
+  return result ? `?${result}` : ''
+}
+
+export function hasSearchState(search: string): boolean {
+  const params = new URLSearchParams(search)
+  return searchParamKeys.some(key => params.has(key))
+}
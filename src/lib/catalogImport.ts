@@ -0,0 +1,273 @@
+// Bulk catalog import from CSV / TSV and MARC (binary or MARCXML) files
+// Files are parsed and validated in the browser so the librarian can review a
+// row-by-row preview, then sent to public.import_books in batches. The
+// database checks every row again and creates the copies for new titles
+
+import { supabase } from '../supabaseClient'
+import { parseDelimited } from './csv'
+import { detectMarcFormat, marcToBook, parseMarc21, parseMarcXml } from './marc'
+import { canonicalizeISBN } from './isbn'
+import { joinList, splitList } from './bibliography'
+
+export interface ImportBook {
+  isbn: string
+  name: string
+  author: string
+  category: string
+  total_copies: number
+  // Optional bibliographic details; blank values leave an existing title's unchanged
+  subjects: string[]
+  publisher: string
+  publication_year: number | null
+  edition: string
+  language: string
+}
+
+// new: will be added; existing: already in the catalog (skipped or updated);
+// duplicate: the same ISBN appears earlier in the file; invalid: has errors
+export type ImportRowStatus = 'new' | 'existing' | 'duplicate' | 'invalid'
+
+export interface ImportRow {
+  // Line number in a CSV file (the header is line 1), or record number in a MARC file
+  line: number
+  raw: Record<string, string>
+  book: ImportBook | null
+  status: ImportRowStatus
+  errors: string[]
+}
+
+export interface ImportSummary {
+  inserted: number
+  updated: number
+  skipped: number
+  failed: number
+  errors: string[]
+}
+
+export const MAX_COPIES_PER_TITLE = 500
+const BATCH_SIZE = 100
+
+// Accepted header names for each field (compared lowercased, ignoring spaces and underscores)
+const headerAliases: Record<keyof ImportBook, string[]> = {
+  isbn: ['isbn', 'isbn13', 'isbn10', 'ean'],
+  name: ['name', 'title', 'booktitle'],
+  author: ['author', 'authors', 'writer'],
+  category: ['category', 'subject', 'genre'],
+  total_copies: ['totalcopies', 'copies', 'quantity', 'qty', 'count'],
+  subjects: ['subjects'],
+  publisher: ['publisher', 'imprint'],
+  publication_year: ['year', 'publicationyear', 'published'],
+  edition: ['edition'],
+  language: ['language', 'lang']
+}
+
+export const importTemplate = 'isbn,title,author,category,copies\n9780262033848,Introduction to Algorithms,Thomas H. Cormen,Computer Science,3\n'
+
+function normalizeHeader(header: string): string {
+  return header.trim().toLowerCase().replace(/[\s_-]/g, '')
+}
+
+// Map each field to its column index, or report which required columns are missing
+export function mapColumns(headers: string[]): { columns: Partial<Record<keyof ImportBook, number>>; missing: string[] } {
+  const normalized = headers.map(normalizeHeader)
+  const columns: Partial<Record<keyof ImportBook, number>> = {}
+
+  for (const field of Object.keys(headerAliases) as (keyof ImportBook)[]) {
+    const index = normalized.findIndex(header => headerAliases[field].includes(header))
+    if (index >= 0) columns[field] = index
+  }
+
+  const missing = (['isbn', 'name', 'author', 'total_copies'] as const)
+    .filter(field => columns[field] === undefined)
+
+  return { columns, missing }
+}
+
+// One row or record before validation, with every field as text
+interface ImportEntry {
+  line: number
+  raw: Record<string, string>
+  values: Record<keyof ImportBook, string>
+  // Problems found while reading the source record itself
+  errors?: string[]
+}
+
+function validateEntries(entries: ImportEntry[]): ImportRow[] {
+  const seen = new Set<string>()
+
+  return entries.map((entry): ImportRow => {
+    const { values } = entry
+    const isbn = canonicalizeISBN(values.isbn)
+    const copies = Number(values.total_copies)
+    const year = Number(values.publication_year)
+
+    // A record that could not be read has nothing further worth checking
+    const errors: string[] = [...(entry.errors || [])]
+    if (errors.length === 0) {
+      if (!values.isbn) errors.push('ISBN is missing')
+      else if (!isbn) errors.push(`"${values.isbn}" is not a valid ISBN`)
+
+      if (!values.name) errors.push('Title is missing')
+      if (!values.author) errors.push('Author is missing')
+
+      if (!values.total_copies) errors.push('Copies is missing')
+      else if (!Number.isInteger(copies) || copies < 1) errors.push(`Copies must be a whole number of at least 1 (got "${values.total_copies}")`)
+      else if (copies > MAX_COPIES_PER_TITLE) errors.push(`Copies cannot exceed ${MAX_COPIES_PER_TITLE}`)
+
+      if (values.publication_year && (!Number.isInteger(year) || year < 1 || year > 9999)) {
+        errors.push(`Year must be a whole number such as 2009 (got "${values.publication_year}")`)
+      }
+    }
+
+    let status: ImportRowStatus = 'new'
+    if (errors.length > 0) {
+      status = 'invalid'
+    } else if (seen.has(isbn!)) {
+      status = 'duplicate'
+      errors.push('Same ISBN appears earlier in the file')
+    }
+    if (isbn) seen.add(isbn)
+
+    return {
+      line: entry.line,
+      raw: entry.raw,
+      book: status === 'new' || status === 'duplicate'
+        ? {
+            isbn: isbn!,
+            name: values.name,
+            author: values.author,
+            category: values.category,
+            total_copies: copies,
+            subjects: splitList(values.subjects),
+            publisher: values.publisher,
+            publication_year: values.publication_year ? year : null,
+            edition: values.edition,
+            language: values.language
+          }
+        : null,
+      status,
+      errors
+    }
+  })
+}
+
+export function parseImportFile(text: string): { rows: ImportRow[]; missingColumns: string[] } {
+  const [headers = [], ...records] = parseDelimited(text)
+  const { columns, missing } = mapColumns(headers)
+
+  if (missing.length > 0) {
+    return { rows: [], missingColumns: missing }
+  }
+
+  const cell = (record: string[], field: keyof ImportBook) =>
+    columns[field] === undefined ? '' : (record[columns[field]!] || '').trim()
+
+  const entries = records.map((record, index): ImportEntry => ({
+    line: index + 2,
+    raw: Object.fromEntries(headers.map((header, column) => [header, record[column] || ''])),
+    values: Object.fromEntries(
+      (Object.keys(headerAliases) as (keyof ImportBook)[]).map(field => [field, cell(record, field)])
+    ) as Record<keyof ImportBook, string>
+  }))
+
+  return { rows: validateEntries(entries), missingColumns: [] }
+}
+
+// MARC records carry no copy count field; each 852 holdings field is one
+// copy, and a record without holdings imports as a single copy
+export function parseMarcImportFile(data: Uint8Array): { rows: ImportRow[]; errors: string[] } {
+  const format = detectMarcFormat(data)
+  if (!format) {
+    return { rows: [], errors: ['The file is not binary MARC21 or MARCXML'] }
+  }
+
+  const { records, errors } = format === 'marcxml'
+    ? parseMarcXml(new TextDecoder().decode(data))
+    : parseMarc21(data)
+
+  const entries = records.map((record, index): ImportEntry => {
+    const { book, errors: recordErrors } = marcToBook(record)
+    const title = record.dataFields.find(field => field.tag === '245')?.subfields[0]?.value || ''
+    return {
+      line: index + 1,
+      raw: { record: title },
+      values: {
+        isbn: book?.isbn || '',
+        name: book?.name || '',
+        // The author column holds every author, separated by semicolons
+        author: joinList(book?.authors || []),
+        category: book?.subjects[0] || '',
+        total_copies: String(Math.max(book?.copies.length || 0, 1)),
+        subjects: joinList(book?.subjects || []),
+        publisher: book?.publisher || '',
+        publication_year: book?.publication_year ? String(book.publication_year) : '',
+        edition: book?.edition || '',
+        language: book?.language || ''
+      },
+      errors: book ? [] : recordErrors
+    }
+  })
+
+  return { rows: validateEntries(entries), errors }
+}
+
+// Flag rows whose ISBN is already in the catalog
+export async function markExistingBooks(rows: ImportRow[]): Promise<ImportRow[]> {
+  const isbns = [...new Set(rows.filter(row => row.status === 'new').map(row => row.book!.isbn))]
+  const existing = new Set<string>()
+
+  for (let i = 0; i < isbns.length; i += BATCH_SIZE) {
+    const { data, error } = await supabase
+      .from('books')
+      .select('isbn')
+      .in('isbn', isbns.slice(i, i + BATCH_SIZE))
+
+    if (error) {
+      console.error('Error checking existing books:', error)
+      continue
+    }
+    data?.forEach(book => existing.add(book.isbn))
+  }
+
+  return rows.map(row =>
+    row.status === 'new' && existing.has(row.book!.isbn) ? { ...row, status: 'existing' } : row
+  )
+}
+
+export async function importBooks(
+  rows: ImportRow[],
+  updateExisting: boolean,
+  onProgress?: (done: number, total: number) => void
+): Promise<ImportSummary> {
+  const books = rows
+    .filter(row => row.status === 'new' || row.status === 'existing')
+    .map(row => row.book!)
+
+  const summary: ImportSummary = { inserted: 0, updated: 0, skipped: 0, failed: 0, errors: [] }
+
+  for (let i = 0; i < books.length; i += BATCH_SIZE) {
+    const batch = books.slice(i, i + BATCH_SIZE)
+    const { data, error } = await supabase.rpc('import_books', {
+      p_books: batch,
+      p_update_existing: updateExisting
+    })
+
+    if (error) {
+      console.error('import_books error:', error)
+      summary.failed += batch.length
+      summary.errors.push(`Rows ${i + 1}-${i + batch.length}: ${error.message}`)
+    } else {
+      summary.inserted += data.inserted
+      summary.updated += data.updated
+      summary.skipped += data.skipped
+      summary.failed += data.errors.length
+      data.errors.forEach((rowError: { isbn: string; error: string }) => {
+        summary.errors.push(`${rowError.isbn}: ${rowError.error}`)
+      })
+    }
+
+    onProgress?.(Math.min(i + BATCH_SIZE, books.length), books.length)
+  }
+
+  return summary
+}
@@ -0,0 +1,231 @@
+// Circulation service for borrowing and returning books
+// Both operations run inside Postgres functions (see setup_supabase.sql) so the
+// loan record, the copy's status and the book's available_copies are updated atomically.
+// Loan length, limits and renewal rules come from the loan_policies table
+
+import { supabase } from '../supabaseClient'
+import { toReadyHold, type ReadyHold, type ReadyHoldResponse } from './holds'
+import { canonicalizeISBN } from './isbn'
+import { describeBorrowingBlock, type BorrowingBlock, type BorrowingBlockCode } from './patronBlocks'
+
+export type BorrowErrorCode =
+  | 'not_found'
+  | 'withdrawn'
+  | 'unavailable'
+  | 'copy_not_found'
+  | 'copy_unavailable'
+  | 'category_loan_limit'
+  | 'not_allowed'
+  | 'patron_not_found'
+  | BorrowingBlockCode
+export type ReturnErrorCode = 'loan_not_found' | 'already_returned'
+export type RenewErrorCode = 'loan_not_found' | 'already_returned' | 'overdue' | 'renewal_limit' | 'holds_waiting'
+
+export type BorrowResult =
+  | {
+      success: true
+      loanId: number
+      isbn: string
+      bookName: string
+      copyBarcode: string
+      dueDate: string
+    }
+  | {
+      success: false
+      error: BorrowErrorCode | 'request_failed'
+      message: string
+      // Every patron-level reason the loan was refused, when that was the cause
+      reasons?: BorrowingBlock[]
+    }
+
+export type ReturnResult =
+  | {
+      success: true
+      loanId: number
+      isbn: string
+      bookName: string
+      copyBarcode: string | null
+      // Set when the returned copy was reserved for the next patron in the hold queue
+      readyHold: ReadyHold | null
+      // Overdue fine added to the borrower's ledger (0 when returned on time)
+      fineCharged: number
+    }
+  | {
+      success: false
+      error: ReturnErrorCode | 'request_failed'
+      message: string
+    }
+
+// What a desk scan resolved to: a whole title (ISBN) or one physical copy (accession barcode)
+export interface ScannedItem {
+  isbn: string
+  copyId: number | null
+  copyBarcode: string | null
+}
+
+export type RenewResult =
+  | {
+      success: true
+      loanId: number
+      dueDate: string
+      renewalCount: number
+      renewalsLeft: number
+    }
+  | {
+      success: false
+      error: RenewErrorCode | 'request_failed'
+      message: string
+    }
+
+// Raw JSON shape returned by the borrow_book / return_book / renew_loan functions
+interface CirculationResponse {
+  success: boolean
+  error?: string
+  loan_id?: number
+  isbn?: string
+  book_name?: string
+  copy_barcode?: string | null
+  due_date?: string
+  ready_hold?: ReadyHoldResponse | null
+  fine_charged?: number
+  reasons?: BorrowingBlock[]
+  renewal_count?: number
+  renewals_left?: number
+}
+
+// Patron-level block messages carry details, so they come from describeBorrowingBlock()
+const errorMessages: Record<Exclude<BorrowErrorCode, BorrowingBlockCode> | ReturnErrorCode | RenewErrorCode, string> = {
+  not_found: 'Book not found. Please check the ISBN and try again.',
+  withdrawn: 'This book has been withdrawn from the collection and can no longer be borrowed.',
+  unavailable: 'Book not available! All copies are currently borrowed.',
+  copy_not_found: 'No copy with that barcode belongs to this book.',
+  copy_unavailable: 'That copy is not available for loan (on loan, damaged, lost or withdrawn).',
+  category_loan_limit: 'You have reached the loan limit for books in this category.',
+  not_allowed: 'You can only borrow books for your own account.',
+  patron_not_found: 'No library account was found for this patron.',
+  loan_not_found: 'Loan record not found.',
+  already_returned: 'This book has already been returned.',
+  overdue: 'Overdue books cannot be renewed. Please return the book to the library.',
+  renewal_limit: 'This loan has already been renewed the maximum number of times.',
+  holds_waiting: 'Other students are waiting for this book, so it cannot be renewed.'
+}
+
+export function describeCirculationError(code: string): string {
+  return errorMessages[code as keyof typeof errorMessages] || `Request failed: ${code}`
+}
+
+// Accepts either an ISBN or a copy's accession barcode, as scanned at the desk
+export async function lookupScannedItem(input: string): Promise<ScannedItem | null> {
+  const isbn = canonicalizeISBN(input)
+  if (isbn) {
+    return { isbn, copyId: null, copyBarcode: null }
+  }
+
+  const { data, error } = await supabase
+    .from('book_copies')
+    .select('id, book_isbn, barcode')
+    .eq('barcode', input.trim().toUpperCase())
+    .maybeSingle()
+
+  if (error || !data) {
+    if (error) console.error('Error looking up copy barcode:', error)
+    return null
+  }
+
+  return { isbn: data.book_isbn, copyId: data.id, copyBarcode: data.barcode }
+}
+
+// Lends the first available copy of a title, or a specific copy when its barcode is given.
+// The borrower is identified by their account id (users.id)
+export async function checkoutBook(
+  userId: string,
+  isbn: string,
+  copyBarcode?: string
+): Promise<BorrowResult> {
+  const { data, error } = await supabase.rpc('borrow_book', {
+    p_user_id: userId,
+    p_isbn: isbn,
+    p_copy_barcode: copyBarcode || null
+  })
+
+  if (error) {
+    console.error('borrow_book error:', error)
+    return { success: false, error: 'request_failed', message: error.message }
+  }
+
+  const response = data as CirculationResponse
+  if (!response.success) {
+    const code = response.error as BorrowErrorCode
+    if (response.reasons) {
+      return {
+        success: false,
+        error: code,
+        message: response.reasons.map(describeBorrowingBlock).join('\n'),
+        reasons: response.reasons
+      }
+    }
+    return { success: false, error: code, message: describeCirculationError(code) }
+  }
+
+  return {
+    success: true,
+    loanId: response.loan_id!,
+    isbn: response.isbn!,
+    bookName: response.book_name || response.isbn!,
+    copyBarcode: response.copy_barcode!,
+    dueDate: response.due_date!
+  }
+}
+
+export async function checkinBook(loanId: number): Promise<ReturnResult> {
+  const { data, error } = await supabase.rpc('return_book', {
+    p_loan_id: loanId
+  })
+
+  if (error) {
+    console.error('return_book error:', error)
+    return { success: false, error: 'request_failed', message: error.message }
+  }
+
+  const response = data as CirculationResponse
+  if (!response.success) {
+    const code = response.error as ReturnErrorCode
+    return { success: false, error: code, message: describeCirculationError(code) }
+  }
+
+  return {
+    success: true,
+    loanId: response.loan_id!,
+    isbn: response.isbn!,
+    bookName: response.book_name || response.isbn!,
+    copyBarcode: response.copy_barcode || null,
+    readyHold: response.ready_hold ? toReadyHold(response.ready_hold) : null,
+    fineCharged: Number(response.fine_charged) || 0
+  }
+}
+
+// Push a loan's due date forward, subject to the renewal rules of the book's policy
+export async function renewLoan(loanId: number): Promise<RenewResult> {
+  const { data, error } = await supabase.rpc('renew_loan', {
+    p_loan_id: loanId
+  })
+
+  if (error) {
+    console.error('renew_loan error:', error)
+    return { success: false, error: 'request_failed', message: error.message }
+  }
+
+  const response = data as CirculationResponse
+  if (!response.success) {
+    const code = response.error as RenewErrorCode
+    return { success: false, error: code, message: describeCirculationError(code) }
+  }
+
+  return {
+    success: true,
+    loanId: response.loan_id!,
+    dueDate: response.due_date!,
+    renewalCount: response.renewal_count!,
+    renewalsLeft: response.renewals_left!
+  }
+}
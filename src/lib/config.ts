@@ -0,0 +1,134 @@
+// App configuration read from environment variables at startup
+// Settings come from VITE_* variables in a .env file (see .env.example).
+// VITE_APP_PROFILE picks the environment: the hosted development or staging
+// Supabase project, or a self-hosted Supabase/Postgres instance ("local").
+// Problems are collected rather than thrown so main.tsx can show them all
+// on a startup error screen instead of a blank page
+
+export type AppProfile = 'development' | 'staging' | 'local'
+
+export interface AppConfig {
+  profile: AppProfile
+  supabase: {
+    url: string
+    anonKey: string
+  }
+  // EmailJS is optional: reminders are logged instead of sent without it
+  email: {
+    emailjsServiceId: string
+    emailjsTemplateId: string
+    emailjsPublicKey: string
+    senderEmail: string
+  }
+}
+
+export interface ConfigProblem {
+  // Name of the environment variable to fix
+  setting: string
+  message: string
+}
+
+type Env = Record<string, string | boolean | undefined>
+
+export const appProfileLabels: Record<AppProfile, string> = {
+  development: 'Development',
+  staging: 'Staging',
+  local: 'Local (self-hosted)'
+}
+
+// Where `supabase start` serves the API for a self-hosted instance
+export const localSupabaseUrl = 'http://127.0.0.1:54321'
+
+const defaultSenderEmail = 'library@campus.edu'
+
+function readSetting(env: Env, name: string): string {
+  const value = env[name]
+  return typeof value === 'string' ? value.trim() : ''
+}
+
+// Picks the profile from VITE_APP_PROFILE, falling back to the Vite mode so
+// `vite --mode staging` works without setting it
+function readProfile(env: Env, problems: ConfigProblem[]): AppProfile {
+  const setting = readSetting(env, 'VITE_APP_PROFILE')
+  const mode = readSetting(env, 'MODE')
+  const profile = setting || (Object.hasOwn(appProfileLabels, mode) ? mode : 'development')
+
+  if (!Object.hasOwn(appProfileLabels, profile)) {
+    problems.push({
+      setting: 'VITE_APP_PROFILE',
+      message: `Unknown profile "${profile}". Use one of: ${Object.keys(appProfileLabels).join(', ')}.`
+    })
+    return 'development'
+  }
+  return profile as AppProfile
+}
+
+function readSupabaseUrl(env: Env, profile: AppProfile, problems: ConfigProblem[]): string {
+  const value = readSetting(env, 'VITE_SUPABASE_URL') || (profile === 'local' ? localSupabaseUrl : '')
+
+  if (!value) {
+    problems.push({ setting: 'VITE_SUPABASE_URL', message: 'Missing. Set it to your Supabase project URL.' })
+    return ''
+  }
+
+  let url: URL
+  try {
+    url = new URL(value)
+  } catch {
+    problems.push({ setting: 'VITE_SUPABASE_URL', message: `"${value}" is not a valid URL.` })
+    return ''
+  }
+
+  // Plain http is only expected for an instance on this machine or network
+  if (url.protocol !== 'https:' && !(profile === 'local' && url.protocol === 'http:')) {
+    problems.push({
+      setting: 'VITE_SUPABASE_URL',
+      message: profile === 'local'
+        ? 'Must be an http:// or https:// URL.'
+        : `Must be an https:// URL for the ${profile} profile.`
+    })
+    return ''
+  }
+
+  return value.replace(/\/+$/, '')
+}
+
+export function readConfig(env: Env): { config: AppConfig; problems: ConfigProblem[] } {
+  const problems: ConfigProblem[] = []
+  const profile = readProfile(env, problems)
+  const url = readSupabaseUrl(env, profile, problems)
+
+  const anonKey = readSetting(env, 'VITE_SUPABASE_ANON_KEY')
+  if (!anonKey) {
+    problems.push({
+      setting: 'VITE_SUPABASE_ANON_KEY',
+      message: profile === 'local'
+        ? 'Missing. `supabase status` prints the anon key of a self-hosted instance.'
+        : 'Missing. Copy the anon (public) key from the project\'s API settings.'
+    })
+  }
+
+  const senderEmail = readSetting(env, 'VITE_SENDER_EMAIL') || defaultSenderEmail
+  if (!/^[^\s@]+@[^\s@]+$/.test(senderEmail)) {
+    problems.push({ setting: 'VITE_SENDER_EMAIL', message: `"${senderEmail}" is not an email address.` })
+  }
+
+  return {
+    config: {
+      profile,
+      supabase: { url, anonKey },
+      email: {
+        emailjsServiceId: readSetting(env, 'VITE_EMAILJS_SERVICE_ID'),
+        emailjsTemplateId: readSetting(env, 'VITE_EMAILJS_TEMPLATE_ID'),
+        emailjsPublicKey: readSetting(env, 'VITE_EMAILJS_PUBLIC_KEY'),
+        senderEmail
+      }
+    },
+    problems
+  }
+}
+
+const loaded = readConfig(import.meta.env)
+
+export const config: AppConfig = loaded.config
+export const configProblems: ConfigProblem[] = loaded.problems
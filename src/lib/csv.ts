@@ -0,0 +1,65 @@
+// Delimited text (CSV / TSV) parsing
+// Handles quoted fields with embedded delimiters, newlines and doubled quotes
+// as spreadsheet programs write them (RFC 4180)
+
+export type Delimiter = ',' | '\t' | ';'
+
+// Guess the delimiter from the header line: whichever candidate appears most
+export function detectDelimiter(text: string): Delimiter {
+  const firstLine = text.split(/\r?\n/, 1)[0] || ''
+  const candidates: Delimiter[] = ['\t', ',', ';']
+  const counts = candidates.map(candidate => firstLine.split(candidate).length - 1)
+  const best = counts.indexOf(Math.max(...counts))
+  return counts[best] > 0 ? candidates[best] : ','
+}
+
+export function parseDelimited(text: string, delimiter: Delimiter = detectDelimiter(text)): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let inQuotes = false
+
+  // Strip a UTF-8 byte order mark left by Excel
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i]
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (input[i + 1] === '"') {
+          field += '"'
+          i++
+        } else {
+          inQuotes = false
+        }
+      } else {
+        field += char
+      }
+      continue
+    }
+
+    if (char === '"' && field === '') {
+      inQuotes = true
+    } else if (char === delimiter) {
+      row.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ''
+    } else {
+      field += char
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field)
+    rows.push(row)
+  }
+
+  // Blank lines carry no data
+  return rows.filter(cells => cells.some(cell => cell.trim() !== ''))
+}
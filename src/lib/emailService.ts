@@ -1,5 +1,7 @@
 // Email service for sending notifications via EmailJS or Gmail API
 
+import { config } from './config'
+
 interface EmailData {
   to: string
   subject: string
@@ -14,11 +16,11 @@ interface EmailData {
 class EmailService {
   private static instance: EmailService
   // EmailJS configuration from environment variables
-  private emailjsServiceId: string = import.meta.env.VITE_EMAILJS_SERVICE_ID || ''
-  private emailjsTemplateId: string = import.meta.env.VITE_EMAILJS_TEMPLATE_ID || ''
-  private emailjsPublicKey: string = import.meta.env.VITE_EMAILJS_PUBLIC_KEY || ''
+  private emailjsServiceId: string = config.email.emailjsServiceId
+  private emailjsTemplateId: string = config.email.emailjsTemplateId
+  private emailjsPublicKey: string = config.email.emailjsPublicKey
   private gmailApiKey: string = ''
-  private senderEmail: string = import.meta.env.VITE_SENDER_EMAIL || 'library@campus.edu'
+  private senderEmail: string = config.email.senderEmail
   private senderName: string = 'CampusReads Library'
 
   private constructor() {
@@ -236,9 +238,9 @@ ${this.senderName}`
 
 This is an urgent reminder from the CampusReads Library that the book you borrowed — "${bookTitle}" — was due on ${formattedDueDate} and is now ${daysOverdue} day(s) overdue.
 
-Please return it as soon as possible to avoid late fees and to keep our library resources available for everyone.
+Please return it as soon as possible to keep our library resources available for everyone.
 
-Late fees may apply for overdue books.
+A fine accrues for each day the book is overdue and is added to your library account when it is returned. You can see your balance on the My Books page.
 
 If you have already returned the book, please disregard this message.
 
@@ -258,6 +260,72 @@ ${this.senderName}`
     })
   }
 
+  // Send hold ready notice
+  async sendHoldReadyNotice(
+    studentEmail: string,
+    studentName: string,
+    bookTitle: string,
+    pickupBy: string
+  ): Promise<boolean> {
+    const formattedPickupDate = new Date(pickupBy).toLocaleDateString('en-US', { 
+      weekday: 'long', 
+      year: 'numeric', 
+      month: 'long', 
+      day: 'numeric' 
+    })
+
+    const subject = `Your Hold Is Ready - ${bookTitle}`
+    const message = `Dear ${studentName},
+
+Good news from the CampusReads Library! A copy of the book you placed on hold — "${bookTitle}" — has been returned and is now reserved for you.
+
+Please borrow it by ${formattedPickupDate}. After that date the copy will be passed on to the next person waiting.
+
+If you no longer need this book, you can cancel the hold from your dashboard.
+
+Thank you for using the CampusReads App!
+
+${this.senderName}`
+
+    return this.sendEmail({
+      to: studentEmail,
+      subject,
+      message,
+      studentName,
+      bookTitle,
+      dueDate: pickupBy,
+      isOverdue: false
+    })
+  }
+
+  // Send a circulation desk receipt
+  async sendCirculationReceipt(
+    studentEmail: string,
+    studentName: string,
+    receipt: string
+  ): Promise<boolean> {
+    const subject = `Your CampusReads Library Receipt - ${new Date().toLocaleDateString('en-US')}`
+    const message = `Dear ${studentName},
+
+Here is the receipt for your visit to the CampusReads Library circulation desk.
+
+${receipt}
+
+Please keep this email for your records. You can also see your current loans and due dates on your dashboard.
+
+Thank you for using the CampusReads App!
+
+${this.senderName}`
+
+    return this.sendEmail({
+      to: studentEmail,
+      subject,
+      message,
+      studentName,
+      isOverdue: false
+    })
+  }
+
   // Send bulk reminders
   async sendBulkReminders(reminders: Array<{
     studentEmail: string
@@ -304,3 +372,9 @@ ${this.senderName}`
 
 export const emailService = EmailService.getInstance()
 
+// How emails greet a patron: the name from their account settings, or the
+// part of their email before the @ when they have not set one
+export function greetingName(name: string | null | undefined, email: string): string {
+  return name?.trim() || email.split('@')[0]
+}
+
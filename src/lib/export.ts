@@ -0,0 +1,90 @@
+// Shared data export: CSV, TSV and JSON
+// Every export in the app describes its columns once (ExportColumn) and goes
+// through here, so column selection, quoting and date formatting are the same
+// for the catalog, loans, overdue lists and fines
+
+import { downloadFile } from './download'
+
+export type ExportFormat = 'csv' | 'tsv' | 'json'
+
+// date: 2025-01-31, datetime: 2025-01-31 14:05 (local time), money: rounded to cents
+export type ExportValueType = 'text' | 'number' | 'boolean' | 'date' | 'datetime' | 'money'
+
+export interface ExportColumn<T> {
+  key: string
+  label: string
+  type?: ExportValueType
+  value: (row: T) => unknown
+  // Left out unless the user ticks it
+  optional?: boolean
+}
+
+function pad(value: number): string {
+  return String(value).padStart(2, '0')
+}
+
+// Dates are written year-first so spreadsheets sort and parse them without guessing the locale
+export function formatExportValue(value: unknown, type: ExportValueType = 'text'): string | number | boolean | null {
+  if (value === null || value === undefined || value === '') return null
+
+  switch (type) {
+    case 'date':
+    case 'datetime': {
+      const date = value instanceof Date ? value : new Date(String(value))
+      if (Number.isNaN(date.getTime())) return String(value)
+      const day = `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`
+      return type === 'date' ? day : `${day} ${pad(date.getHours())}:${pad(date.getMinutes())}`
+    }
+    case 'money':
+      return Math.round(Number(value) * 100) / 100
+    case 'number':
+      return Number(value)
+    case 'boolean':
+      return Boolean(value)
+    default:
+      return String(value)
+  }
+}
+
+// Spreadsheets run a cell starting with one of these as a formula
+const formulaPrefix = /^[=+\-@\t\r]/
+
+function quoteDelimited(value: string | number | boolean | null, delimiter: string, type?: ExportValueType): string {
+  if (value === null) return ''
+  // JSON keeps amounts as numbers; text files always show the cents
+  let text = type === 'money' && typeof value === 'number' ? value.toFixed(2) : String(value)
+  // Titles and names come from users, so a leading quote keeps them as plain text
+  if (typeof value === 'string' && formulaPrefix.test(text)) text = `'${text}`
+  return /["\r\n]/.test(text) || text.includes(delimiter) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+export function toDelimited<T>(rows: T[], columns: ExportColumn<T>[], delimiter: ',' | '\t' = ','): string {
+  const lines = [
+    columns.map(column => quoteDelimited(column.label, delimiter)).join(delimiter),
+    ...rows.map(row =>
+      columns.map(column => quoteDelimited(formatExportValue(column.value(row), column.type), delimiter, column.type)).join(delimiter)
+    )
+  ]
+  return lines.join('\r\n') + '\r\n'
+}
+
+export function toJSON<T>(rows: T[], columns: ExportColumn<T>[]): string {
+  return JSON.stringify(
+    rows.map(row => Object.fromEntries(columns.map(column => [column.key, formatExportValue(column.value(row), column.type)]))),
+    null,
+    2
+  )
+}
+
+export function exportRows<T>(fileBase: string, rows: T[], columns: ExportColumn<T>[], format: ExportFormat) {
+  const date = formatExportValue(new Date(), 'date')
+  const fileName = `${fileBase}-${date}.${format}`
+
+  if (format === 'json') {
+    downloadFile(fileName, toJSON(rows, columns), 'application/json')
+  } else {
+    // The byte order mark makes Excel open UTF-8 files with the right encoding
+    const content = '\uFEFF' + toDelimited(rows, columns, format === 'tsv' ? '\t' : ',')
+    downloadFile(fileName, content, format === 'tsv' ? 'text/tab-separated-values' : 'text/csv')
+  }
+}
@@ -0,0 +1,303 @@
+// Data sets librarians can export (catalog, loans, overdue list, fines)
+// Each one loads its rows with the chosen filters and lists its columns for
+// the shared export module
+
+import { supabase } from '../supabaseClient'
+import { formatISBN } from './isbn'
+import { loadLoanPolicies, resolveLoanPolicy } from './loanPolicy'
+import { estimateOverdueFine, type FineEntry } from './fines'
+import { bibliographicColumns, joinList, type BibliographicDetails } from './bibliography'
+import { exportRows, type ExportColumn, type ExportFormat } from './export'
+
+export type ExportDatasetId = 'catalog' | 'loans' | 'overdue' | 'fines'
+export type LoanStatusFilter = 'all' | 'active' | 'overdue' | 'returned'
+
+export interface ExportFilters {
+  // Inclusive calendar dates (YYYY-MM-DD); blank means no limit
+  from: string
+  to: string
+  status: LoanStatusFilter
+}
+
+interface DatasetDefinition<T> {
+  id: ExportDatasetId
+  label: string
+  fileBase: string
+  // Which filters apply: the date range is on borrow date for loans and entry date for fines
+  dateFilter: boolean
+  statusFilter: boolean
+  columns: ExportColumn<T>[]
+  load: (filters: ExportFilters) => Promise<T[]>
+}
+
+// What the export panel sees: the row type stays inside the definition
+export interface ExportDataset {
+  id: ExportDatasetId
+  label: string
+  dateFilter: boolean
+  statusFilter: boolean
+  columns: Pick<ExportColumn<unknown>, 'key' | 'label' | 'optional'>[]
+  // Loads the rows, downloads the chosen columns and returns how many rows were written
+  run: (filters: ExportFilters, columnKeys: string[], format: ExportFormat) => Promise<number>
+}
+
+function defineDataset<T>(definition: DatasetDefinition<T>): ExportDataset {
+  const { id, label, dateFilter, statusFilter, columns } = definition
+  return {
+    id,
+    label,
+    dateFilter,
+    statusFilter,
+    columns,
+    run: async (filters, columnKeys, format) => {
+      const rows = await definition.load(filters)
+      if (rows.length > 0) {
+        exportRows(definition.fileBase, rows, columns.filter(column => columnKeys.includes(column.key)), format)
+      }
+      return rows.length
+    }
+  }
+}
+
+interface CatalogRow extends BibliographicDetails {
+  isbn: string
+  name: string
+  author: string
+  category: string | null
+  total_copies: number
+  available_copies: number
+  status: 'active' | 'withdrawn'
+  created_at: string
+}
+
+interface LoanRecord {
+  id: number
+  user_email: string
+  book_isbn: string
+  copy_id: number | null
+  borrow_date: string
+  due_date: string
+  return_date: string | null
+  returned: boolean
+}
+
+interface LoanRow extends LoanRecord {
+  book_name?: string
+  category?: string | null
+  copy_barcode?: string
+  status: Exclude<LoanStatusFilter, 'all'>
+  days_overdue: number
+  accrued_fine?: number
+}
+
+const PAGE_SIZE = 1000
+
+// Supabase caps each response, so exports read the table a page at a time.
+// Each page query must end its ordering on a unique column, or rows that
+// tie on the sort key can repeat or go missing between pages
+export async function fetchAll<T>(
+  page: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: { message: string } | null }>
+): Promise<T[]> {
+  const rows: T[] = []
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await page(from, from + PAGE_SIZE - 1)
+    if (error) throw new Error(error.message)
+    rows.push(...(data || []))
+    if (!data || data.length < PAGE_SIZE) return rows
+  }
+}
+
+// Keys per "in" filter, which travels in the request URL
+const LOOKUP_BATCH_SIZE = 200
+
+// Fetches the rows matching a list of keys, a batch of keys per request
+async function fetchByKeys<T, K>(
+  keys: K[],
+  batch: (keys: K[]) => PromiseLike<{ data: T[] | null; error: { message: string } | null }>
+): Promise<T[]> {
+  const unique = [...new Set(keys)]
+  const rows: T[] = []
+  for (let start = 0; start < unique.length; start += LOOKUP_BATCH_SIZE) {
+    const { data, error } = await batch(unique.slice(start, start + LOOKUP_BATCH_SIZE))
+    if (error) throw new Error(error.message)
+    rows.push(...(data || []))
+  }
+  return rows
+}
+
+// The day after an inclusive end date, for "lt" comparisons on timestamps
+function endOfDay(date: string): string {
+  const next = new Date(`${date}T00:00:00`)
+  next.setDate(next.getDate() + 1)
+  return next.toISOString()
+}
+
+function startOfDay(date: string): string {
+  return new Date(`${date}T00:00:00`).toISOString()
+}
+
+function daysOverdue(dueDate: string, returnDate: string | null): number {
+  const end = returnDate ? new Date(returnDate) : new Date()
+  return Math.max(0, Math.floor((end.getTime() - new Date(dueDate).getTime()) / (1000 * 60 * 60 * 24)))
+}
+
+// Adds titles, categories and copy barcodes to raw borrowed_books rows
+async function enrichLoans(data: LoanRecord[]): Promise<LoanRow[]> {
+  const books = await fetchByKeys<{ isbn: string; name: string; category: string | null }, string>(
+    data.map(item => item.book_isbn),
+    isbns => supabase.from('books').select('isbn, name, category').in('isbn', isbns)
+  )
+  const booksMap = new Map(books.map(book => [book.isbn, book]))
+
+  const copies = await fetchByKeys<{ id: number; barcode: string }, number>(
+    data.flatMap(item => (item.copy_id ? [item.copy_id] : [])),
+    ids => supabase.from('book_copies').select('id, barcode').in('id', ids)
+  )
+  const copiesMap = new Map(copies.map(copy => [copy.id, copy.barcode]))
+
+  const now = new Date()
+  return data.map(item => {
+    const book = booksMap.get(item.book_isbn)
+    const overdue = !item.returned && new Date(item.due_date) < now
+    return {
+      ...item,
+      book_name: book?.name,
+      category: book?.category,
+      copy_barcode: item.copy_id ? copiesMap.get(item.copy_id) : undefined,
+      status: item.returned ? 'returned' : overdue ? 'overdue' : 'active',
+      days_overdue: daysOverdue(item.due_date, item.return_date)
+    }
+  })
+}
+
+const loanColumns: ExportColumn<LoanRow>[] = [
+  { key: 'loan_id', label: 'Loan ID', type: 'number', value: row => row.id, optional: true },
+  { key: 'patron', label: 'Patron', value: row => row.user_email },
+  { key: 'isbn', label: 'ISBN', value: row => formatISBN(row.book_isbn) },
+  { key: 'title', label: 'Title', value: row => row.book_name },
+  { key: 'category', label: 'Category', value: row => row.category, optional: true },
+  { key: 'copy', label: 'Copy', value: row => row.copy_barcode },
+  { key: 'borrowed', label: 'Borrowed', type: 'date', value: row => row.borrow_date },
+  { key: 'due', label: 'Due', type: 'date', value: row => row.due_date },
+  { key: 'returned', label: 'Returned', type: 'date', value: row => row.return_date },
+  { key: 'status', label: 'Status', value: row => row.status },
+  { key: 'days_overdue', label: 'Days Overdue', type: 'number', value: row => row.days_overdue }
+]
+
+const catalogDataset = defineDataset<CatalogRow>({
+  id: 'catalog',
+  label: 'Catalog',
+  fileBase: 'campusreads-catalog',
+  dateFilter: false,
+  statusFilter: false,
+  columns: [
+    { key: 'isbn', label: 'ISBN', value: row => formatISBN(row.isbn) },
+    { key: 'title', label: 'Title', value: row => row.name },
+    { key: 'author', label: 'Author', value: row => row.author },
+    { key: 'category', label: 'Category', value: row => row.category },
+    { key: 'publisher', label: 'Publisher', value: row => row.publisher, optional: true },
+    { key: 'edition', label: 'Edition', value: row => row.edition, optional: true },
+    { key: 'publication_year', label: 'Year', type: 'number', value: row => row.publication_year, optional: true },
+    { key: 'language', label: 'Language', value: row => row.language, optional: true },
+    { key: 'page_count', label: 'Pages', type: 'number', value: row => row.page_count, optional: true },
+    { key: 'subjects', label: 'Subjects', value: row => joinList(row.subjects), optional: true },
+    { key: 'total_copies', label: 'Total Copies', type: 'number', value: row => row.total_copies },
+    { key: 'available_copies', label: 'Available Copies', type: 'number', value: row => row.available_copies },
+    { key: 'status', label: 'Status', value: row => row.status },
+    { key: 'added', label: 'Added', type: 'date', value: row => row.created_at, optional: true }
+  ],
+  load: () =>
+    fetchAll<CatalogRow>((from, to) =>
+      supabase
+        .from('books')
+        .select(`isbn, name, author, category, total_copies, available_copies, status, created_at, ${bibliographicColumns}`)
+        .order('name')
+        .order('isbn')
+        .range(from, to)
+    )
+})
+
+const loansDataset = defineDataset<LoanRow>({
+  id: 'loans',
+  label: 'Loans',
+  fileBase: 'campusreads-loans',
+  dateFilter: true,
+  statusFilter: true,
+  columns: loanColumns,
+  load: async ({ from, to, status }) => {
+    const nowIso = new Date().toISOString()
+    const data = await fetchAll<LoanRecord>((start, end) => {
+      let query = supabase.from('borrowed_books').select('*')
+      if (from) query = query.gte('borrow_date', startOfDay(from))
+      if (to) query = query.lt('borrow_date', endOfDay(to))
+      if (status === 'returned') query = query.eq('returned', true)
+      if (status === 'active') query = query.eq('returned', false).gte('due_date', nowIso)
+      if (status === 'overdue') query = query.eq('returned', false).lt('due_date', nowIso)
+      return query.order('borrow_date', { ascending: false }).order('id').range(start, end)
+    })
+    return enrichLoans(data)
+  }
+})
+
+const overdueDataset = defineDataset<LoanRow>({
+  id: 'overdue',
+  label: 'Overdue List',
+  fileBase: 'campusreads-overdue',
+  dateFilter: false,
+  statusFilter: false,
+  columns: [
+    ...loanColumns.filter(column => column.key !== 'returned' && column.key !== 'status'),
+    { key: 'accrued_fine', label: 'Fine So Far', type: 'money', value: row => row.accrued_fine }
+  ],
+  load: async () => {
+    const data = await fetchAll<LoanRecord>((from, to) =>
+      supabase
+        .from('borrowed_books')
+        .select('*')
+        .eq('returned', false)
+        .lt('due_date', new Date().toISOString())
+        .order('due_date')
+        .order('id')
+        .range(from, to)
+    )
+    const [loans, policies] = await Promise.all([enrichLoans(data), loadLoanPolicies()])
+    return loans.map(loan => ({
+      ...loan,
+      accrued_fine: estimateOverdueFine(loan.due_date, resolveLoanPolicy(policies, loan.category, 'student'))
+    }))
+  }
+})
+
+const finesDataset = defineDataset<FineEntry>({
+  id: 'fines',
+  label: 'Fines Ledger',
+  fileBase: 'campusreads-fines',
+  dateFilter: true,
+  statusFilter: false,
+  columns: [
+    { key: 'entry_id', label: 'Entry ID', type: 'number', value: row => row.id, optional: true },
+    { key: 'date', label: 'Date', type: 'datetime', value: row => row.created_at },
+    { key: 'patron', label: 'Patron', value: row => row.user_email },
+    { key: 'type', label: 'Type', value: row => row.entry_type },
+    { key: 'amount', label: 'Amount', type: 'money', value: row => row.amount },
+    { key: 'loan_id', label: 'Loan ID', type: 'number', value: row => row.loan_id },
+    { key: 'note', label: 'Note', value: row => row.note },
+    { key: 'recorded_by', label: 'Recorded By', value: row => row.recorded_by }
+  ],
+  load: async ({ from, to }) => {
+    const data = await fetchAll<FineEntry>((start, end) => {
+      let query = supabase.from('fine_ledger').select('*')
+      if (from) query = query.gte('created_at', startOfDay(from))
+      if (to) query = query.lt('created_at', endOfDay(to))
+      return query.order('created_at', { ascending: false }).order('id').range(start, end)
+    })
+    return data.map(row => ({ ...row, amount: Number(row.amount) }))
+  }
+})
+
+export const exportDatasets: Record<ExportDatasetId, ExportDataset> = {
+  catalog: catalogDataset,
+  loans: loansDataset,
+  overdue: overdueDataset,
+  fines: finesDataset
+}
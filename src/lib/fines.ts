@@ -0,0 +1,141 @@
+// Overdue fines ledger
+// Charges are added by return_book when a late book comes back; librarians
+// record payments and waivers through record_fine_transaction. A patron's
+// balance is charges minus payments and waivers (see setup_supabase.sql)
+
+import { supabase } from '../supabaseClient'
+import type { LoanPolicy } from './loanPolicy'
+
+export type FineEntryType = 'charge' | 'payment' | 'waiver'
+export type FineTransactionErrorCode =
+  | 'invalid_type'
+  | 'invalid_amount'
+  | 'exceeds_balance'
+  | 'not_allowed'
+  | 'patron_not_found'
+
+export interface FineEntry {
+  id: number
+  user_id: string
+  user_email: string
+  loan_id: number | null
+  entry_type: FineEntryType
+  amount: number
+  note: string | null
+  recorded_by: string | null
+  created_at: string
+}
+
+export interface FineBalance {
+  user_id: string
+  user_email: string
+  balance: number
+  total_charged: number
+  last_activity: string
+}
+
+export type FineTransactionResult =
+  | { success: true; entryId: number; balance: number }
+  | { success: false; error: FineTransactionErrorCode | 'request_failed'; message: string }
+
+const errorMessages: Record<FineTransactionErrorCode, string> = {
+  invalid_type: 'Only payments and waivers can be recorded by hand.',
+  invalid_amount: 'Enter an amount greater than zero.',
+  exceeds_balance: 'The amount is more than the patron owes.',
+  not_allowed: 'Only librarians can record payments and waivers.',
+  patron_not_found: 'No library account was found for this patron.'
+}
+
+export function formatMoney(amount: number): string {
+  return `$${amount.toFixed(2)}`
+}
+
+// Fine a loan would be charged if returned on asOf
+// (mirrors public.overdue_fine() in setup_supabase.sql: whole calendar days late)
+export function estimateOverdueFine(dueDate: string, policy: LoanPolicy, asOf: Date = new Date()): number {
+  const due = new Date(dueDate)
+  const dueDay = Date.UTC(due.getFullYear(), due.getMonth(), due.getDate())
+  const today = Date.UTC(asOf.getFullYear(), asOf.getMonth(), asOf.getDate())
+  const daysLate = Math.max(0, Math.round((today - dueDay) / (1000 * 60 * 60 * 24)))
+  return Math.min(daysLate * policy.fine_per_day, policy.max_fine)
+}
+
+// NUMERIC columns come back from PostgREST as strings
+function toFineEntry(row: FineEntry): FineEntry {
+  return { ...row, amount: Number(row.amount) }
+}
+
+export async function loadFineLedger(userId: string): Promise<FineEntry[]> {
+  const { data, error } = await supabase
+    .from('fine_ledger')
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+
+  if (error || !data) {
+    if (error) console.error('Error loading fine ledger:', error)
+    return []
+  }
+
+  return (data as FineEntry[]).map(toFineEntry)
+}
+
+export async function loadFineBalance(userId: string): Promise<number> {
+  const { data, error } = await supabase.rpc('fine_balance', { p_user_id: userId })
+
+  if (error) {
+    console.error('fine_balance error:', error)
+    return 0
+  }
+
+  return Number(data) || 0
+}
+
+// Patrons who currently owe money, largest balance first
+export async function loadOutstandingBalances(): Promise<FineBalance[]> {
+  const { data, error } = await supabase
+    .from('fine_balances')
+    .select('*')
+    .gt('balance', 0)
+    .order('balance', { ascending: false })
+
+  if (error || !data) {
+    if (error) console.error('Error loading fine balances:', error)
+    return []
+  }
+
+  return data.map(row => ({
+    ...row,
+    balance: Number(row.balance),
+    total_charged: Number(row.total_charged)
+  })) as FineBalance[]
+}
+
+export async function recordFineTransaction(
+  userId: string,
+  entryType: Exclude<FineEntryType, 'charge'>,
+  amount: number,
+  note: string
+): Promise<FineTransactionResult> {
+  const { data, error } = await supabase.rpc('record_fine_transaction', {
+    p_user_id: userId,
+    p_entry_type: entryType,
+    p_amount: amount,
+    p_note: note
+  })
+
+  if (error) {
+    console.error('record_fine_transaction error:', error)
+    return { success: false, error: 'request_failed', message: error.message }
+  }
+
+  if (!data.success) {
+    const code = data.error as FineTransactionErrorCode
+    const message = code === 'exceeds_balance'
+      ? `${errorMessages[code]} Current balance: ${formatMoney(Number(data.balance))}.`
+      : errorMessages[code] || `Request failed: ${code}`
+    return { success: false, error: code, message }
+  }
+
+  return { success: true, entryId: data.entry_id, balance: Number(data.balance) }
+}
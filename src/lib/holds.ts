@@ -0,0 +1,174 @@
+// Holds (reservation queue) for titles with no copies on the shelf
+// Queue handling lives in Postgres (place_hold, cancel_hold, process_holds);
+// this module wraps those calls and emails patrons when their copy is ready
+
+import { supabase } from '../supabaseClient'
+import { emailService, greetingName } from './emailService'
+
+export type PlaceHoldErrorCode =
+  | 'not_found'
+  | 'withdrawn'
+  | 'available'
+  | 'already_borrowed'
+  | 'already_on_hold'
+  | 'not_allowed'
+  | 'patron_not_found'
+
+export interface Hold {
+  id: number
+  user_id: string
+  user_email: string
+  book_isbn: string
+  status: 'waiting' | 'ready'
+  requested_at: string
+  pickup_expires_at: string | null
+  queue_position: number | null
+  book_name?: string
+}
+
+// A hold whose copy has just been set aside for pickup
+export interface ReadyHold {
+  holdId: number
+  userEmail: string
+  userName: string | null
+  // False when the patron has turned hold emails off
+  emailNotice: boolean
+  isbn: string
+  bookName: string
+  copyBarcode: string
+  pickupExpiresAt: string
+}
+
+export type PlaceHoldResult =
+  | { success: true; holdId: number; bookName: string; queuePosition: number }
+  | { success: false; error: PlaceHoldErrorCode | 'request_failed'; message: string }
+
+// Raw JSON shape of a ready hold returned by the database functions
+export interface ReadyHoldResponse {
+  hold_id: number
+  user_email: string
+  user_name: string | null
+  email_notice: boolean
+  isbn: string
+  book_name: string
+  copy_barcode: string
+  pickup_expires_at: string
+}
+
+const errorMessages: Record<PlaceHoldErrorCode, string> = {
+  not_found: 'Book not found.',
+  withdrawn: 'This book has been withdrawn from the collection.',
+  available: 'A copy is on the shelf right now, so you can borrow it directly.',
+  already_borrowed: 'You already have this book on loan.',
+  already_on_hold: 'You already have a hold on this book.',
+  not_allowed: 'You can only place holds for your own account.',
+  patron_not_found: 'No library account was found for this patron.'
+}
+
+export function toReadyHold(response: ReadyHoldResponse): ReadyHold {
+  return {
+    holdId: response.hold_id,
+    userEmail: response.user_email,
+    userName: response.user_name ?? null,
+    emailNotice: response.email_notice ?? true,
+    isbn: response.isbn,
+    bookName: response.book_name,
+    copyBarcode: response.copy_barcode,
+    pickupExpiresAt: response.pickup_expires_at
+  }
+}
+
+export async function placeHold(userId: string, isbn: string): Promise<PlaceHoldResult> {
+  const { data, error } = await supabase.rpc('place_hold', {
+    p_user_id: userId,
+    p_isbn: isbn
+  })
+
+  if (error) {
+    console.error('place_hold error:', error)
+    return { success: false, error: 'request_failed', message: error.message }
+  }
+
+  if (!data.success) {
+    const code = data.error as PlaceHoldErrorCode
+    return { success: false, error: code, message: errorMessages[code] || `Request failed: ${code}` }
+  }
+
+  return {
+    success: true,
+    holdId: data.hold_id,
+    bookName: data.book_name,
+    queuePosition: data.queue_position
+  }
+}
+
+export async function cancelHold(holdId: number): Promise<{ success: boolean; nextHold: ReadyHold | null }> {
+  const { data, error } = await supabase.rpc('cancel_hold', { p_hold_id: holdId })
+
+  if (error || !data.success) {
+    console.error('cancel_hold error:', error || data.error)
+    return { success: false, nextHold: null }
+  }
+
+  return { success: true, nextHold: data.next_hold ? toReadyHold(data.next_hold) : null }
+}
+
+// Open holds for a patron, with queue positions and book titles
+export async function loadHolds(userId: string): Promise<Hold[]> {
+  const { data, error } = await supabase
+    .from('hold_queue')
+    .select('id, user_id, user_email, book_isbn, status, requested_at, pickup_expires_at, queue_position')
+    .eq('user_id', userId)
+    .order('requested_at')
+
+  if (error || !data || data.length === 0) {
+    if (error) console.error('Error loading holds:', error)
+    return []
+  }
+
+  const { data: booksData } = await supabase
+    .from('books')
+    .select('isbn, name')
+    .in('isbn', data.map(h => h.book_isbn))
+
+  const booksMap = new Map<string, string>()
+  booksData?.forEach(book => {
+    booksMap.set(book.isbn, book.name)
+  })
+
+  return data.map(hold => ({
+    ...hold,
+    book_name: booksMap.get(hold.book_isbn)
+  })) as Hold[]
+}
+
+// Expire holds past their pickup window and promote waiting patrons
+export async function processHolds(): Promise<ReadyHold[]> {
+  const { data, error } = await supabase.rpc('process_holds')
+
+  if (error) {
+    console.error('process_holds error:', error)
+    return []
+  }
+
+  return ((data || []) as ReadyHoldResponse[]).map(toReadyHold)
+}
+
+// Email the patron that their hold is waiting at the desk, unless they opted out.
+// A failed email must not undo the return that triggered it, so errors are only logged.
+export async function notifyHoldReady(hold: ReadyHold): Promise<boolean> {
+  if (!hold.emailNotice) return false
+
+  try {
+    await emailService.sendHoldReadyNotice(
+      hold.userEmail,
+      greetingName(hold.userName, hold.userEmail),
+      hold.bookName,
+      hold.pickupExpiresAt
+    )
+    return true
+  } catch (error) {
+    console.error('Error sending hold ready notice:', error)
+    return false
+  }
+}
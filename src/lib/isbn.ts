@@ -0,0 +1,92 @@
+// ISBN utilities - validation, ISBN-10/ISBN-13 conversion and hyphenation
+// Books are stored with their canonical ISBN: 13 digits, no hyphens or spaces.
+// The database applies the same rules through public.canonical_isbn()
+
+// Strip everything except digits and the ISBN-10 "X" check character
+export function cleanISBN(input: string): string {
+  return input.toUpperCase().replace(/[^0-9X]/g, '')
+}
+
+function isbn10CheckDigit(first9: string): string {
+  const sum = first9
+    .split('')
+    .reduce((total, digit, index) => total + Number(digit) * (10 - index), 0)
+  const check = (11 - (sum % 11)) % 11
+  return check === 10 ? 'X' : String(check)
+}
+
+function isbn13CheckDigit(first12: string): string {
+  const sum = first12
+    .split('')
+    .reduce((total, digit, index) => total + Number(digit) * (index % 2 === 0 ? 1 : 3), 0)
+  return String((10 - (sum % 10)) % 10)
+}
+
+export function isValidISBN10(input: string): boolean {
+  const isbn = cleanISBN(input)
+  return /^\d{9}[\dX]$/.test(isbn) && isbn10CheckDigit(isbn.slice(0, 9)) === isbn[9]
+}
+
+export function isValidISBN13(input: string): boolean {
+  const isbn = cleanISBN(input)
+  return /^97[89]\d{10}$/.test(isbn) && isbn13CheckDigit(isbn.slice(0, 12)) === isbn[12]
+}
+
+export function isValidISBN(input: string): boolean {
+  return isValidISBN10(input) || isValidISBN13(input)
+}
+
+export function isbn10To13(input: string): string | null {
+  if (!isValidISBN10(input)) return null
+  const first12 = '978' + cleanISBN(input).slice(0, 9)
+  return first12 + isbn13CheckDigit(first12)
+}
+
+// Only 978-prefixed ISBN-13s have an ISBN-10 equivalent
+export function isbn13To10(input: string): string | null {
+  if (!isValidISBN13(input)) return null
+  const isbn = cleanISBN(input)
+  if (!isbn.startsWith('978')) return null
+  const first9 = isbn.slice(3, 12)
+  return first9 + isbn10CheckDigit(first9)
+}
+
+// Canonical form used for storage and lookups, or null if the ISBN is invalid
+export function canonicalizeISBN(input: string): string | null {
+  if (isValidISBN13(input)) return cleanISBN(input)
+  return isbn10To13(input)
+}
+
+// Publisher prefix lengths for the English-language groups (978-0 and 978-1),
+// keyed by the upper bound of the 7 digits that follow the group
+const publisherRanges: Record<string, Array<[number, number]>> = {
+  '0': [[1999999, 2], [6999999, 3], [8499999, 4], [8999999, 5], [9499999, 6], [9999999, 7]],
+  '1': [[999999, 2], [3999999, 3], [5499999, 4], [8697999, 5], [9989999, 6], [9999999, 7]]
+}
+
+// Hyphenate an ISBN, e.g. 9780262033848 -> 978-0-262-03384-8
+// Groups without a range table are split as prefix-rest-check
+export function formatISBN(input: string): string {
+  const isbn = canonicalizeISBN(input)
+  if (!isbn) return input.trim()
+
+  const prefix = isbn.slice(0, 3)
+  const group = isbn[3]
+  const ranges = prefix === '978' ? publisherRanges[group] : undefined
+
+  if (!ranges) {
+    return `${prefix}-${isbn.slice(3, 12)}-${isbn[12]}`
+  }
+
+  const range = Number(isbn.slice(4, 11))
+  const publisherLength = ranges.find(([upper]) => range <= upper)![1]
+  const publisher = isbn.slice(4, 4 + publisherLength)
+  const title = isbn.slice(4 + publisherLength, 12)
+
+  return [prefix, group, publisher, title, isbn[12]].join('-')
+}
+
+// Whether free text looks like someone typed or scanned an ISBN rather than words
+export function looksLikeISBN(input: string): boolean {
+  return /^[\d\s-]{9,}[\dXx]?$/.test(input.trim())
+}
@@ -0,0 +1,116 @@
+// Loan policies - loan length, limits, renewals, fines and reminder windows
+// Policies live in the loan_policies table, keyed by book category and patron
+// role. NULL in either column means "any"; the most specific match wins and
+// the row with both NULL is the library-wide default. The database functions
+// resolve policies the same way through public.resolve_loan_policy()
+
+import { supabase } from '../supabaseClient'
+
+export type PatronRole = 'student' | 'librarian'
+
+export interface LoanPolicy {
+  id: number
+  category: string | null
+  role: PatronRole | null
+  // Length of a new loan in days
+  loan_days: number
+  // Maximum concurrent loans (NULL = unlimited)
+  max_loans: number | null
+  // Days added to the due date by each renewal
+  renewal_days: number
+  // How many times a single loan may be renewed
+  max_renewals: number
+  // Refuse renewal while other patrons are waiting for the title
+  block_renewal_when_holds: boolean
+  // Refuse renewal once the loan is past its due date
+  block_renewal_when_overdue: boolean
+  // Overdue fine charged per day, and the most a single loan can accrue
+  fine_per_day: number
+  max_fine: number
+  // Borrowing is refused while the patron owes more than this (NULL = never)
+  fine_block_threshold: number | null
+  // How many days before the due date reminders start
+  due_soon_days: number
+  // How long a returned copy is held for the next patron in the queue
+  hold_pickup_days: number
+}
+
+export type LoanPolicyInput = Omit<LoanPolicy, 'id'>
+
+// Matches the database defaults; also the starting point for a new policy
+export const defaultLoanPolicyInput: LoanPolicyInput = {
+  category: null,
+  role: null,
+  loan_days: 14,
+  max_loans: 5,
+  renewal_days: 14,
+  max_renewals: 2,
+  block_renewal_when_holds: true,
+  block_renewal_when_overdue: true,
+  fine_per_day: 0.25,
+  max_fine: 10,
+  fine_block_threshold: 5,
+  due_soon_days: 5,
+  hold_pickup_days: 3
+}
+
+// Used when the policies table cannot be read
+export const defaultLoanPolicy: LoanPolicy = { id: 0, ...defaultLoanPolicyInput }
+
+export async function loadLoanPolicies(): Promise<LoanPolicy[]> {
+  const { data, error } = await supabase
+    .from('loan_policies')
+    .select('*')
+    .order('category', { nullsFirst: true })
+    .order('role', { nullsFirst: true })
+
+  if (error || !data) {
+    if (error) console.error('Error loading loan policies:', error)
+    return []
+  }
+
+  // NUMERIC columns come back from PostgREST as strings
+  return data.map(policy => ({
+    ...policy,
+    fine_per_day: Number(policy.fine_per_day),
+    max_fine: Number(policy.max_fine),
+    fine_block_threshold: policy.fine_block_threshold === null ? null : Number(policy.fine_block_threshold)
+  })) as LoanPolicy[]
+}
+
+// Pick the most specific policy for a book category and patron role
+export function resolveLoanPolicy(
+  policies: LoanPolicy[],
+  category: string | null | undefined,
+  role: PatronRole | null | undefined
+): LoanPolicy {
+  const matches = policies.filter(policy =>
+    (policy.category === null || policy.category.toLowerCase() === category?.toLowerCase()) &&
+    (policy.role === null || policy.role === role)
+  )
+
+  const specificity = (policy: LoanPolicy) =>
+    (policy.category !== null ? 2 : 0) + (policy.role !== null ? 1 : 0)
+
+  return matches.sort((a, b) => specificity(b) - specificity(a))[0] || defaultLoanPolicy
+}
+
+// Widest due-soon window across all policies, for fetching candidate loans
+// before filtering each one by its own policy
+export function maxDueSoonDays(policies: LoanPolicy[]): number {
+  return Math.max(defaultLoanPolicy.due_soon_days, ...policies.map(policy => policy.due_soon_days))
+}
+
+export async function saveLoanPolicy(policy: LoanPolicyInput, id?: number): Promise<string | null> {
+  const row = { ...policy, updated_at: new Date().toISOString() }
+  const { error } = id
+    ? await supabase.from('loan_policies').update(row).eq('id', id)
+    : await supabase.from('loan_policies').insert(row)
+
+  return error ? error.message : null
+}
+
+export async function deleteLoanPolicy(id: number): Promise<string | null> {
+  const { error } = await supabase.from('loan_policies').delete().eq('id', id)
+  return error ? error.message : null
+}
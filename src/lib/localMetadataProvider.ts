@@ -0,0 +1,158 @@
+// Offline metadata provider backed by a local bibliographic dataset
+// The bundled dataset (src/data/book-metadata.json) ships with the app; a
+// librarian can add a larger dataset file (JSON, CSV/TSV or MARC) which is
+// kept in this browser and takes precedence over the bundled records
+
+import type { BookMetadata, MetadataProvider } from './bookMetadata'
+import { detectDelimiter, parseDelimited } from './csv'
+import { canonicalizeISBN } from './isbn'
+import { splitList } from './bibliography'
+import { detectMarcFormat, marcToBook, parseMarc21, parseMarcXml } from './marc'
+
+const STORAGE_KEY = 'bookMetadataDataset'
+
+// Accepted header names for CSV/TSV datasets (compared lowercased, ignoring spaces and underscores)
+const headerAliases: Record<string, string[]> = {
+  isbn: ['isbn', 'isbn13', 'isbn10', 'ean'],
+  name: ['name', 'title', 'booktitle'],
+  authors: ['author', 'authors', 'writer'],
+  category: ['category', 'genre'],
+  publisher: ['publisher', 'imprint'],
+  edition: ['edition'],
+  publication_year: ['year', 'publicationyear', 'published'],
+  language: ['language', 'lang'],
+  page_count: ['pages', 'pagecount'],
+  subjects: ['subjects', 'subject'],
+  description: ['description', 'summary'],
+  cover_url: ['cover', 'coverurl', 'coverimage']
+}
+
+let bundled: Map<string, BookMetadata> | null = null
+let imported: Map<string, BookMetadata> | null = null
+
+function toIndex(records: BookMetadata[]): Map<string, BookMetadata> {
+  const index = new Map<string, BookMetadata>()
+  records.forEach(record => index.set(record.isbn, record))
+  return index
+}
+
+// Clean up a record from any source; records without a valid ISBN are dropped
+function normalizeRecord(record: Record<string, unknown>): BookMetadata | null {
+  const isbn = canonicalizeISBN(String(record.isbn ?? ''))
+  if (!isbn) return null
+
+  const text = (value: unknown) => (typeof value === 'string' && value.trim() ? value.trim() : undefined)
+  const number = (value: unknown) => {
+    const parsed = Number(value)
+    return value !== '' && value != null && Number.isInteger(parsed) && parsed > 0 ? parsed : undefined
+  }
+  const list = (value: unknown) =>
+    Array.isArray(value) ? splitList(value.join(';')) : typeof value === 'string' ? splitList(value) : undefined
+
+  return {
+    isbn,
+    name: text(record.name),
+    authors: list(record.authors),
+    category: text(record.category),
+    publisher: text(record.publisher),
+    edition: text(record.edition),
+    publication_year: number(record.publication_year),
+    language: text(record.language),
+    page_count: number(record.page_count),
+    subjects: list(record.subjects),
+    description: text(record.description),
+    cover_url: text(record.cover_url)
+  }
+}
+
+async function loadBundled(): Promise<Map<string, BookMetadata>> {
+  if (!bundled) {
+    // Loaded on first lookup so the dataset is not part of the main bundle
+    const { default: records } = await import('../data/book-metadata.json')
+    bundled = toIndex((records as Record<string, unknown>[]).map(normalizeRecord).filter(r => r !== null))
+  }
+  return bundled
+}
+
+function loadImported(): Map<string, BookMetadata> {
+  if (!imported) {
+    imported = new Map()
+    const stored = typeof window !== 'undefined' ? localStorage.getItem(STORAGE_KEY) : null
+    if (stored) {
+      try {
+        imported = toIndex(JSON.parse(stored) as BookMetadata[])
+      } catch (error) {
+        console.error('Error loading imported metadata dataset:', error)
+      }
+    }
+  }
+  return imported
+}
+
+function parseDelimitedDataset(text: string): Record<string, unknown>[] {
+  const [headers, ...rows] = parseDelimited(text, detectDelimiter(text))
+  if (!headers) return []
+
+  const normalized = headers.map(header => header.trim().toLowerCase().replace(/[\s_-]/g, ''))
+  const columns = Object.entries(headerAliases)
+    .map(([field, aliases]) => [field, normalized.findIndex(header => aliases.includes(header))] as const)
+    .filter(([, index]) => index >= 0)
+
+  return rows.map(row => Object.fromEntries(columns.map(([field, index]) => [field, row[index]])))
+}
+
+function parseMarcDataset(data: Uint8Array, format: 'marc21' | 'marcxml'): Record<string, unknown>[] {
+  const { records } = format === 'marc21' ? parseMarc21(data) : parseMarcXml(new TextDecoder().decode(data))
+  return records.flatMap(record => {
+    const { book } = marcToBook(record)
+    return book
+      ? [{
+          isbn: book.isbn,
+          name: book.name,
+          authors: book.authors,
+          subjects: book.subjects,
+          publisher: book.publisher,
+          publication_year: book.publication_year,
+          edition: book.edition,
+          language: book.language
+        }]
+      : []
+  })
+}
+
+// Replaces the previously imported dataset. Returns how many records were kept
+export async function importMetadataDataset(file: File): Promise<{ records: number; skipped: number }> {
+  const data = new Uint8Array(await file.arrayBuffer())
+  let raw: Record<string, unknown>[]
+
+  const marcFormat = /\.(mrc|marc|xml)$/i.test(file.name) ? detectMarcFormat(data) : null
+  if (marcFormat) {
+    raw = parseMarcDataset(data, marcFormat)
+  } else if (/\.json$/i.test(file.name)) {
+    const parsed = JSON.parse(new TextDecoder().decode(data))
+    if (!Array.isArray(parsed)) throw new Error('The JSON file must contain an array of book records.')
+    raw = parsed
+  } else {
+    raw = parseDelimitedDataset(new TextDecoder().decode(data))
+  }
+
+  const records = raw.map(normalizeRecord).filter(record => record !== null)
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(records))
+  imported = toIndex(records)
+  return { records: imported.size, skipped: raw.length - records.length }
+}
+
+export function clearImportedMetadataDataset() {
+  localStorage.removeItem(STORAGE_KEY)
+  imported = new Map()
+}
+
+export function importedMetadataCount(): number {
+  return loadImported().size
+}
+
+export const localDatasetProvider: MetadataProvider = {
+  id: 'local-dataset',
+  label: 'Local dataset',
+  lookup: async (isbn) => loadImported().get(isbn) || (await loadBundled()).get(isbn) || null
+}
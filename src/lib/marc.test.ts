@@ -0,0 +1,143 @@
+import { readFileSync } from 'node:fs'
+import { join } from 'node:path'
+import { describe, expect, it, vi } from 'vitest'
+import {
+  bookToMarc,
+  detectMarcFormat,
+  marcToBook,
+  parseMarc21,
+  parseMarcXml,
+  writeMarc21,
+  writeMarcXml,
+  type MarcBook,
+  type MarcRecord
+} from './marc'
+import { parseMarcImportFile } from './catalogImport'
+
+// The parsers never touch the database; the client needs real settings to load
+vi.mock('../supabaseClient', () => ({ supabase: {} }))
+
+// The same three records in both formats: 264 and 260 imprints, several
+// authors, ISBD punctuation, an ISBN-10 and non-ASCII text
+const fixture = (name: string) => join(__dirname, '__fixtures__', name)
+const marc21Fixture = new Uint8Array(readFileSync(fixture('sample.mrc')))
+const marcXmlFixture = readFileSync(fixture('sample.xml'), 'utf8')
+
+function toBooks(records: MarcRecord[]): MarcBook[] {
+  return records.map(record => {
+    const { book, errors } = marcToBook(record)
+    expect(errors).toEqual([])
+    return book!
+  })
+}
+
+describe('reading the fixtures', () => {
+  it('detects each format', () => {
+    expect(detectMarcFormat(marc21Fixture)).toBe('marc21')
+    expect(detectMarcFormat(new TextEncoder().encode(marcXmlFixture))).toBe('marcxml')
+  })
+
+  it('reads every binary record', () => {
+    const { records, errors } = parseMarc21(marc21Fixture)
+    expect(errors).toEqual([])
+    expect(records).toHaveLength(3)
+  })
+
+  it('maps the catalog fields of a record', () => {
+    const [algorithms, godel] = toBooks(parseMarc21(marc21Fixture).records)
+
+    expect(algorithms).toEqual({
+      isbn: '9780262033848',
+      name: 'Introduction to algorithms',
+      authors: ['Cormen, Thomas H.', 'Leiserson, Charles E.', 'Rivest, Ronald L.', 'Stein, Clifford'],
+      subjects: ['Computer programming', 'Computer algorithms'],
+      publisher: 'The MIT Press',
+      publication_year: 2009,
+      edition: 'Third edition',
+      language: 'English',
+      copies: [
+        { barcode: 'CR-000101', location: 'Main Stacks' },
+        { barcode: 'CR-000102', location: null }
+      ]
+    })
+
+    // ISBN-10 is stored as ISBN-13; 260 stands in for 264
+    expect(godel).toMatchObject({
+      isbn: '9780465026562',
+      name: 'Gödel, Escher, Bach: an eternal golden braid',
+      authors: ['Hofstadter, Douglas R.'],
+      publisher: 'Basic Books',
+      publication_year: 1979,
+      edition: null,
+      language: null,
+      copies: []
+    })
+  })
+
+  it('reads the same books from binary and MARCXML', () => {
+    const { records, errors } = parseMarcXml(marcXmlFixture)
+    expect(errors).toEqual([])
+    expect(toBooks(records)).toEqual(toBooks(parseMarc21(marc21Fixture).records))
+  })
+})
+
+describe('round trips', () => {
+  it('writes parsed binary records back unchanged', () => {
+    const { records } = parseMarc21(marc21Fixture)
+    expect(writeMarc21(records)).toEqual(marc21Fixture)
+  })
+
+  it('keeps records through MARCXML', () => {
+    const { records } = parseMarc21(marc21Fixture)
+    const reread = parseMarcXml(writeMarcXml(records))
+    expect(reread.errors).toEqual([])
+    expect(reread.records).toEqual(records)
+  })
+
+  it('keeps books through bookToMarc and binary MARC21', () => {
+    const books = toBooks(parseMarc21(marc21Fixture).records)
+    const reread = parseMarc21(writeMarc21(books.map(bookToMarc)))
+    expect(reread.errors).toEqual([])
+    expect(toBooks(reread.records)).toEqual(books)
+  })
+
+  it('keeps books through bookToMarc and MARCXML', () => {
+    const books = toBooks(parseMarcXml(marcXmlFixture).records)
+    const reread = parseMarcXml(writeMarcXml(books.map(bookToMarc)))
+    expect(reread.errors).toEqual([])
+    expect(toBooks(reread.records)).toEqual(books)
+  })
+
+  it('writes the first author to 100 and the others to 700', () => {
+    const [algorithms] = toBooks(parseMarc21(marc21Fixture).records)
+    const record = bookToMarc(algorithms)
+    const values = (tag: string) =>
+      record.dataFields.filter(field => field.tag === tag).map(field => field.subfields[0].value)
+
+    expect(values('100')).toEqual(['Cormen, Thomas H.'])
+    expect(values('700')).toEqual(['Leiserson, Charles E.', 'Rivest, Ronald L.', 'Stein, Clifford'])
+    expect(values('650')).toEqual(['Computer programming', 'Computer algorithms'])
+  })
+})
+
+describe('catalog import', () => {
+  it('turns each record into an import row', () => {
+    const { rows, errors } = parseMarcImportFile(marc21Fixture)
+    expect(errors).toEqual([])
+    expect(rows.map(row => row.status)).toEqual(['new', 'new', 'new'])
+    expect(rows[0].book).toEqual({
+      isbn: '9780262033848',
+      name: 'Introduction to algorithms',
+      author: 'Cormen, Thomas H.; Leiserson, Charles E.; Rivest, Ronald L.; Stein, Clifford',
+      category: 'Computer programming',
+      total_copies: 2,
+      subjects: ['Computer programming', 'Computer algorithms'],
+      publisher: 'The MIT Press',
+      publication_year: 2009,
+      edition: 'Third edition',
+      language: 'English'
+    })
+    // Records without holdings import as a single copy
+    expect(rows[1].book?.total_copies).toBe(1)
+  })
+})
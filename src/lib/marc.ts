@@ -0,0 +1,445 @@
+// MARC21 bibliographic records: binary (ISO 2709) and MARCXML
+// Used to exchange catalog data with other library systems. Only the fields
+// CampusReads stores are mapped:
+//   020 $a  ISBN
+//   100 $a  main author (falls back to 110), 700 $a one per other author
+//   245 $a  title, $b subtitle
+//   250 $a  edition
+//   264 $b  publisher, $c year (falls back to 260)
+//   546 $a  language
+//   650 $a  topical subjects (the first becomes the book's category on
+//           import; titles without subjects export their category)
+//   852     one per copy held: $b location, $p accession barcode
+
+import { supabase } from '../supabaseClient'
+import { canonicalizeISBN } from './isbn'
+import { fetchAll } from './exportDatasets'
+
+export interface MarcSubfield {
+  code: string
+  value: string
+}
+
+export interface MarcControlField {
+  tag: string
+  value: string
+}
+
+export interface MarcDataField {
+  tag: string
+  ind1: string
+  ind2: string
+  subfields: MarcSubfield[]
+}
+
+export interface MarcRecord {
+  leader: string
+  controlFields: MarcControlField[]
+  dataFields: MarcDataField[]
+}
+
+// Catalog data carried in and out of MARC records
+export interface MarcBook {
+  isbn: string
+  name: string
+  // The first is the main entry (100), the rest added entries (700)
+  authors: string[]
+  subjects: string[]
+  publisher: string | null
+  publication_year: number | null
+  edition: string | null
+  language: string | null
+  copies: { barcode: string; location: string | null }[]
+}
+
+const FIELD_TERMINATOR = 0x1e
+const RECORD_TERMINATOR = 0x1d
+const SUBFIELD_DELIMITER = 0x1f
+const LEADER_LENGTH = 24
+const DIRECTORY_ENTRY_LENGTH = 12
+
+const MARCXML_NAMESPACE = 'http://www.loc.gov/MARC21/slim'
+
+// ---------- Record helpers ----------
+
+export function getSubfields(record: MarcRecord, tag: string, code: string): string[] {
+  return record.dataFields
+    .filter(field => field.tag === tag)
+    .flatMap(field => field.subfields.filter(subfield => subfield.code === code).map(subfield => subfield.value))
+}
+
+// Strip the ISBD punctuation cataloguers leave at the end of subfields ("Title /", "Author,")
+function trimPunctuation(value: string): string {
+  return value.replace(/[\s/:;,=]+$/, '').replace(/(?<![A-Z])\.$/, '').trim()
+}
+
+export function marcToBook(record: MarcRecord): { book: MarcBook | null; errors: string[] } {
+  const errors: string[] = []
+
+  // 020 $a may carry a qualifier: "9780262033848 (hardcover)"
+  const isbnCandidates = getSubfields(record, '020', 'a').map(value => value.trim().split(/\s+/)[0])
+  const isbn = isbnCandidates.map(candidate => canonicalizeISBN(candidate)).find(Boolean) || null
+  if (!isbn) {
+    errors.push(isbnCandidates.length > 0 ? `No valid ISBN in 020 (${isbnCandidates.join(', ')})` : 'No ISBN (020 $a)')
+  }
+
+  const title = [getSubfields(record, '245', 'a')[0], getSubfields(record, '245', 'b')[0]]
+    .filter(Boolean)
+    .map(part => trimPunctuation(part!))
+    .join(': ')
+  if (!title) errors.push('No title (245 $a)')
+
+  const mainAuthor = getSubfields(record, '100', 'a')[0] || getSubfields(record, '110', 'a')[0] || ''
+  const authors = [...new Set([mainAuthor, ...getSubfields(record, '700', 'a')].map(trimPunctuation).filter(Boolean))]
+  if (authors.length === 0) errors.push('No author (100 $a)')
+
+  const subjects = [...new Set(getSubfields(record, '650', 'a').map(trimPunctuation).filter(Boolean))]
+
+  // RDA records put the imprint in 264, older records in 260
+  const imprint = (code: string) => getSubfields(record, '264', code)[0] || getSubfields(record, '260', code)[0] || ''
+  const publisher = trimPunctuation(imprint('b')) || null
+  // "c2009." or "[2009]"
+  const year = Number(imprint('c').match(/\d{4}/)?.[0])
+  const edition = trimPunctuation(getSubfields(record, '250', 'a')[0] || '') || null
+  const language = trimPunctuation(getSubfields(record, '546', 'a')[0] || '') || null
+
+  const copies = record.dataFields
+    .filter(field => field.tag === '852')
+    .map(field => ({
+      barcode: field.subfields.find(subfield => subfield.code === 'p')?.value.trim() || '',
+      location: field.subfields.find(subfield => subfield.code === 'b')?.value.trim() || null
+    }))
+
+  if (errors.length > 0) {
+    return { book: null, errors }
+  }
+
+  return {
+    book: {
+      isbn: isbn!,
+      name: title,
+      authors,
+      subjects,
+      publisher,
+      publication_year: year || null,
+      edition,
+      language,
+      copies
+    },
+    errors
+  }
+}
+
+// Fields are written in tag order, as MARC expects
+export function bookToMarc(book: MarcBook): MarcRecord {
+  const [mainAuthor, ...otherAuthors] = book.authors
+  const imprint: MarcSubfield[] = [
+    ...(book.publisher ? [{ code: 'b', value: book.publisher }] : []),
+    ...(book.publication_year ? [{ code: 'c', value: String(book.publication_year) }] : [])
+  ]
+
+  const dataFields: MarcDataField[] = [
+    { tag: '020', ind1: ' ', ind2: ' ', subfields: [{ code: 'a', value: book.isbn }] },
+    ...(mainAuthor ? [{ tag: '100', ind1: '1', ind2: ' ', subfields: [{ code: 'a', value: mainAuthor }] }] : []),
+    { tag: '245', ind1: '1', ind2: '0', subfields: [{ code: 'a', value: book.name }] },
+    ...(book.edition ? [{ tag: '250', ind1: ' ', ind2: ' ', subfields: [{ code: 'a', value: book.edition }] }] : []),
+    ...(imprint.length > 0 ? [{ tag: '264', ind1: ' ', ind2: '1', subfields: imprint }] : []),
+    ...(book.language ? [{ tag: '546', ind1: ' ', ind2: ' ', subfields: [{ code: 'a', value: book.language }] }] : []),
+    ...book.subjects.map(subject => ({
+      tag: '650', ind1: ' ', ind2: '0', subfields: [{ code: 'a', value: subject }]
+    })),
+    ...otherAuthors.map(author => ({
+      tag: '700', ind1: '1', ind2: ' ', subfields: [{ code: 'a', value: author }]
+    })),
+    ...book.copies.map(copy => ({
+      tag: '852',
+      ind1: ' ',
+      ind2: ' ',
+      subfields: [
+        ...(copy.location ? [{ code: 'b', value: copy.location }] : []),
+        { code: 'p', value: copy.barcode }
+      ]
+    }))
+  ]
+
+  return {
+    // Lengths and base address are filled in when the record is written
+    leader: '00000nam a2200000 i 4500',
+    controlFields: [{ tag: '001', value: book.isbn }],
+    dataFields
+  }
+}
+
+// ---------- Binary MARC21 (ISO 2709) ----------
+
+const encoder = new TextEncoder()
+
+function readNumber(bytes: Uint8Array, start: number, length: number): number {
+  return parseInt(String.fromCharCode(...bytes.subarray(start, start + length)), 10)
+}
+
+// Leader position 9 is 'a' for UTF-8 records; older MARC-8 records are read
+// as Latin-1, which keeps plain ASCII intact
+function decoderFor(leader: string): TextDecoder {
+  return new TextDecoder(leader[9] === 'a' ? 'utf-8' : 'latin1')
+}
+
+function parseBinaryRecord(bytes: Uint8Array): MarcRecord {
+  if (bytes.length < LEADER_LENGTH) {
+    throw new Error('Record is shorter than a MARC leader')
+  }
+
+  const leader = String.fromCharCode(...bytes.subarray(0, LEADER_LENGTH))
+  const baseAddress = readNumber(bytes, 12, 5)
+  if (Number.isNaN(baseAddress)) {
+    throw new Error('Invalid base address in leader')
+  }
+
+  const decoder = decoderFor(leader)
+  const record: MarcRecord = { leader, controlFields: [], dataFields: [] }
+
+  for (let entry = LEADER_LENGTH; bytes[entry] !== FIELD_TERMINATOR && entry < baseAddress; entry += DIRECTORY_ENTRY_LENGTH) {
+    const tag = String.fromCharCode(...bytes.subarray(entry, entry + 3))
+    const length = readNumber(bytes, entry + 3, 4)
+    const start = readNumber(bytes, entry + 7, 5)
+
+    // Drop the field terminator
+    let field = bytes.subarray(baseAddress + start, baseAddress + start + length)
+    if (field[field.length - 1] === FIELD_TERMINATOR) field = field.subarray(0, field.length - 1)
+
+    if (tag < '010') {
+      record.controlFields.push({ tag, value: decoder.decode(field) })
+      continue
+    }
+
+    const subfields: MarcSubfield[] = []
+    let position = field.indexOf(SUBFIELD_DELIMITER)
+    while (position !== -1) {
+      const next = field.indexOf(SUBFIELD_DELIMITER, position + 1)
+      const chunk = field.subarray(position + 1, next === -1 ? field.length : next)
+      if (chunk.length > 0) {
+        subfields.push({ code: String.fromCharCode(chunk[0]), value: decoder.decode(chunk.subarray(1)) })
+      }
+      position = next
+    }
+
+    record.dataFields.push({
+      tag,
+      ind1: String.fromCharCode(field[0] ?? 32),
+      ind2: String.fromCharCode(field[1] ?? 32),
+      subfields
+    })
+  }
+
+  return record
+}
+
+// Parse a file of binary records; records that fail to parse are reported, not fatal
+export function parseMarc21(data: Uint8Array): { records: MarcRecord[]; errors: string[] } {
+  const records: MarcRecord[] = []
+  const errors: string[] = []
+  let start = 0
+
+  while (start < data.length) {
+    // Skip stray whitespace and line breaks between records
+    if (data[start] === 0x0a || data[start] === 0x0d || data[start] === 0x20) {
+      start++
+      continue
+    }
+
+    const declaredLength = readNumber(data, start, 5)
+    const terminator = data.indexOf(RECORD_TERMINATOR, start)
+    const end = terminator === -1 ? data.length : terminator + 1
+    const recordNumber = records.length + errors.length + 1
+
+    if (Number.isNaN(declaredLength)) {
+      errors.push(`Record ${recordNumber}: invalid record length`)
+    } else {
+      try {
+        records.push(parseBinaryRecord(data.subarray(start, end)))
+      } catch (error) {
+        errors.push(`Record ${recordNumber}: ${error instanceof Error ? error.message : 'unreadable'}`)
+      }
+    }
+
+    start = end
+  }
+
+  return { records, errors }
+}
+
+function pad(value: number, length: number): string {
+  return String(value).padStart(length, '0')
+}
+
+export function writeMarc21(records: MarcRecord[]): Uint8Array<ArrayBuffer> {
+  const encoded = records.map(record => {
+    const fields: { tag: string; bytes: Uint8Array }[] = [
+      ...record.controlFields.map(field => ({
+        tag: field.tag,
+        bytes: encoder.encode(field.value + String.fromCharCode(FIELD_TERMINATOR))
+      })),
+      ...record.dataFields.map(field => ({
+        tag: field.tag,
+        bytes: encoder.encode(
+          field.ind1 + field.ind2 +
+          field.subfields.map(subfield => String.fromCharCode(SUBFIELD_DELIMITER) + subfield.code + subfield.value).join('') +
+          String.fromCharCode(FIELD_TERMINATOR)
+        )
+      }))
+    ]
+
+    let offset = 0
+    const directory = fields.map(field => {
+      const entry = field.tag + pad(field.bytes.length, 4) + pad(offset, 5)
+      offset += field.bytes.length
+      return entry
+    }).join('') + String.fromCharCode(FIELD_TERMINATOR)
+
+    const baseAddress = LEADER_LENGTH + directory.length
+    const recordLength = baseAddress + offset + 1
+    const template = record.leader.padEnd(LEADER_LENGTH, ' ')
+    // Positions 0-4 record length, 9 'a' = UTF-8, 12-16 base address of data
+    const leader = pad(recordLength, 5) + template.slice(5, 9) + 'a' + template.slice(10, 12) +
+      pad(baseAddress, 5) + template.slice(17, 24)
+
+    const output = new Uint8Array(recordLength)
+    output.set(encoder.encode(leader + directory), 0)
+    let position = baseAddress
+    for (const field of fields) {
+      output.set(field.bytes, position)
+      position += field.bytes.length
+    }
+    output[position] = RECORD_TERMINATOR
+    return output
+  })
+
+  const result = new Uint8Array(encoded.reduce((sum, bytes) => sum + bytes.length, 0))
+  let position = 0
+  for (const bytes of encoded) {
+    result.set(bytes, position)
+    position += bytes.length
+  }
+  return result
+}
+
+// ---------- MARCXML ----------
+
+export function parseMarcXml(xml: string): { records: MarcRecord[]; errors: string[] } {
+  const document = new DOMParser().parseFromString(xml, 'application/xml')
+  const parserError = document.getElementsByTagName('parsererror')[0]
+  if (parserError) {
+    return { records: [], errors: [`Invalid XML: ${parserError.textContent?.trim() || 'parse error'}`] }
+  }
+
+  // Files may or may not declare the MARC21 namespace or use a prefix
+  const children = (element: Element, name: string) =>
+    Array.from(element.children).filter(child => child.localName === name)
+
+  const records = Array.from(document.getElementsByTagNameNS('*', 'record')).map(recordElement => ({
+    leader: children(recordElement, 'leader')[0]?.textContent || '',
+    controlFields: children(recordElement, 'controlfield').map(field => ({
+      tag: field.getAttribute('tag') || '',
+      value: field.textContent || ''
+    })),
+    dataFields: children(recordElement, 'datafield').map(field => ({
+      tag: field.getAttribute('tag') || '',
+      ind1: field.getAttribute('ind1') || ' ',
+      ind2: field.getAttribute('ind2') || ' ',
+      subfields: children(field, 'subfield').map(subfield => ({
+        code: subfield.getAttribute('code') || '',
+        value: subfield.textContent || ''
+      }))
+    }))
+  }))
+
+  return { records, errors: [] }
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+export function writeMarcXml(records: MarcRecord[]): string {
+  const body = records.map(record => [
+    '  <record>',
+    `    <leader>${escapeXml(record.leader)}</leader>`,
+    ...record.controlFields.map(field =>
+      `    <controlfield tag="${escapeXml(field.tag)}">${escapeXml(field.value)}</controlfield>`
+    ),
+    ...record.dataFields.flatMap(field => [
+      `    <datafield tag="${escapeXml(field.tag)}" ind1="${escapeXml(field.ind1)}" ind2="${escapeXml(field.ind2)}">`,
+      ...field.subfields.map(subfield =>
+        `      <subfield code="${escapeXml(subfield.code)}">${escapeXml(subfield.value)}</subfield>`
+      ),
+      '    </datafield>'
+    ]),
+    '  </record>'
+  ].join('\n'))
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<collection xmlns="${MARCXML_NAMESPACE}">`,
+    ...body,
+    '</collection>',
+    ''
+  ].join('\n')
+}
+
+// Binary MARC starts with a five-digit record length; MARCXML with markup
+export function detectMarcFormat(data: Uint8Array): 'marc21' | 'marcxml' | null {
+  const head = new TextDecoder().decode(data.subarray(0, 512)).replace(/^\uFEFF/, '').trimStart()
+  if (head.startsWith('<')) return 'marcxml'
+  if (/^\d{5}/.test(head)) return 'marc21'
+  return null
+}
+
+// ---------- Holdings export ----------
+
+// Every title still in the collection (not withdrawn) with its copies, ready for bookToMarc().
+// Both tables are read a page at a time so large catalogs are exported in full
+export async function loadMarcHoldings(): Promise<MarcBook[]> {
+  const [books, copies] = await Promise.all([
+    fetchAll((from, to) =>
+      supabase
+        .from('books')
+        .select('isbn, name, authors, category, subjects, publisher, publication_year, edition, language')
+        .eq('status', 'active')
+        .order('name')
+        .order('isbn')
+        .range(from, to)
+    ),
+    fetchAll((from, to) =>
+      supabase
+        .from('book_copies')
+        .select('book_isbn, barcode, location, status')
+        .order('barcode')
+        .range(from, to)
+    )
+  ])
+
+  const copiesByIsbn = new Map<string, MarcBook['copies']>()
+  copies.forEach(copy => {
+    // Lost and withdrawn copies are no longer holdings
+    if (copy.status === 'lost' || copy.status === 'withdrawn') return
+    const list = copiesByIsbn.get(copy.book_isbn) || []
+    list.push({ barcode: copy.barcode, location: copy.location })
+    copiesByIsbn.set(copy.book_isbn, list)
+  })
+
+  return books.map(book => ({
+    isbn: book.isbn,
+    name: book.name,
+    authors: book.authors || [],
+    subjects: book.subjects?.length ? book.subjects : book.category ? [book.category] : [],
+    publisher: book.publisher,
+    publication_year: book.publication_year,
+    edition: book.edition,
+    language: book.language,
+    copies: copiesByIsbn.get(book.isbn) || []
+  }))
+}
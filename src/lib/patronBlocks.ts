@@ -0,0 +1,109 @@
+// Borrowing eligibility and manual patron blocks
+// The checks themselves run in Postgres (borrowing_blocks, called by
+// borrow_book), so they hold no matter which client makes the request.
+// This module fetches the current reasons for display and manages the
+// blocks librarians place by hand
+
+import { supabase } from '../supabaseClient'
+import { formatMoney } from './fines'
+
+export type BorrowingBlockCode = 'patron_blocked' | 'overdue_loans' | 'fines_owed' | 'loan_limit'
+
+// One reason a patron cannot borrow right now, with the details for its message
+export interface BorrowingBlock {
+  code: BorrowingBlockCode
+  reason?: string
+  blocked_at?: string
+  overdue_count?: number
+  balance?: number
+  threshold?: number
+  active_loans?: number
+  max_loans?: number
+}
+
+export interface PatronBlock {
+  id: number
+  user_id: string
+  user_email: string
+  reason: string
+  blocked_by: string | null
+  created_at: string
+}
+
+export type BlockActionResult =
+  | { success: true }
+  | { success: false; error: string; message: string }
+
+const actionErrorMessages: Record<string, string> = {
+  reason_required: 'Please give a reason for the block.',
+  already_blocked: 'This patron is already blocked.',
+  not_blocked: 'This patron has no active block.',
+  not_allowed: 'Only librarians can block or unblock patrons.',
+  patron_not_found: 'No library account was found for this patron.'
+}
+
+// Worded for both the student and the desk, since both see these messages
+export function describeBorrowingBlock(block: BorrowingBlock): string {
+  switch (block.code) {
+    case 'patron_blocked':
+      return `Borrowing suspended by the library: ${block.reason}`
+    case 'overdue_loans':
+      return `${block.overdue_count} overdue book(s) must be returned first.`
+    case 'fines_owed':
+      return `Unpaid fines of ${formatMoney(Number(block.balance))} are over the ${formatMoney(Number(block.threshold))} limit. Fines can be paid at the library desk.`
+    case 'loan_limit':
+      return `Loan limit reached: ${block.active_loans} of ${block.max_loans} books on loan.`
+    default:
+      return `Borrowing is not allowed right now (${block.code}).`
+  }
+}
+
+// Every reason the patron cannot borrow right now (empty when they can)
+export async function loadBorrowingBlocks(userId: string): Promise<BorrowingBlock[]> {
+  const { data, error } = await supabase.rpc('borrowing_blocks', { p_user_id: userId })
+
+  if (error) {
+    console.error('borrowing_blocks error:', error)
+    return []
+  }
+
+  return (data || []) as BorrowingBlock[]
+}
+
+export async function loadActiveBlocks(): Promise<PatronBlock[]> {
+  const { data, error } = await supabase
+    .from('patron_blocks')
+    .select('id, user_id, user_email, reason, blocked_by, created_at')
+    .is('lifted_at', null)
+    .order('created_at', { ascending: false })
+
+  if (error || !data) {
+    if (error) console.error('Error loading patron blocks:', error)
+    return []
+  }
+
+  return data as PatronBlock[]
+}
+
+async function runBlockAction(fn: string, params: Record<string, string>): Promise<BlockActionResult> {
+  const { data, error } = await supabase.rpc(fn, params)
+
+  if (error) {
+    console.error(`${fn} error:`, error)
+    return { success: false, error: 'request_failed', message: error.message }
+  }
+
+  if (!data.success) {
+    return { success: false, error: data.error, message: actionErrorMessages[data.error] || `Request failed: ${data.error}` }
+  }
+
+  return { success: true }
+}
+
+export function blockPatron(userId: string, reason: string): Promise<BlockActionResult> {
+  return runBlockAction('block_patron', { p_user_id: userId, p_reason: reason })
+}
+
+export function unblockPatron(userId: string): Promise<BlockActionResult> {
+  return runBlockAction('unblock_patron', { p_user_id: userId })
+}
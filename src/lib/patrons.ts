@@ -0,0 +1,42 @@
+// Patron accounts as the desks see them
+// Loans, holds, fines and blocks are all kept by account (see
+// setup_supabase.sql), so an email typed at the desk is looked up here
+// before anything is read or changed for that patron
+
+import { supabase } from '../supabaseClient'
+
+export interface Patron {
+  id: string
+  email: string
+  name: string | null
+}
+
+// ilike would treat these as wildcards
+function escapeLikePattern(text: string): string {
+  return text.replace(/[\\%_]/g, match => `\\${match}`)
+}
+
+// The account registered under an email, in any letter case. Older accounts
+// can differ from each other only in case; then the exact spelling typed
+// wins, then the lower-case (normalised) one
+export async function findPatronByEmail(email: string): Promise<Patron | null> {
+  const typed = email.trim()
+  const { data, error } = await supabase
+    .from('users')
+    .select('id, email, name')
+    .ilike('email', escapeLikePattern(typed))
+    .order('email')
+    .limit(10)
+
+  if (error) {
+    console.error('Error looking up patron:', error)
+    return null
+  }
+
+  const matches = (data || []) as Patron[]
+  if (matches.length <= 1) return matches[0] ?? null
+
+  return matches.find(patron => patron.email === typed)
+    ?? matches.find(patron => patron.email === typed.toLowerCase())
+    ?? null
+}
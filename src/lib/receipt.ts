@@ -0,0 +1,77 @@
+// Circulation desk receipts
+// A receipt lists every checkout and check-in made for one patron in a desk
+// session. The same plain-text body is printed and emailed
+
+import { formatMoney } from './fines'
+
+export interface ReceiptLine {
+  action: 'checkout' | 'checkin'
+  bookName: string
+  copyBarcode: string | null
+  // Due date for checkouts
+  dueDate?: string
+  // Overdue fine charged by a check-in
+  fineCharged?: number
+}
+
+export function formatReceipt(patronEmail: string, lines: ReceiptLine[], servedBy: string, date: Date = new Date()): string {
+  const checkouts = lines.filter(line => line.action === 'checkout')
+  const checkins = lines.filter(line => line.action === 'checkin')
+  const fines = checkins.reduce((sum, line) => sum + (line.fineCharged || 0), 0)
+
+  const describe = (line: ReceiptLine) =>
+    `  - ${line.bookName}${line.copyBarcode ? ` [${line.copyBarcode}]` : ''}`
+
+  const sections = [
+    'CampusReads Library - Circulation Receipt',
+    `Date: ${date.toLocaleString()}`,
+    `Patron: ${patronEmail}`,
+    `Served by: ${servedBy}`
+  ]
+
+  if (checkouts.length > 0) {
+    sections.push(
+      '',
+      `Borrowed (${checkouts.length}):`,
+      ...checkouts.map(line =>
+        `${describe(line)}\n    Due: ${line.dueDate ? new Date(line.dueDate).toLocaleDateString() : '-'}`
+      )
+    )
+  }
+
+  if (checkins.length > 0) {
+    sections.push(
+      '',
+      `Returned (${checkins.length}):`,
+      ...checkins.map(line =>
+        line.fineCharged ? `${describe(line)}\n    Late fine: ${formatMoney(line.fineCharged)}` : describe(line)
+      )
+    )
+  }
+
+  if (fines > 0) {
+    sections.push('', `Fines charged today: ${formatMoney(fines)}`)
+  }
+
+  return sections.join('\n')
+}
+
+// Open the receipt in a small window and bring up the browser's print dialog
+export function printReceipt(receipt: string): boolean {
+  const printWindow = window.open('', '_blank', 'width=420,height=640')
+  if (!printWindow) return false
+
+  const escaped = receipt
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+
+  printWindow.document.write(
+    `<html><head><title>Library Receipt</title></head>` +
+    `<body><pre style="font-family: monospace; font-size: 12px;">${escaped}</pre></body></html>`
+  )
+  printWindow.document.close()
+  printWindow.focus()
+  printWindow.print()
+  return true
+}
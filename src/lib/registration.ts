@@ -0,0 +1,136 @@
+// Self-service student registration
+// Sign-up is open to campus email addresses only: the allowed domains live in
+// the registration_domains table, and a trigger on auth.users (see
+// setup_supabase.sql) refuses other addresses and creates the student profile.
+// Supabase Auth sends the confirmation email; the account can sign in once
+// the link in it has been followed
+
+import { supabase } from '../supabaseClient'
+
+export const minPasswordLength = 8
+
+export type SignUpErrorCode =
+  | 'invalid_email'
+  | 'domain_not_allowed'
+  | 'weak_password'
+  | 'password_mismatch'
+  | 'already_registered'
+
+export type SignUpResult =
+  | {
+      success: true
+      // False when the project does not require email confirmation and the
+      // new account is already signed in
+      needsConfirmation: boolean
+    }
+  | {
+      success: false
+      error: SignUpErrorCode | 'request_failed'
+      message: string
+    }
+
+export interface SignUpDetails {
+  name: string
+  email: string
+  password: string
+  confirmPassword: string
+}
+
+export async function loadRegistrationDomains(): Promise<string[]> {
+  const { data, error } = await supabase
+    .from('registration_domains')
+    .select('domain')
+    .order('domain')
+
+  if (error) {
+    console.error('Error loading registration domains:', error)
+    return []
+  }
+
+  return (data || []).map(row => row.domain)
+}
+
+// Same rule as email_domain_allowed(): the domain itself or any subdomain
+export function emailDomainAllowed(email: string, domains: string[]): boolean {
+  const domain = email.trim().toLowerCase().split('@')[1] || ''
+  return domains.some(allowed => domain === allowed || domain.endsWith(`.${allowed}`))
+}
+
+// Rules for a new password, shared with the settings page and password reset
+export function checkNewPassword(
+  password: string,
+  confirmPassword: string
+): { error: 'weak_password' | 'password_mismatch'; message: string } | null {
+  if (password.length < minPasswordLength) {
+    return { error: 'weak_password', message: `Passwords must be at least ${minPasswordLength} characters long.` }
+  }
+  if (password !== confirmPassword) {
+    return { error: 'password_mismatch', message: 'The passwords do not match.' }
+  }
+  return null
+}
+
+function describeDomains(domains: string[]): string {
+  return domains.map(domain => `@${domain}`).join(', ')
+}
+
+export async function signUpStudent(details: SignUpDetails, domains: string[]): Promise<SignUpResult> {
+  const email = details.email.trim().toLowerCase()
+
+  if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
+    return { success: false, error: 'invalid_email', message: 'Please enter a valid email address.' }
+  }
+  if (!emailDomainAllowed(email, domains)) {
+    return {
+      success: false,
+      error: 'domain_not_allowed',
+      message: domains.length > 0
+        ? `Please register with your campus email address (${describeDomains(domains)}).`
+        : 'Registration is not open yet. Please contact the library.'
+    }
+  }
+  const passwordProblem = checkNewPassword(details.password, details.confirmPassword)
+  if (passwordProblem) {
+    return { success: false, ...passwordProblem }
+  }
+
+  const { data, error } = await supabase.auth.signUp({
+    email,
+    password: details.password,
+    options: {
+      // Picked up by the profile trigger as users.name
+      data: { name: details.name.trim() },
+      // The confirmation link brings the student back to the app, signed in
+      emailRedirectTo: window.location.origin
+    }
+  })
+
+  // With confirmations on, an address that is already registered gets no
+  // error (so accounts cannot be probed) and simply no new email
+  if (error) {
+    console.error('Sign-up error:', error)
+    if (error.code === 'user_already_exists') {
+      return { success: false, error: 'already_registered', message: 'An account with this email already exists. Please log in.' }
+    }
+    if (error.code === 'weak_password') {
+      return { success: false, error: 'weak_password', message: error.message }
+    }
+    return { success: false, error: 'request_failed', message: error.message }
+  }
+
+  return { success: true, needsConfirmation: !data.session }
+}
+
+export async function resendConfirmation(email: string): Promise<boolean> {
+  const { error } = await supabase.auth.resend({
+    type: 'signup',
+    email: email.trim().toLowerCase(),
+    options: { emailRedirectTo: window.location.origin }
+  })
+
+  if (error) {
+    console.error('Error resending confirmation email:', error)
+    return false
+  }
+  return true
+}
@@ -1,9 +1,41 @@
 import { useState, useEffect } from 'react'
 import { supabase } from './supabaseClient'
-import { emailService } from './lib/emailService'
+import { emailService, greetingName } from './lib/emailService'
+import { config } from './lib/config'
 import { checkAndSendReminders } from './lib/autoReminders'
-
-interface Book {
+import { checkinBook } from './lib/circulation'
+import { processHolds, notifyHoldReady } from './lib/holds'
+import { canonicalizeISBN, formatISBN } from './lib/isbn'
+import { BookCopies } from './components/BookCopies'
+import { CatalogImport } from './components/CatalogImport'
+import { LoanPolicies } from './components/LoanPolicies'
+import { FinesDesk } from './components/FinesDesk'
+import { CirculationDesk } from './components/CirculationDesk'
+import { PatronBlocks } from './components/PatronBlocks'
+import { ExportPanel } from './components/ExportPanel'
+import { BookEditor } from './components/BookEditor'
+import { BookHistory } from './components/BookHistory'
+import { WithdrawnBooks } from './components/WithdrawnBooks'
+import { AccountSettings } from './components/AccountSettings'
+import { BookDetails } from './components/BookDetails'
+import { BibliographicFields } from './components/BibliographicFields'
+import { withdrawBook } from './lib/bookRecords'
+import { lookupBookMetadata } from './lib/bookMetadata'
+import {
+  emptyBibliographicForm,
+  formatAuthors,
+  fromBibliographicForm,
+  joinList,
+  splitList,
+  toBibliographicForm,
+  validateBibliographicForm,
+  type BibliographicDetails
+} from './lib/bibliography'
+import type { ExportDatasetId } from './lib/exportDatasets'
+import { loadLoanPolicies, maxDueSoonDays, resolveLoanPolicy } from './lib/loanPolicy'
+import { formatMoney } from './lib/fines'
+
+interface Book extends BibliographicDetails {
   id: number
   isbn: string
   name: string
@@ -11,20 +43,28 @@ interface Book {
   category: string
   total_copies: number
   available_copies: number
+  updated_at: string
 }
 
 interface BorrowRecord {
   id: number
   user_email: string
   book_isbn: string
+  copy_id: number | null
   borrow_date: string
   due_date: string
   returned: boolean
   book_name?: string
+  copy_barcode?: string
+  // Loaded with the reminder lists
+  borrower?: { name: string | null; email_due_reminders: boolean } | null
 }
 
+// Reminder lists include who to greet and whether they want reminder emails
+const reminderColumns = '*, borrower:users(name, email_due_reminders)'
+
 function LibrarianDashboard() {
-  const [activeTab, setActiveTab] = useState<'dashboard' | 'inventory' | 'transactions' | 'reminders'>('dashboard')
+  const [activeTab, setActiveTab] = useState<'dashboard' | 'desk' | 'inventory' | 'transactions' | 'reminders' | 'fines' | 'blocks' | 'policies' | 'settings'>('dashboard')
   const [books, setBooks] = useState<Book[]>([])
   const [stats, setStats] = useState({
     totalBooks: 0,
@@ -42,7 +82,15 @@ function LibrarianDashboard() {
     category: '',
     total_copies: ''
   })
+  const [newBookDetails, setNewBookDetails] = useState(emptyBibliographicForm)
   const [showAddBook, setShowAddBook] = useState(false)
+  const [lookingUp, setLookingUp] = useState(false)
+  const [showImport, setShowImport] = useState(false)
+  const [showWithdrawn, setShowWithdrawn] = useState(false)
+  const [exportDataset, setExportDataset] = useState<ExportDatasetId | null>(null)
+  const [expandedIsbn, setExpandedIsbn] = useState<string | null>(null)
+  const [editingBookId, setEditingBookId] = useState<number | null>(null)
+  const [historyBookId, setHistoryBookId] = useState<number | null>(null)
   const [sendingEmails, setSendingEmails] = useState(false)
 
   // Load dashboard stats
@@ -52,6 +100,7 @@ function LibrarianDashboard() {
       const { data: allBooks, error: booksError } = await supabase
         .from('books')
         .select('*')
+        .eq('status', 'active')
 
       if (!booksError && allBooks) {
         const totalBooks = allBooks.reduce((sum, b) => sum + b.total_copies, 0)
@@ -84,6 +133,7 @@ function LibrarianDashboard() {
       const { data, error } = await supabase
         .from('books')
         .select('*')
+        .eq('status', 'active')
         .order('name')
 
       if (!error && data) {
@@ -116,9 +166,22 @@ function LibrarianDashboard() {
           booksMap.set(book.isbn, book.name)
         })
 
+        // Get barcodes of the lent copies
+        const copyIds = data.map(b => b.copy_id).filter(Boolean)
+        const { data: copiesData } = await supabase
+          .from('book_copies')
+          .select('id, barcode')
+          .in('id', copyIds)
+
+        const copiesMap = new Map<number, string>()
+        copiesData?.forEach(copy => {
+          copiesMap.set(copy.id, copy.barcode)
+        })
+
         const enriched = data.map(item => ({
           ...item,
-          book_name: booksMap.get(item.book_isbn)
+          book_name: booksMap.get(item.book_isbn),
+          copy_barcode: item.copy_id ? copiesMap.get(item.copy_id) : undefined
         }))
 
         setRecentTransactions(enriched as BorrowRecord[])
@@ -134,7 +197,7 @@ function LibrarianDashboard() {
       const today = new Date().toISOString()
       const { data, error } = await supabase
         .from('borrowed_books')
-        .select('*')
+        .select(reminderColumns)
         .eq('returned', false)
         .lt('due_date', today)
         .order('due_date')
@@ -163,37 +226,44 @@ function LibrarianDashboard() {
     }
   }
 
-  // Load due soon books (within 5 days)
+  // Load due soon books (within each category's reminder window)
   const loadDueSoon = async () => {
     try {
       const today = new Date()
-      const fiveDaysFromNow = new Date()
-      fiveDaysFromNow.setDate(today.getDate() + 5)
+      const policies = await loadLoanPolicies()
+      const windowEnd = new Date()
+      windowEnd.setDate(today.getDate() + maxDueSoonDays(policies))
 
       const { data, error } = await supabase
         .from('borrowed_books')
-        .select('*')
+        .select(reminderColumns)
         .eq('returned', false)
         .gte('due_date', today.toISOString())
-        .lte('due_date', fiveDaysFromNow.toISOString())
+        .lte('due_date', windowEnd.toISOString())
         .order('due_date')
 
       if (!error && data) {
         const isbnList = data.map(b => b.book_isbn)
         const { data: booksData } = await supabase
           .from('books')
-          .select('isbn, name')
+          .select('isbn, name, category')
           .in('isbn', isbnList)
 
-        const booksMap = new Map<string, string>()
+        const booksMap = new Map<string, { name: string; category: string | null }>()
         booksData?.forEach(book => {
-          booksMap.set(book.isbn, book.name)
+          booksMap.set(book.isbn, { name: book.name, category: book.category })
         })
 
-        const enriched = data.map(item => ({
-          ...item,
-          book_name: booksMap.get(item.book_isbn)
-        }))
+        const enriched = data
+          .filter(item => {
+            const policy = resolveLoanPolicy(policies, booksMap.get(item.book_isbn)?.category, 'student')
+            const daysLeft = Math.ceil((new Date(item.due_date).getTime() - today.getTime()) / (1000 * 60 * 60 * 24))
+            return daysLeft <= policy.due_soon_days
+          })
+          .map(item => ({
+            ...item,
+            book_name: booksMap.get(item.book_isbn)?.name
+          }))
 
         setDueSoonBooks(enriched as BorrowRecord[])
       }
@@ -202,6 +272,42 @@ function LibrarianDashboard() {
     }
   }
 
+  const toggleExport = (dataset: ExportDatasetId) => {
+    setExportDataset(exportDataset === dataset ? null : dataset)
+  }
+
+  // Fill the add-book form from the metadata providers; fields already typed are kept
+  const handleLookupMetadata = async () => {
+    if (!canonicalizeISBN(newBook.isbn)) {
+      alert('Enter a valid ISBN first.')
+      return
+    }
+
+    setLookingUp(true)
+    try {
+      const result = await lookupBookMetadata(newBook.isbn)
+      if (!result) {
+        alert('No details found for this ISBN. Please enter them by hand.')
+        return
+      }
+
+      const { metadata } = result
+      setNewBook({
+        ...newBook,
+        name: newBook.name || metadata.name || '',
+        author: newBook.author || joinList(metadata.authors || []),
+        category: newBook.category || metadata.category || metadata.subjects?.[0] || ''
+      })
+
+      const found = toBibliographicForm(metadata)
+      setNewBookDetails(Object.fromEntries(
+        Object.entries(newBookDetails).map(([key, value]) => [key, value || found[key as keyof typeof found]])
+      ) as typeof newBookDetails)
+    } finally {
+      setLookingUp(false)
+    }
+  }
+
   // Add new book
   const handleAddBook = async () => {
     if (!newBook.isbn || !newBook.name || !newBook.author || !newBook.total_copies) {
@@ -209,16 +315,29 @@ function LibrarianDashboard() {
       return
     }
 
+    const canonicalISBN = canonicalizeISBN(newBook.isbn)
+    if (!canonicalISBN) {
+      alert(`"${newBook.isbn}" is not a valid ISBN-10 or ISBN-13. Please check the digits.`)
+      return
+    }
+
+    const detailsError = validateBibliographicForm(newBookDetails)
+    if (detailsError) {
+      alert(detailsError)
+      return
+    }
+
     try {
       const { error } = await supabase
         .from('books')
         .insert({
-          isbn: newBook.isbn,
+          isbn: canonicalISBN,
           name: newBook.name,
-          author: newBook.author,
+          author: joinList(splitList(newBook.author)),
           category: newBook.category || 'General',
           total_copies: parseInt(newBook.total_copies),
-          available_copies: parseInt(newBook.total_copies)
+          available_copies: parseInt(newBook.total_copies),
+          ...fromBibliographicForm(newBookDetails)
         })
 
       if (error) {
@@ -228,6 +347,7 @@ function LibrarianDashboard() {
 
       alert('Book added successfully!')
       setNewBook({ isbn: '', name: '', author: '', category: '', total_copies: '' })
+      setNewBookDetails(emptyBibliographicForm)
       setShowAddBook(false)
       loadBooks()
       loadStats()
@@ -237,58 +357,50 @@ function LibrarianDashboard() {
     }
   }
 
-  // Delete book
-  const handleDeleteBook = async (isbn: string) => {
-    if (!confirm('Are you sure you want to delete this book?')) return
+  // Withdraw book (titles are never deleted, so loan history is kept)
+  const handleWithdrawBook = async (book: Book) => {
+    const reason = prompt(`Withdraw "${book.name}" from the collection?\n\nIt will be hidden from search and borrowing; you can restore it from Withdrawn Items. Reason (optional):`)
+    if (reason === null) return
 
     try {
-      const { error } = await supabase
-        .from('books')
-        .delete()
-        .eq('isbn', isbn)
+      const result = await withdrawBook(book.isbn, reason)
 
-      if (error) {
-        alert('Error deleting book: ' + error.message)
+      if (!result.success) {
+        alert('Error withdrawing book: ' + result.message)
         return
       }
 
-      alert('Book deleted successfully!')
+      alert(result.cancelledHolds > 0
+        ? `Book withdrawn. ${result.cancelledHolds} open hold(s) on it were cancelled.`
+        : 'Book withdrawn.')
       loadBooks()
       loadStats()
     } catch (error) {
-      console.error('Error deleting book:', error)
+      console.error('Error withdrawing book:', error)
     }
   }
 
   // Return book
-  const handleReturnBook = async (recordId: number, bookIsbn: string) => {
+  const handleReturnBook = async (recordId: number) => {
     try {
-      // Mark as returned
-      const { error: returnError } = await supabase
-        .from('borrowed_books')
-        .update({ returned: true, return_date: new Date().toISOString() })
-        .eq('id', recordId)
+      const result = await checkinBook(recordId)
 
-      if (returnError) {
-        alert('Error returning book: ' + returnError.message)
+      if (!result.success) {
+        alert('Error returning book: ' + result.message)
         return
       }
 
-      // Increase available copies
-      const { data: book } = await supabase
-        .from('books')
-        .select('available_copies')
-        .eq('isbn', bookIsbn)
-        .single()
+      const fineNote = result.fineCharged > 0
+        ? `\n\nReturned late: a fine of ${formatMoney(result.fineCharged)} was added to the student's account.`
+        : ''
 
-      if (book) {
-        await supabase
-          .from('books')
-          .update({ available_copies: book.available_copies + 1 })
-          .eq('isbn', bookIsbn)
+      // The copy may now be reserved for the next patron in the hold queue
+      if (result.readyHold) {
+        await notifyHoldReady(result.readyHold)
+        alert(`Book returned successfully!${fineNote}\n\nCopy ${result.readyHold.copyBarcode} is reserved for ${result.readyHold.userEmail} — please place it on the hold shelf.`)
+      } else {
+        alert(`Book returned successfully!${fineNote}`)
       }
-
-      alert('Book returned successfully!')
       loadTransactions()
       loadOverdue()
       loadStats()
@@ -303,14 +415,17 @@ function LibrarianDashboard() {
     
     setSendingEmails(true)
     try {
+      // Patrons who turned due date emails off in their account settings are skipped
+      const wantsReminder = (record: BorrowRecord) => record.borrower?.email_due_reminders !== false
+
       // Prepare reminders for overdue books
-      const overdueReminders = overdueBooks.map(record => {
+      const overdueReminders = overdueBooks.filter(wantsReminder).map(record => {
         const daysOverdue = Math.floor(
           (new Date().getTime() - new Date(record.due_date).getTime()) / (1000 * 60 * 60 * 24)
         )
         return {
           studentEmail: record.user_email,
-          studentName: record.user_email.split('@')[0], // Use email username as name
+          studentName: greetingName(record.borrower?.name, record.user_email),
           bookTitle: record.book_name || record.book_isbn,
           dueDate: record.due_date,
           daysLeft: -daysOverdue,
@@ -319,13 +434,13 @@ function LibrarianDashboard() {
       })
 
       // Prepare reminders for due soon books
-      const dueSoonReminders = dueSoonBooks.map(record => {
+      const dueSoonReminders = dueSoonBooks.filter(wantsReminder).map(record => {
         const today = new Date()
         const dueDate = new Date(record.due_date)
         const daysLeft = Math.ceil((dueDate.getTime() - today.getTime()) / (1000 * 60 * 60 * 24))
         return {
           studentEmail: record.user_email,
-          studentName: record.user_email.split('@')[0],
+          studentName: greetingName(record.borrower?.name, record.user_email),
           bookTitle: record.book_name || record.book_isbn,
           dueDate: record.due_date,
           daysLeft,
@@ -373,7 +488,7 @@ function LibrarianDashboard() {
       if (isOverdue) {
         await emailService.sendOverdueNotice(
           record.user_email,
-          record.user_email.split('@')[0],
+          greetingName(record.borrower?.name, record.user_email),
           record.book_name || record.book_isbn,
           record.due_date,
           daysLeft
@@ -381,7 +496,7 @@ function LibrarianDashboard() {
       } else {
         await emailService.sendDueReminder(
           record.user_email,
-          record.user_email.split('@')[0],
+          greetingName(record.borrower?.name, record.user_email),
           record.book_name || record.book_isbn,
           record.due_date,
           daysLeft
@@ -399,12 +514,14 @@ function LibrarianDashboard() {
   useEffect(() => {
     // Configure email service from environment variables
     emailService.configure({
-      emailjsServiceId: import.meta.env.VITE_EMAILJS_SERVICE_ID,
-      emailjsTemplateId: import.meta.env.VITE_EMAILJS_TEMPLATE_ID,
-      emailjsPublicKey: import.meta.env.VITE_EMAILJS_PUBLIC_KEY,
-      senderEmail: import.meta.env.VITE_SENDER_EMAIL,
+      ...config.email,
       senderName: 'CampusReads Library'
     })
+
+    // Expire unclaimed holds and notify the patrons who move up the queue
+    processHolds().then(readyHolds => {
+      readyHolds.forEach(hold => notifyHoldReady(hold))
+    })
   }, [])
 
   useEffect(() => {
@@ -420,13 +537,14 @@ function LibrarianDashboard() {
   }, [activeTab])
 
   const userEmail = localStorage.getItem('userEmail')
+  const [userName, setUserName] = useState(() => localStorage.getItem('userName'))
 
   return (
     <div className="dashboard">
       <div className="dashboard-header">
         <div className="header-left">
           <h2 className="dashboard-title">Librarian Dashboard</h2>
-          <p className="welcome-text">Welcome, {userEmail}!</p>
+          <p className="welcome-text">Welcome, {userName || userEmail}!</p>
         </div>
         <button className="logout-button" onClick={async () => {
           await supabase.auth.signOut()
@@ -445,6 +563,12 @@ function LibrarianDashboard() {
         >
           📊 Dashboard
         </button>
+        <button 
+          className={`tab-button ${activeTab === 'desk' ? 'active' : ''}`}
+          onClick={() => setActiveTab('desk')}
+        >
+          🛎️ Circulation Desk
+        </button>
         <button 
           className={`tab-button ${activeTab === 'inventory' ? 'active' : ''}`}
           onClick={() => setActiveTab('inventory')}
@@ -463,6 +587,30 @@ function LibrarianDashboard() {
         >
           📧 Reminders
         </button>
+        <button 
+          className={`tab-button ${activeTab === 'fines' ? 'active' : ''}`}
+          onClick={() => setActiveTab('fines')}
+        >
+          💰 Fines
+        </button>
+        <button 
+          className={`tab-button ${activeTab === 'blocks' ? 'active' : ''}`}
+          onClick={() => setActiveTab('blocks')}
+        >
+          🚫 Blocks
+        </button>
+        <button 
+          className={`tab-button ${activeTab === 'policies' ? 'active' : ''}`}
+          onClick={() => setActiveTab('policies')}
+        >
+          ⚙️ Policies
+        </button>
+        <button 
+          className={`tab-button ${activeTab === 'settings' ? 'active' : ''}`}
+          onClick={() => setActiveTab('settings')}
+        >
+          👤 Settings
+        </button>
       </div>
 
       {/* Dashboard Tab */}
@@ -500,16 +648,54 @@ function LibrarianDashboard() {
         </div>
       )}
 
+      {/* Circulation Desk Tab */}
+      {activeTab === 'desk' && (
+        <div className="dashboard-section">
+          <CirculationDesk librarianEmail={userEmail || ''} />
+        </div>
+      )}
+
       {/* Inventory Tab */}
       {activeTab === 'inventory' && (
         <div className="dashboard-section">
           <div className="section-header">
             <h3 className="section-title">Book Inventory</h3>
-            <button className="action-button" onClick={() => setShowAddBook(!showAddBook)}>
-              {showAddBook ? 'Cancel' : '+ Add New Book'}
-            </button>
+            <div className="card-actions">
+              <button className="action-button" onClick={() => setShowImport(!showImport)}>
+                {showImport ? 'Close Import' : '⇅ Import / Export'}
+              </button>
+              <button className="action-button" onClick={() => setShowWithdrawn(!showWithdrawn)}>
+                {showWithdrawn ? 'Hide Withdrawn' : '🗄️ Withdrawn Items'}
+              </button>
+              <button className="action-button" onClick={() => toggleExport('catalog')}>
+                {exportDataset === 'catalog' ? 'Close Export' : '📤 Export'}
+              </button>
+              <button className="action-button" onClick={() => setShowAddBook(!showAddBook)}>
+                {showAddBook ? 'Cancel' : '+ Add New Book'}
+              </button>
+            </div>
           </div>
 
+          {exportDataset === 'catalog' && <ExportPanel initialDataset="catalog" />}
+
+          {showWithdrawn && (
+            <WithdrawnBooks
+              onRestored={() => {
+                loadBooks()
+                loadStats()
+              }}
+            />
+          )}
+
+          {showImport && (
+            <CatalogImport
+              onImported={() => {
+                loadBooks()
+                loadStats()
+              }}
+            />
+          )}
+
           {showAddBook && (
             <div className="add-book-form">
               <input
@@ -518,6 +704,9 @@ function LibrarianDashboard() {
                 value={newBook.isbn}
                 onChange={(e) => setNewBook({ ...newBook, isbn: e.target.value })}
               />
+              <button className="scanner-button" onClick={handleLookupMetadata} disabled={lookingUp}>
+                {lookingUp ? 'Looking up...' : '🔎 Fill from ISBN'}
+              </button>
               <input
                 className="input-field"
                 placeholder="Book Title *"
@@ -526,7 +715,7 @@ function LibrarianDashboard() {
               />
               <input
                 className="input-field"
-                placeholder="Author *"
+                placeholder="Author(s) * — separate several with ;"
                 value={newBook.author}
                 onChange={(e) => setNewBook({ ...newBook, author: e.target.value })}
               />
@@ -543,6 +732,7 @@ function LibrarianDashboard() {
                 value={newBook.total_copies}
                 onChange={(e) => setNewBook({ ...newBook, total_copies: e.target.value })}
               />
+              <BibliographicFields value={newBookDetails} onChange={setNewBookDetails} />
               <button className="action-button" onClick={handleAddBook}>
                 Add Book
               </button>
@@ -551,20 +741,63 @@ function LibrarianDashboard() {
 
           <div className="books-list">
             {books.map((book) => (
-              <div key={book.id} className="book-card">
+              <div key={book.id} className={`book-card ${expandedIsbn === book.isbn ? 'expanded' : ''}`}>
                 <div className="book-info">
                   <p><strong>{book.name}</strong></p>
-                  <p>Author: {book.author}</p>
-                  <p>ISBN: {book.isbn}</p>
+                  <p>{book.authors.length > 1 ? 'Authors' : 'Author'}: {formatAuthors(book.authors, book.author)}</p>
+                  <p>ISBN: {formatISBN(book.isbn)}</p>
                   <p>Category: {book.category}</p>
                   <p>Available: {book.available_copies} / {book.total_copies}</p>
+                  <BookDetails book={book} />
+                </div>
+                {editingBookId === book.id && (
+                  <BookEditor
+                    book={book}
+                    onSaved={() => {
+                      setEditingBookId(null)
+                      loadBooks()
+                      loadStats()
+                    }}
+                    onCancel={() => setEditingBookId(null)}
+                  />
+                )}
+                {/* Keyed on updated_at so an open history reloads after an edit */}
+                {historyBookId === book.id && <BookHistory key={book.updated_at} bookId={book.id} />}
+                {expandedIsbn === book.isbn && (
+                  <BookCopies
+                    isbn={book.isbn}
+                    onChange={() => {
+                      loadBooks()
+                      loadStats()
+                    }}
+                  />
+                )}
+                <div className="card-actions">
+                  <button
+                    className="action-button"
+                    onClick={() => setEditingBookId(editingBookId === book.id ? null : book.id)}
+                  >
+                    {editingBookId === book.id ? 'Cancel Edit' : '✏️ Edit'}
+                  </button>
+                  <button
+                    className="action-button"
+                    onClick={() => setHistoryBookId(historyBookId === book.id ? null : book.id)}
+                  >
+                    {historyBookId === book.id ? 'Hide History' : '🕘 History'}
+                  </button>
+                  <button
+                    className="action-button"
+                    onClick={() => setExpandedIsbn(expandedIsbn === book.isbn ? null : book.isbn)}
+                  >
+                    {expandedIsbn === book.isbn ? 'Hide Copies' : '📦 Manage Copies'}
+                  </button>
+                  <button 
+                    className="delete-button"
+                    onClick={() => handleWithdrawBook(book)}
+                  >
+                    Withdraw
+                  </button>
                 </div>
-                <button 
-                  className="delete-button"
-                  onClick={() => handleDeleteBook(book.isbn)}
-                >
-                  Delete
-                </button>
               </div>
             ))}
           </div>
@@ -574,13 +807,22 @@ function LibrarianDashboard() {
       {/* Transactions Tab */}
       {activeTab === 'transactions' && (
         <div className="dashboard-section">
-          <h3 className="section-title">Recent Borrow/Return Transactions</h3>
+          <div className="section-header">
+            <h3 className="section-title">Recent Borrow/Return Transactions</h3>
+            <button className="action-button" onClick={() => toggleExport('loans')}>
+              {exportDataset === 'loans' ? 'Close Export' : '📤 Export Loans'}
+            </button>
+          </div>
+
+          {exportDataset === 'loans' && <ExportPanel initialDataset="loans" />}
+
           <div className="transactions-list">
             {recentTransactions.map((record) => (
               <div key={record.id} className="transaction-card">
                 <div className="transaction-info">
                   <p><strong>{record.book_name || record.book_isbn}</strong></p>
                   <p>Student: {record.user_email}</p>
+                  {record.copy_barcode && <p>Copy: {record.copy_barcode}</p>}
                   <p>Borrowed: {new Date(record.borrow_date).toLocaleDateString()}</p>
                   <p>Due: {new Date(record.due_date).toLocaleDateString()}</p>
                   <p>Status: {record.returned ? '✅ Returned' : '⏳ Borrowed'}</p>
@@ -588,7 +830,7 @@ function LibrarianDashboard() {
                 {!record.returned && (
                   <button 
                     className="action-button"
-                    onClick={() => handleReturnBook(record.id, record.book_isbn)}
+                    onClick={() => handleReturnBook(record.id)}
                   >
                     Mark as Returned
                   </button>
@@ -604,15 +846,22 @@ function LibrarianDashboard() {
         <div className="dashboard-section">
           <div className="section-header">
             <h3 className="section-title">Overdue Books & Reminders</h3>
-            <button 
-              className="action-button" 
-              onClick={sendReminders}
-              disabled={sendingEmails}
-            >
-              {sendingEmails ? '📧 Sending...' : '📧 Send All Reminders'}
-            </button>
+            <div className="card-actions">
+              <button className="action-button" onClick={() => toggleExport('overdue')}>
+                {exportDataset === 'overdue' ? 'Close Export' : '📤 Export Overdue'}
+              </button>
+              <button 
+                className="action-button" 
+                onClick={sendReminders}
+                disabled={sendingEmails}
+              >
+                {sendingEmails ? '📧 Sending...' : '📧 Send All Reminders'}
+              </button>
+            </div>
           </div>
 
+          {exportDataset === 'overdue' && <ExportPanel initialDataset="overdue" />}
+
           {/* Overdue Books Section */}
           {overdueBooks.length > 0 && (
             <div>
@@ -640,7 +889,7 @@ function LibrarianDashboard() {
                         </button>
                         <button 
                           className="action-button return-button"
-                          onClick={() => handleReturnBook(record.id, record.book_isbn)}
+                          onClick={() => handleReturnBook(record.id)}
                         >
                           Mark as Returned
                         </button>
@@ -655,7 +904,7 @@ function LibrarianDashboard() {
           {/* Due Soon Books Section */}
           {dueSoonBooks.length > 0 && (
             <div style={{ marginTop: '2rem' }}>
-              <h4 className="subsection-title">⏰ Due Soon (Within 5 Days) ({dueSoonBooks.length})</h4>
+              <h4 className="subsection-title">⏰ Due Soon ({dueSoonBooks.length})</h4>
               <div className="overdue-list">
                 {dueSoonBooks.map((record) => {
                   const today = new Date()
@@ -691,6 +940,32 @@ function LibrarianDashboard() {
         </div>
       )}
 
+      {/* Fines Tab */}
+      {activeTab === 'fines' && (
+        <div className="dashboard-section">
+          <FinesDesk />
+        </div>
+      )}
+
+      {/* Blocks Tab */}
+      {activeTab === 'blocks' && (
+        <div className="dashboard-section">
+          <PatronBlocks />
+        </div>
+      )}
+
+      {/* Policies Tab */}
+      {activeTab === 'policies' && (
+        <div className="dashboard-section">
+          <LoanPolicies />
+        </div>
+      )}
+
+      {/* Settings Tab */}
+      {activeTab === 'settings' && (
+        <AccountSettings onNameChange={setUserName} />
+      )}
+
     </div>
   )
 }
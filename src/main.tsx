@@ -1,10 +1,26 @@
 import { StrictMode } from 'react'
 import { createRoot } from 'react-dom/client'
 import './index.css'
-import App from './App.tsx'
+import './App.css'
+import { config, configProblems } from './lib/config'
+import { ConfigError } from './components/ConfigError'
 
-createRoot(document.getElementById('root')!).render(
-  <StrictMode>
-    <App />
-  </StrictMode>,
-)
+const root = createRoot(document.getElementById('root')!)
+
+if (configProblems.length > 0) {
+  root.render(
+    <StrictMode>
+      <ConfigError profile={config.profile} problems={configProblems} />
+    </StrictMode>,
+  )
+} else {
+  // The app is loaded only once the settings are valid: creating the
+  // Supabase client without a URL would throw before anything renders
+  import('./App.tsx').then(({ default: App }) => {
+    root.render(
+      <StrictMode>
+        <App />
+      </StrictMode>,
+    )
+  })
+}
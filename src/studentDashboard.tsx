@@ -5,171 +5,174 @@ import { Analytics } from './components/Analytics'
 import { StudentAnalytics } from './components/StudentAnalytics'
 import { Recommendations } from './components/Recommendations'
 import { CameraScanner } from './components/CameraScanner'
+import { BookAutocomplete } from './components/BookAutocomplete'
+import { FineLedgerTable } from './components/FineLedgerTable'
+import { checkoutBook, checkinBook, renewLoan } from './lib/circulation'
+import { loadLoanPolicies, resolveLoanPolicy } from './lib/loanPolicy'
+import { canonicalizeISBN, formatISBN } from './lib/isbn'
+import { placeHold, cancelHold, loadHolds, notifyHoldReady, type Hold } from './lib/holds'
+import { loadBorrowingBlocks, describeBorrowingBlock, type BorrowingBlock } from './lib/patronBlocks'
+import { loadFineLedger, loadFineBalance, estimateOverdueFine, formatMoney, type FineEntry } from './lib/fines'
+import { hasSearchState } from './lib/bookSearch'
+import { AccountSettings } from './components/AccountSettings'
 
 interface BorrowedBook {
   id: number
+  user_id: string
   user_email: string
   book_isbn: string
   borrow_date: string
   due_date: string
   returned: boolean
+  renewal_count: number
+  // Renewal limit from the loan policy for this book's category
+  max_renewals: number
+  // Fine the loan would be charged if returned today
+  accruing_fine: number
   book_name?: string
   book_author?: string
 }
 
 function StudentDashboard() {
-  const [activeTab, setActiveTab] = useState<'dashboard' | 'search' | 'analytics' | 'recommendations'>('dashboard')
+  // Links to a search open straight on the search tab
+  const [activeTab, setActiveTab] = useState<'dashboard' | 'search' | 'analytics' | 'recommendations' | 'settings'>(
+    () => hasSearchState(window.location.search) ? 'search' : 'dashboard'
+  )
   const [isbn, setIsbn] = useState('')
   const [myBooks, setMyBooks] = useState<BorrowedBook[]>([])
+  const [myHolds, setMyHolds] = useState<Hold[]>([])
+  const [fineBalance, setFineBalance] = useState(0)
+  const [fineLedger, setFineLedger] = useState<FineEntry[]>([])
+  const [borrowingBlocks, setBorrowingBlocks] = useState<BorrowingBlock[]>([])
   const [showScanner, setShowScanner] = useState(false)
   const userEmail = localStorage.getItem('userEmail')
-
-  // Normalize ISBN - remove spaces, dashes, and convert to string
-  const normalizeISBN = (isbn: string): string => {
-    return isbn.trim().replace(/[-\s]/g, '')
-  }
+  const [userName, setUserName] = useState(() => localStorage.getItem('userName'))
+  // Loans, holds, fines and blocks are all kept by account
+  const userId = localStorage.getItem('userId')
 
   // Function to borrow a book (can be called with ISBN)
   const borrowBook = async (isbnToBorrow?: string) => {
-    let isbnValue = isbnToBorrow || isbn.trim()
+    const isbnValue = isbnToBorrow || isbn.trim()
     if (!isbnValue) {
       alert('Please enter or scan an ISBN!')
       return
     }
 
-    // Normalize ISBN (remove spaces and dashes for comparison)
-    const normalizedISBN = normalizeISBN(isbnValue)
+    if (!userId) {
+      alert('Please log in again to borrow books.')
+      return
+    }
+
+    // Older catalog entries may keep an ISBN that does not validate; borrow_book
+    // looks those up as entered
+    const bookISBN = canonicalizeISBN(isbnValue) || isbnValue
 
     try {
-      console.log('Attempting to borrow book with ISBN:', { original: isbnValue, normalized: normalizedISBN })
-      
-      // First, let's try exact match
-      let { data: book, error: bookError } = await supabase
-        .from('books')
-        .select('*')
-        .eq('isbn', isbnValue)
-        .single()
-
-      console.log('Exact match query result:', { book, bookError })
-
-      // If exact match fails, try normalized match (in case database has normalized ISBNs)
-      if (bookError && normalizedISBN !== isbnValue) {
-        console.log('Trying normalized ISBN match...')
-        const result = await supabase
-          .from('books')
-          .select('*')
-          .eq('isbn', normalizedISBN)
-          .single()
-        book = result.data
-        bookError = result.error
-        console.log('Normalized match query result:', { book, bookError })
-      }
+      // Availability check, loan creation and copy count update happen in one transaction
+      const result = await checkoutBook(userId, bookISBN)
 
-      // If still not found, try case-insensitive search (in case column type issue)
-      if (bookError) {
-        console.log('Trying to fetch all books to debug...')
-        const { data: allBooks, error: allBooksError } = await supabase
-          .from('books')
-          .select('*')
-          .limit(10)
-
-        console.log('Sample books from database:', { allBooks, allBooksError })
-        
-        if (allBooks && allBooks.length > 0) {
-          // Try to find a match manually
-          const foundBook = allBooks.find((b: any) => 
-            normalizeISBN(b.isbn || '') === normalizedISBN || 
-            b.isbn === isbnValue ||
-            b.isbn === normalizedISBN
-          )
-          
-          if (foundBook) {
-            book = foundBook
-            bookError = null
-            console.log('Found book via manual search:', foundBook)
-          } else {
-            console.log('Available ISBNs in database:', allBooks.map((b: any) => b.isbn))
+      if (!result.success) {
+        setIsbn('')
+        if (result.error === 'unavailable') {
+          if (confirm(`${result.message}\n\nWould you like to place a hold? You'll be emailed when a copy is set aside for you.`)) {
+            await placeHoldForBook(bookISBN)
           }
+          return
         }
-      }
-
-      if (bookError || !book) {
-        // Show more detailed error
-        const errorMsg = bookError 
-          ? `Book not found! Error: ${bookError.message}\n\nTried searching for: "${isbnValue}"\n\nPlease check:\n1. The ISBN is correct\n2. The book exists in the books table\n3. The column name is "isbn" (case-sensitive)`
-          : `Book not found with ISBN: "${isbnValue}"`
-        alert(errorMsg)
-        setIsbn('')
+        if (result.reasons) {
+          setBorrowingBlocks(result.reasons)
+          alert('You cannot borrow books right now:\n\n' + result.message)
+          return
+        }
+        if (result.error === 'not_found' && !canonicalizeISBN(isbnValue)) {
+          alert(`"${isbnValue}" is not a valid ISBN. Please check the digits and try again.`)
+          return
+        }
+        alert(result.error === 'not_found'
+          ? `Book not found with ISBN: ${formatISBN(bookISBN)}`
+          : result.message)
         return
       }
 
-      if (book.available_copies <= 0) {
-        alert('Book not available!')
-        setIsbn('')
-        return
+      alert(`Book "${result.bookName}" borrowed successfully! Due date: ${new Date(result.dueDate).toLocaleDateString()}`)
+      setIsbn('') // Clear the input
+      setShowScanner(false)
+      loadMyBooks() // Refresh list
+      loadMyHolds() // Picking up a hold closes it
+      loadMyBlocks() // May have reached the loan limit
+      
+      // If we're on search/recommendations, refresh those too
+      if (activeTab === 'search' || activeTab === 'recommendations') {
+        window.location.reload() // Simple refresh for now
       }
+    } catch (error) {
+      console.error('Unexpected error:', error)
+      alert('An unexpected error occurred: ' + (error instanceof Error ? error.message : 'Unknown error'))
+    }
+  }
 
-      // Add to borrowed_books table
-      const dueDate = new Date()
-      dueDate.setDate(dueDate.getDate() + 14) // Due in 14 days
-
-      // Use the actual ISBN from the book record
-      const actualISBN = book.isbn || isbnValue
-
-      const { error: borrowError } = await supabase.from('borrowed_books').insert({
-        user_email: userEmail,
-        book_isbn: actualISBN,
-        borrow_date: new Date().toISOString(),
-        due_date: dueDate.toISOString(),
-        returned: false
-      })
+  // Join the hold queue for a book with no copies on the shelf
+  const placeHoldForBook = async (isbnToHold: string) => {
+    if (!userId) return
 
-      console.log('Borrow insert result:', { borrowError })
+    try {
+      const result = await placeHold(userId, isbnToHold)
 
-      if (borrowError) {
-        console.error('Borrow error details:', borrowError)
-        alert('Error borrowing book: ' + borrowError.message)
+      if (!result.success) {
+        alert('Could not place hold: ' + result.message)
         return
       }
 
-      // Decrease available copies (using actualISBN declared above)
-      const { error: updateError } = await supabase
-        .from('books')
-        .update({ available_copies: book.available_copies - 1 })
-        .eq('isbn', actualISBN)
+      alert(`Hold placed on "${result.bookName}". You are #${result.queuePosition} in the queue.`)
+      loadMyHolds()
+    } catch (error) {
+      console.error('Error placing hold:', error)
+    }
+  }
 
-      console.log('Update copies result:', { updateError })
+  const handleCancelHold = async (hold: Hold) => {
+    if (!confirm(`Cancel your hold on "${hold.book_name || hold.book_isbn}"?`)) return
 
-      if (updateError) {
-        alert('Error updating book availability: ' + updateError.message)
+    try {
+      const result = await cancelHold(hold.id)
+
+      if (!result.success) {
+        alert('Error cancelling hold')
         return
       }
 
-      alert(`Book "${book.name}" borrowed successfully! Due date: ${dueDate.toLocaleDateString()}`)
-      setIsbn('') // Clear the input
-      setShowScanner(false)
-      loadMyBooks() // Refresh list
-      
-      // If we're on search/recommendations, refresh those too
-      if (activeTab === 'search' || activeTab === 'recommendations') {
-        window.location.reload() // Simple refresh for now
+      // A copy that was set aside for this hold now goes to the next patron
+      if (result.nextHold) {
+        await notifyHoldReady(result.nextHold)
       }
+
+      loadMyHolds()
     } catch (error) {
-      console.error('Unexpected error:', error)
-      alert('An unexpected error occurred: ' + (error instanceof Error ? error.message : 'Unknown error'))
+      console.error('Error cancelling hold:', error)
+    }
+  }
+
+  // Load holds placed by this student
+  const loadMyHolds = async () => {
+    if (!userId) return
+
+    try {
+      setMyHolds(await loadHolds(userId))
+    } catch (error) {
+      console.error('Error loading holds:', error)
     }
   }
 
   // Load books borrowed by this student
   const loadMyBooks = async () => {
-    if (!userEmail) return
+    if (!userId) return
     
     try {
       // First get all borrowed books
       const { data: borrowedBooks, error } = await supabase
         .from('borrowed_books')
         .select('*')
-        .eq('user_email', userEmail)
+        .eq('user_id', userId)
         .eq('returned', false)
         .order('borrow_date', { ascending: false })
 
@@ -191,26 +194,30 @@ function StudentDashboard() {
       if (isbnList.length > 0) {
       const { data: booksData, error: booksError } = await supabase
         .from('books')
-          .select('isbn, name, author')
+          .select('isbn, name, author, category')
         .in('isbn', isbnList)
+      const policies = await loadLoanPolicies()
 
       console.log('Loaded books data:', { booksData, booksError })
 
         // Create a map of ISBN to book details
-        const booksMap = new Map<string, { name: string; author: string }>()
+        const booksMap = new Map<string, { name: string; author: string; category: string | null }>()
       if (booksData) {
         booksData.forEach(book => {
-            booksMap.set(book.isbn, { name: book.name, author: book.author })
+            booksMap.set(book.isbn, { name: book.name, author: book.author, category: book.category })
         })
       }
 
         // Combine the data with full book information
         const transformedData = borrowedBooks.map((item: any) => {
           const bookInfo = booksMap.get(item.book_isbn)
+          const policy = resolveLoanPolicy(policies, bookInfo?.category, 'student')
           return {
         ...item,
             book_name: bookInfo?.name || 'Unknown Book',
-            book_author: bookInfo?.author || 'Unknown Author'
+            book_author: bookInfo?.author || 'Unknown Author',
+            max_renewals: policy.max_renewals,
+            accruing_fine: estimateOverdueFine(item.due_date, policy)
           }
         })
 
@@ -223,53 +230,79 @@ function StudentDashboard() {
     }
   }
 
+  const loadMyFines = async () => {
+    if (!userId) return
+
+    const [balance, ledger] = await Promise.all([loadFineBalance(userId), loadFineLedger(userId)])
+    setFineBalance(balance)
+    setFineLedger(ledger)
+  }
+
+  const loadMyBlocks = async () => {
+    if (!userId) return
+    setBorrowingBlocks(await loadBorrowingBlocks(userId))
+  }
+
   // Load books when component loads
   useEffect(() => {
     loadMyBooks()
+    loadMyHolds()
+    loadMyFines()
+    loadMyBlocks()
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [])
 
   // Return book
-  const handleReturnBook = async (recordId: number, bookIsbn: string) => {
+  const handleReturnBook = async (recordId: number) => {
     try {
-      // Mark as returned
-      const { error: returnError } = await supabase
-        .from('borrowed_books')
-        .update({ returned: true, return_date: new Date().toISOString() })
-        .eq('id', recordId)
+      const result = await checkinBook(recordId)
 
-      if (returnError) {
-        alert('Error returning book: ' + returnError.message)
+      if (!result.success) {
+        alert('Error returning book: ' + result.message)
         return
       }
 
-      // Increase available copies
-      const { data: book } = await supabase
-        .from('books')
-        .select('available_copies')
-        .eq('isbn', bookIsbn)
-        .single()
-
-      if (book) {
-        await supabase
-          .from('books')
-          .update({ available_copies: book.available_copies + 1 })
-          .eq('isbn', bookIsbn)
+      // The copy may now be reserved for the next patron in the hold queue
+      if (result.readyHold) {
+        await notifyHoldReady(result.readyHold)
       }
 
-      alert('Book returned successfully!')
+      alert(result.fineCharged > 0
+        ? `Book returned successfully!\n\nThis book was late, so a fine of ${formatMoney(result.fineCharged)} has been added to your account.`
+        : 'Book returned successfully!')
       loadMyBooks()
+      loadMyFines()
+      loadMyBlocks()
     } catch (error) {
       console.error('Error returning book:', error)
     }
   }
 
+  // Renew a loan
+  const handleRenewLoan = async (recordId: number) => {
+    if (!userId) return
+
+    try {
+      const result = await renewLoan(recordId)
+
+      if (!result.success) {
+        alert('Could not renew: ' + result.message)
+        return
+      }
+
+      alert(`Loan renewed! New due date: ${new Date(result.dueDate).toLocaleDateString()} (${result.renewalsLeft} renewal(s) left)`)
+      loadMyBooks()
+    } catch (error) {
+      console.error('Error renewing loan:', error)
+    }
+  }
+
   return (
     <div className="dashboard">
       <div className="dashboard-header">
         <div className="header-left">
       <h2 className="dashboard-title">Student Dashboard</h2>
-      <p className="welcome-text">Welcome, {userEmail}!</p>
+      <p className="welcome-text">Welcome, {userName || userEmail}!</p>
         </div>
         <button className="logout-button" onClick={async () => {
           await supabase.auth.signOut()
@@ -306,6 +339,12 @@ function StudentDashboard() {
         >
           📊 Analytics
         </button>
+        <button 
+          className={`tab-button ${activeTab === 'settings' ? 'active' : ''}`}
+          onClick={() => setActiveTab('settings')}
+        >
+          👤 Settings
+        </button>
       </div>
 
       {/* Dashboard Tab - My Books */}
@@ -313,14 +352,22 @@ function StudentDashboard() {
         <>
       <div className="dashboard-section">
         <h3 className="section-title">Borrow a Book</h3>
+        {borrowingBlocks.length > 0 && (
+          <div className="borrowing-blocked">
+            <p><strong>🚫 Borrowing is on hold for your account</strong></p>
+            <ul>
+              {borrowingBlocks.map((block) => (
+                <li key={block.code}>{describeBorrowingBlock(block)}</li>
+              ))}
+            </ul>
+          </div>
+        )}
         <div className="borrow-form">
-          <input 
-            className="input-field"
-            type="text"
-                placeholder="Enter or Scan ISBN"
+          <BookAutocomplete
+            placeholder="Enter or scan an ISBN, or type a title or author"
             value={isbn}
-            onChange={(e) => setIsbn(e.target.value)}
-            onKeyDown={(e) => e.key === 'Enter' && borrowBook()}
+            onChange={setIsbn}
+            onSubmit={() => borrowBook()}
           />
               <button className="action-button" onClick={() => borrowBook()}>Borrow</button>
         </div>
@@ -359,44 +406,110 @@ function StudentDashboard() {
                         {book.book_author && (
                           <p className="book-author">Author: {book.book_author}</p>
                         )}
-                        <p className="book-isbn">ISBN: {book.book_isbn}</p>
+                        <p className="book-isbn">ISBN: {formatISBN(book.book_isbn)}</p>
                         <p className="book-borrowed">Borrowed: {new Date(book.borrow_date).toLocaleDateString()}</p>
                         <p className={`book-due ${isOverdue ? 'overdue-text' : ''}`}>
                           Due Date: {dueDate.toLocaleDateString()}
                           {isOverdue ? ` ⚠️ ${Math.abs(daysLeft)} days overdue` : daysLeft <= 3 ? ` ⚠️ ${daysLeft} days left` : ` (${daysLeft} days left)`}
                         </p>
+                        {book.renewal_count > 0 && (
+                          <p className="book-renewals">Renewed {book.renewal_count} of {book.max_renewals} time(s)</p>
+                        )}
+                        {isOverdue && book.accruing_fine > 0 && (
+                          <p className="overdue-text">💰 Fine so far: {formatMoney(book.accruing_fine)}</p>
+                        )}
                         {isOverdue && (
                           <p className="reminder-note">📧 You will receive email reminders for overdue books</p>
                         )}
                       </div>
-                      <button 
-                        className="action-button return-button"
-                        onClick={() => handleReturnBook(book.id, book.book_isbn)}
-                      >
-                        Return Book
-                      </button>
+                      <div className="card-actions">
+                        <button
+                          className="action-button"
+                          onClick={() => handleRenewLoan(book.id)}
+                          disabled={book.renewal_count >= book.max_renewals}
+                          title={book.renewal_count >= book.max_renewals ? 'Renewal limit reached' : 'Extend the due date'}
+                        >
+                          Renew
+                        </button>
+                        <button 
+                          className="action-button return-button"
+                          onClick={() => handleReturnBook(book.id)}
+                        >
+                          Return Book
+                        </button>
+                      </div>
                     </div>
                   )
                 })}
               </div>
             )}
           </div>
+
+          {fineLedger.length > 0 && (
+            <div className="dashboard-section">
+              <h3 className="section-title">My Fines</h3>
+              <p className={`fine-balance ${fineBalance > 0 ? 'owed' : ''}`}>
+                Balance: <strong>{formatMoney(fineBalance)}</strong>
+                {fineBalance > 0 && ' — please pay at the library desk'}
+              </p>
+              <FineLedgerTable entries={fineLedger} />
+            </div>
+          )}
+
+          {myHolds.length > 0 && (
+            <div className="dashboard-section">
+              <h3 className="section-title">My Holds</h3>
+              <div className="books-list">
+                {myHolds.map((hold) => (
+                  <div key={hold.id} className={`book-card ${hold.status === 'ready' ? 'ready' : ''}`}>
+                    <div className="book-info">
+                      <p className="book-name"><strong>{hold.book_name || 'Unknown Book'}</strong></p>
+                      <p className="book-isbn">ISBN: {formatISBN(hold.book_isbn)}</p>
+                      <p>Requested: {new Date(hold.requested_at).toLocaleDateString()}</p>
+                      {hold.status === 'ready' && hold.pickup_expires_at ? (
+                        <p className="hold-ready-text">
+                          📬 Ready for pickup until {new Date(hold.pickup_expires_at).toLocaleDateString()}
+                        </p>
+                      ) : (
+                        <p>⏳ Position in queue: #{hold.queue_position}</p>
+                      )}
+                    </div>
+                    <div className="card-actions">
+                      {hold.status === 'ready' && (
+                        <button className="action-button" onClick={() => borrowBook(hold.book_isbn)}>
+                          Borrow Now
+                        </button>
+                      )}
+                      <button className="action-button return-button" onClick={() => handleCancelHold(hold)}>
+                        Cancel Hold
+                      </button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
         </>
       )}
 
       {/* Search Tab */}
       {activeTab === 'search' && (
-        <SearchBooks onBorrow={borrowBook} />
+        <SearchBooks onBorrow={borrowBook} onHold={placeHoldForBook} />
       )}
 
       {/* Recommendations Tab */}
       {activeTab === 'recommendations' && (
-        <Recommendations userEmail={userEmail || ''} onBorrow={borrowBook} />
+        <Recommendations userId={userId || ''} onBorrow={borrowBook} onHold={placeHoldForBook} />
       )}
 
       {/* Analytics Tab */}
       {activeTab === 'analytics' && (
-        <StudentAnalytics userEmail={userEmail || ''} />
+        <StudentAnalytics userId={userId || ''} />
+      )}
+
+      {/* Settings Tab */}
+      {activeTab === 'settings' && (
+        <AccountSettings onNameChange={setUserName} />
       )}
     </div>
   )
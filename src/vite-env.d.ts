@@ -0,0 +1,16 @@
+/// <reference types="vite/client" />
+
+// Settings read by src/lib/config.ts
+interface ImportMetaEnv {
+  readonly VITE_APP_PROFILE?: string
+  readonly VITE_SUPABASE_URL?: string
+  readonly VITE_SUPABASE_ANON_KEY?: string
+  readonly VITE_EMAILJS_SERVICE_ID?: string
+  readonly VITE_EMAILJS_TEMPLATE_ID?: string
+  readonly VITE_EMAILJS_PUBLIC_KEY?: string
+  readonly VITE_SENDER_EMAIL?: string
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv
+}
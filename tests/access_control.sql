@@ -0,0 +1,324 @@
+-- Access control checks for setup_supabase.sql
+-- Signs in as a student, a second student, a librarian and a signed-out
+-- visitor (anon) in turn and checks what each can read, write and call.
+-- Run it against a database where setup_supabase.sql has been applied:
+--
+--   psql "$DATABASE_URL" -v ON_ERROR_STOP=1 -f tests/access_control.sql
+--
+-- The first failed check raises an exception. Everything runs in one
+-- transaction that is rolled back, so no test accounts or records are kept.
+
+BEGIN;
+
+-- Checks -----------------------------------------------------------------
+
+CREATE FUNCTION pg_temp.check(p_ok BOOLEAN, p_what TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF p_ok IS NOT TRUE THEN
+    RAISE EXCEPTION 'FAILED: %', p_what;
+  END IF;
+  RAISE NOTICE 'ok: %', p_what;
+END;
+$$;
+
+-- A write or call is refused when it raises insufficient_privilege (a row
+-- level security WITH CHECK, a missing grant, a librarian-only function) or
+-- when the policies leave it no rows to change
+CREATE FUNCTION pg_temp.check_refused(p_sql TEXT, p_what TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_rows INTEGER;
+BEGIN
+  BEGIN
+    EXECUTE p_sql;
+    GET DIAGNOSTICS v_rows = ROW_COUNT;
+  EXCEPTION WHEN insufficient_privilege THEN
+    v_rows := 0;
+  END;
+
+  IF v_rows > 0 THEN
+    RAISE EXCEPTION 'FAILED: % (% row(s) affected)', p_what, v_rows;
+  END IF;
+  RAISE NOTICE 'ok: %', p_what;
+END;
+$$;
+
+-- Fixtures ---------------------------------------------------------------
+-- Two students with one record of each kind, and a librarian
+
+INSERT INTO public.registration_domains (domain) VALUES ('access-test.edu')
+ON CONFLICT (domain) DO NOTHING;
+
+INSERT INTO auth.users (id, email) VALUES
+  ('a0000000-0000-4000-8000-00000000000a', 'student.a@access-test.edu'),
+  ('b0000000-0000-4000-8000-00000000000b', 'student.b@access-test.edu'),
+  ('c0000000-0000-4000-8000-00000000000c', 'librarian@access-test.edu');
+
+UPDATE public.users SET role = 'librarian' WHERE id = 'c0000000-0000-4000-8000-00000000000c';
+
+-- Two copies to lend, and a title with none so it can only be held
+INSERT INTO public.books (isbn, name, author, category, total_copies, available_copies) VALUES
+  ('9780000000002', 'Access Test Lending Copy', 'Test Author', 'Testing', 2, 2),
+  ('9780000000019', 'Access Test Held Title', 'Test Author', 'Testing', 0, 0);
+
+SELECT pg_temp.check(
+  public.borrow_book('a0000000-0000-4000-8000-00000000000a', '9780000000002')->>'success' = 'true',
+  'student A borrows a book'
+);
+SELECT pg_temp.check(
+  public.borrow_book('b0000000-0000-4000-8000-00000000000b', '9780000000002')->>'success' = 'true',
+  'student B borrows a book'
+);
+SELECT pg_temp.check(
+  public.place_hold('a0000000-0000-4000-8000-00000000000a', '9780000000019')->>'success' = 'true',
+  'student A places a hold'
+);
+SELECT pg_temp.check(
+  public.place_hold('b0000000-0000-4000-8000-00000000000b', '9780000000019')->>'success' = 'true',
+  'student B places a hold'
+);
+
+INSERT INTO public.fine_ledger (user_id, user_email, entry_type, amount, note) VALUES
+  ('a0000000-0000-4000-8000-00000000000a', 'student.a@access-test.edu', 'charge', 1.50, 'access test'),
+  ('b0000000-0000-4000-8000-00000000000b', 'student.b@access-test.edu', 'charge', 2.50, 'access test');
+
+INSERT INTO public.patron_blocks (user_id, user_email, reason) VALUES
+  ('a0000000-0000-4000-8000-00000000000a', 'student.a@access-test.edu', 'access test'),
+  ('b0000000-0000-4000-8000-00000000000b', 'student.b@access-test.edu', 'access test');
+
+-- Student B's loan and hold, for student A to try to change
+SELECT
+  set_config('access_test.loan_b', (SELECT id FROM public.borrowed_books WHERE user_id = 'b0000000-0000-4000-8000-00000000000b')::TEXT, TRUE),
+  set_config('access_test.hold_b', (SELECT id FROM public.holds WHERE user_id = 'b0000000-0000-4000-8000-00000000000b')::TEXT, TRUE);
+
+-- Student ----------------------------------------------------------------
+
+SELECT
+  set_config('request.jwt.claims', '{"role":"authenticated","sub":"a0000000-0000-4000-8000-00000000000a"}', TRUE),
+  set_config('request.jwt.claim.sub', 'a0000000-0000-4000-8000-00000000000a', TRUE);
+SET LOCAL ROLE authenticated;
+
+-- Reads: the student's own rows and nobody else's
+SELECT pg_temp.check(
+  (SELECT array_agg(DISTINCT id) FROM public.users) = ARRAY['a0000000-0000-4000-8000-00000000000a'::UUID],
+  'student reads only their own account'
+);
+SELECT pg_temp.check(
+  (SELECT array_agg(DISTINCT user_id) FROM public.borrowed_books) = ARRAY['a0000000-0000-4000-8000-00000000000a'::UUID],
+  'student reads only their own loans'
+);
+SELECT pg_temp.check(
+  (SELECT array_agg(DISTINCT user_id) FROM public.holds) = ARRAY['a0000000-0000-4000-8000-00000000000a'::UUID],
+  'student reads only their own holds'
+);
+SELECT pg_temp.check(
+  (SELECT array_agg(DISTINCT user_id) FROM public.hold_queue) = ARRAY['a0000000-0000-4000-8000-00000000000a'::UUID],
+  'student sees only their own place in the hold queue'
+);
+SELECT pg_temp.check(
+  (SELECT array_agg(DISTINCT user_id) FROM public.fine_ledger) = ARRAY['a0000000-0000-4000-8000-00000000000a'::UUID],
+  'student reads only their own fines'
+);
+SELECT pg_temp.check(
+  (SELECT array_agg(DISTINCT user_id) FROM public.fine_balances) = ARRAY['a0000000-0000-4000-8000-00000000000a'::UUID],
+  'student reads only their own fine balance'
+);
+SELECT pg_temp.check(
+  (SELECT array_agg(DISTINCT user_id) FROM public.patron_blocks) = ARRAY['a0000000-0000-4000-8000-00000000000a'::UUID],
+  'student reads only their own blocks'
+);
+SELECT pg_temp.check(NOT EXISTS (SELECT 1 FROM public.book_changes), 'student cannot read the catalog change history');
+
+-- Catalog and copy writes
+SELECT pg_temp.check_refused(
+  $$INSERT INTO public.books (isbn, name, author) VALUES ('9780131103627', 'Student Book', 'Student')$$,
+  'student cannot add books'
+);
+SELECT pg_temp.check_refused(
+  $$UPDATE public.books SET name = 'Renamed' WHERE isbn = '9780000000002'$$,
+  'student cannot edit books'
+);
+SELECT pg_temp.check_refused(
+  $$DELETE FROM public.books WHERE isbn = '9780000000019'$$,
+  'student cannot delete books'
+);
+SELECT pg_temp.check_refused(
+  $$INSERT INTO public.book_copies (book_isbn) VALUES ('9780000000002')$$,
+  'student cannot add copies'
+);
+SELECT pg_temp.check_refused(
+  $$UPDATE public.book_copies SET status = 'lost' WHERE book_isbn = '9780000000002'$$,
+  'student cannot change copy status'
+);
+SELECT pg_temp.check_refused(
+  $$UPDATE public.loan_policies SET loan_days = 365$$,
+  'student cannot change loan policies'
+);
+
+-- Circulation records change only through the checked functions
+SELECT pg_temp.check_refused(
+  $$UPDATE public.borrowed_books SET due_date = due_date + INTERVAL '1 year'$$,
+  'student cannot extend their own loans directly'
+);
+SELECT pg_temp.check_refused(
+  $$DELETE FROM public.fine_ledger$$,
+  'student cannot delete their fines'
+);
+SELECT pg_temp.check_refused(
+  $$INSERT INTO public.fine_ledger (user_id, user_email, entry_type, amount)
+    VALUES ('a0000000-0000-4000-8000-00000000000a', 'student.a@access-test.edu', 'waiver', 1.50)$$,
+  'student cannot waive their own fines'
+);
+SELECT pg_temp.check_refused(
+  $$UPDATE public.patron_blocks SET lifted_at = NOW()$$,
+  'student cannot lift their own block'
+);
+SELECT pg_temp.check_refused(
+  $$UPDATE public.users SET role = 'librarian'$$,
+  'student cannot promote themselves'
+);
+
+-- Privileged functions
+SELECT pg_temp.check(
+  public.borrow_book('b0000000-0000-4000-8000-00000000000b', '9780000000002')->>'error' = 'not_allowed',
+  'student cannot borrow for another patron'
+);
+SELECT pg_temp.check(
+  public.place_hold('b0000000-0000-4000-8000-00000000000b', '9780000000019')->>'error' = 'not_allowed',
+  'student cannot place holds for another patron'
+);
+SELECT pg_temp.check(
+  public.return_book(current_setting('access_test.loan_b')::INTEGER)->>'error' = 'loan_not_found',
+  'student cannot return another patron''s loan'
+);
+SELECT pg_temp.check(
+  public.renew_loan(current_setting('access_test.loan_b')::INTEGER)->>'error' = 'loan_not_found',
+  'student cannot renew another patron''s loan'
+);
+SELECT pg_temp.check(
+  public.cancel_hold(current_setting('access_test.hold_b')::INTEGER)->>'error' = 'hold_not_found',
+  'student cannot cancel another patron''s hold'
+);
+SELECT pg_temp.check(
+  public.block_patron('b0000000-0000-4000-8000-00000000000b', 'access test')->>'error' = 'not_allowed',
+  'student cannot block patrons'
+);
+SELECT pg_temp.check(
+  public.unblock_patron('a0000000-0000-4000-8000-00000000000a')->>'error' = 'not_allowed',
+  'student cannot unblock themselves'
+);
+SELECT pg_temp.check(
+  public.record_fine_transaction('a0000000-0000-4000-8000-00000000000a', 'waiver', 1.50)->>'error' = 'not_allowed',
+  'student cannot record fine waivers'
+);
+SELECT pg_temp.check(
+  public.update_book('9780000000002', '{"name": "Renamed"}')->>'error' = 'not_allowed',
+  'student cannot update book records'
+);
+SELECT pg_temp.check(
+  public.withdraw_book('9780000000002', 'access test')->>'error' = 'not_allowed',
+  'student cannot withdraw books'
+);
+SELECT pg_temp.check(
+  public.restore_book('9780000000002')->>'error' = 'not_allowed',
+  'student cannot restore books'
+);
+SELECT pg_temp.check_refused(
+  $$SELECT public.import_books('[{"isbn": "9780131103627", "name": "Imported", "author": "Student"}]')$$,
+  'student cannot import books'
+);
+SELECT pg_temp.check_refused(
+  $$SELECT public.process_holds()$$,
+  'student cannot process the hold queue'
+);
+SELECT pg_temp.check_refused(
+  $$SELECT public.assign_copy_to_next_hold((SELECT MIN(id) FROM public.book_copies))$$,
+  'student cannot hand copies to the hold queue'
+);
+
+RESET ROLE;
+
+-- The other student sees their own records, not student A's
+SELECT
+  set_config('request.jwt.claims', '{"role":"authenticated","sub":"b0000000-0000-4000-8000-00000000000b"}', TRUE),
+  set_config('request.jwt.claim.sub', 'b0000000-0000-4000-8000-00000000000b', TRUE);
+SET LOCAL ROLE authenticated;
+
+SELECT pg_temp.check(
+  (SELECT array_agg(DISTINCT user_id) FROM public.borrowed_books) = ARRAY['b0000000-0000-4000-8000-00000000000b'::UUID]
+    AND (SELECT array_agg(DISTINCT user_id) FROM public.holds) = ARRAY['b0000000-0000-4000-8000-00000000000b'::UUID]
+    AND (SELECT array_agg(DISTINCT user_id) FROM public.fine_ledger) = ARRAY['b0000000-0000-4000-8000-00000000000b'::UUID]
+    AND (SELECT array_agg(DISTINCT user_id) FROM public.patron_blocks) = ARRAY['b0000000-0000-4000-8000-00000000000b'::UUID],
+  'second student reads only their own loans, holds, fines and blocks'
+);
+
+RESET ROLE;
+
+-- Librarian --------------------------------------------------------------
+
+SELECT
+  set_config('request.jwt.claims', '{"role":"authenticated","sub":"c0000000-0000-4000-8000-00000000000c"}', TRUE),
+  set_config('request.jwt.claim.sub', 'c0000000-0000-4000-8000-00000000000c', TRUE);
+SET LOCAL ROLE authenticated;
+
+SELECT pg_temp.check(
+  (SELECT COUNT(DISTINCT user_id) FROM public.borrowed_books WHERE book_isbn = '9780000000002') = 2
+    AND (SELECT COUNT(DISTINCT user_id) FROM public.holds WHERE book_isbn = '9780000000019') = 2
+    AND (SELECT COUNT(*) FROM public.fine_ledger WHERE note = 'access test') = 2
+    AND (SELECT COUNT(*) FROM public.patron_blocks WHERE reason = 'access test') = 2,
+  'librarian reads every patron''s loans, holds, fines and blocks'
+);
+SELECT pg_temp.check(
+  public.unblock_patron('a0000000-0000-4000-8000-00000000000a')->>'success' = 'true',
+  'librarian unblocks a patron'
+);
+SELECT pg_temp.check(
+  public.record_fine_transaction('b0000000-0000-4000-8000-00000000000b', 'payment', 2.50, 'access test')->>'success' = 'true',
+  'librarian records a payment'
+);
+SELECT pg_temp.check(
+  public.update_book('9780000000002', '{"name": "Access Test Renamed"}')->>'success' = 'true',
+  'librarian updates a book record'
+);
+SELECT pg_temp.check(
+  (SELECT changed_by FROM public.book_changes WHERE new_value = 'Access Test Renamed') = 'librarian@access-test.edu',
+  'catalog changes are recorded under the signed-in librarian'
+);
+
+RESET ROLE;
+
+-- Signed-out visitor -----------------------------------------------------
+
+SELECT
+  set_config('request.jwt.claims', '{"role":"anon"}', TRUE),
+  set_config('request.jwt.claim.sub', '', TRUE);
+SET LOCAL ROLE anon;
+
+SELECT pg_temp.check_refused($$SELECT * FROM public.users$$, 'anon cannot read accounts');
+SELECT pg_temp.check_refused($$SELECT * FROM public.borrowed_books$$, 'anon cannot read loans');
+SELECT pg_temp.check_refused($$SELECT * FROM public.holds$$, 'anon cannot read holds');
+SELECT pg_temp.check_refused($$SELECT * FROM public.fine_ledger$$, 'anon cannot read fines');
+SELECT pg_temp.check_refused($$SELECT * FROM public.patron_blocks$$, 'anon cannot read blocks');
+SELECT pg_temp.check_refused(
+  $$SELECT public.borrow_book('a0000000-0000-4000-8000-00000000000a', '9780000000002')$$,
+  'anon cannot borrow books'
+);
+
+RESET ROLE;
+
+SELECT pg_temp.check(
+  NOT EXISTS (
+    SELECT 1 FROM pg_proc p
+    WHERE p.pronamespace = 'public'::regnamespace
+      AND p.prosecdef
+      AND has_function_privilege('anon', p.oid, 'EXECUTE')
+  ),
+  'anon cannot execute any SECURITY DEFINER function'
+);
+
+ROLLBACK;